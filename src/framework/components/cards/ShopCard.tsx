@@ -1,17 +1,19 @@
 import React, { useRef, useState } from 'react';
 import { UpgradeDefinition } from './UpgradeCard';
 
-interface ShopCardProps {
-  upgrade: UpgradeDefinition & {
-    cost: {
-      salvage?: number;
-      gold?: number;
-      platinum?: number;
-      adamantium?: number;
-    };
-    purchased?: boolean;
-    banished?: boolean;
+export type ShopUpgrade = UpgradeDefinition & {
+  cost: {
+    salvage?: number;
+    gold?: number;
+    platinum?: number;
+    adamantium?: number;
   };
+  purchased?: boolean;
+  banished?: boolean;
+};
+
+interface ShopCardProps {
+  upgrade: ShopUpgrade;
   canAfford: boolean;
   onPurchase?: () => void;
   onBanish?: () => void;
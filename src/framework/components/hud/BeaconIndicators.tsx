@@ -0,0 +1,79 @@
+import React from 'react';
+import { WORLD, BEACON } from '../../constants/gameConstants';
+import { EntityManager } from '../../systems/EntityManager';
+
+interface ViewportInfo {
+  cx: number;
+  cy: number;
+  camW: number;
+  camH: number;
+}
+
+interface BeaconIndicatorsProps {
+  entityManager: EntityManager;
+  viewport: ViewportInfo;
+}
+
+// Keep arrows this far (as a fraction of the screen) inside the edges
+const EDGE_INSET = 0.04;
+
+/**
+ * Edge arrows pointing at enemy spawn beacons that are off-screen
+ */
+export const BeaconIndicators: React.FC<BeaconIndicatorsProps> = ({
+  entityManager,
+  viewport
+}) => {
+  const beacons = (entityManager.entities.beacons ?? []).filter(beacon => beacon.active);
+  const color = `#${BEACON.color.toString(16).padStart(6, '0')}`;
+
+  return (
+    <>
+      {beacons.map((beacon, index) => {
+        // Shortest offset across the wrapped world
+        let dx = beacon.position.x - viewport.cx;
+        let dy = beacon.position.y - viewport.cy;
+        dx -= Math.round(dx / WORLD.width) * WORLD.width;
+        dy -= Math.round(dy / WORLD.height) * WORLD.height;
+
+        const halfW = viewport.camW / 2;
+        const halfH = viewport.camH / 2;
+        if (Math.abs(dx) <= halfW && Math.abs(dy) <= halfH) return null; // Ring is on screen
+
+        // Pull the point back along its direction until it sits on the screen edge
+        const edge = 0.5 - EDGE_INSET;
+        const scale = Math.min(
+          dx !== 0 ? (edge * viewport.camW) / Math.abs(dx) : Infinity,
+          dy !== 0 ? (edge * viewport.camH) / Math.abs(dy) : Infinity
+        );
+        const left = 50 + ((dx * scale) / viewport.camW) * 100;
+        const top = 50 - ((dy * scale) / viewport.camH) * 100;
+        const angle = Math.atan2(dx, dy); // Clockwise from up, like CSS rotate
+
+        return (
+          <div
+            key={index}
+            className="absolute animate-pulse"
+            style={{
+              left: `${left}%`,
+              top: `${top}%`,
+              transform: `translate(-50%, -50%) rotate(${angle}rad)`,
+              opacity: 0.5 + beacon.getProgress() * 0.5
+            }}
+          >
+            <div
+              style={{
+                width: 0,
+                height: 0,
+                borderLeft: '9px solid transparent',
+                borderRight: '9px solid transparent',
+                borderBottom: `16px solid ${color}`,
+                filter: `drop-shadow(0 0 6px ${color})`
+              }}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
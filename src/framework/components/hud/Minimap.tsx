@@ -114,19 +114,46 @@ export const Minimap: React.FC<MinimapProps> = ({
         }
       });
       
-      // Draw enemies (red triangles)
+      // Draw enemies (dots in their type's color)
       const enemies = entityManager.entities.enemies;
       enemies.forEach(enemy => {
         if (enemy.active) {
           const pos = worldToMinimap(enemy.position.x, enemy.position.y);
           
-          ctx.fillStyle = '#ff4444';
+          ctx.fillStyle = `#${enemy.getDefinition().color.toString(16).padStart(6, '0')}`;
           ctx.beginPath();
           ctx.arc(pos.x, pos.y, 3, 0, Math.PI * 2);
           ctx.fill();
         }
       });
       
+      // Draw bosses (large pulsing red ring; only present once bosses are registered)
+      const bosses = entityManager.entities.bosses ?? [];
+      bosses.forEach(boss => {
+        if (boss.active) {
+          const pos = worldToMinimap(boss.position.x, boss.position.y);
+
+          ctx.strokeStyle = '#ff3366';
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y, 5 + Math.sin(boss.age * 6), 0, Math.PI * 2);
+          ctx.stroke();
+        }
+      });
+
+      // Draw drones (small teal dots; only present once drones are registered)
+      const drones = entityManager.entities.drones ?? [];
+      drones.forEach(drone => {
+        if (drone.active) {
+          const pos = worldToMinimap(drone.position.x, drone.position.y);
+          
+          ctx.fillStyle = '#92ffdd';
+          ctx.beginPath();
+          ctx.arc(pos.x, pos.y, 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+      });
+      
       // Draw pickups (green dots)
       const pickups = entityManager.entities.pickups;
       pickups.forEach(pickup => {
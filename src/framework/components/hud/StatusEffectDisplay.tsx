@@ -0,0 +1,74 @@
+import React from 'react';
+import { EntityManager } from '../../systems/EntityManager';
+import { STATUS_EFFECT_DEFINITIONS } from '../../data/statusEffectDefinitions';
+
+interface StatusEffectDisplayProps {
+  entityManager: EntityManager;
+}
+
+const RING_SIZE = 40;
+const RING_STROKE = 3;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Active power-ups on the player's ship, each with a ring that empties as it runs out
+ */
+export const StatusEffectDisplay: React.FC<StatusEffectDisplayProps> = ({ entityManager }) => {
+  const ship = entityManager.entities.ships.find(candidate => candidate.active);
+  const effects = ship?.effects.getActive() ?? [];
+
+  if (effects.length === 0) return null;
+
+  return (
+    <div className="flex space-x-2">
+      {effects.map(effect => {
+        const definition = STATUS_EFFECT_DEFINITIONS[effect.type];
+        const color = `#${definition.color.toString(16).padStart(6, '0')}`;
+        const remaining = effect.duration > 0 ? Math.max(0, effect.timeLeft / effect.duration) : 0;
+
+        return (
+          <div
+            key={effect.type}
+            className={`relative ${effect.timeLeft < 1 ? 'animate-pulse' : ''}`}
+            style={{ width: RING_SIZE, height: RING_SIZE }}
+            title={definition.name}
+          >
+            <svg width={RING_SIZE} height={RING_SIZE} className="absolute inset-0 -rotate-90 transform">
+              <circle
+                cx={RING_SIZE / 2}
+                cy={RING_SIZE / 2}
+                r={RING_RADIUS}
+                fill="rgba(0, 0, 0, 0.7)"
+                stroke="rgba(255, 255, 255, 0.15)"
+                strokeWidth={RING_STROKE}
+              />
+              <circle
+                cx={RING_SIZE / 2}
+                cy={RING_SIZE / 2}
+                r={RING_RADIUS}
+                fill="none"
+                stroke={color}
+                strokeWidth={RING_STROKE}
+                strokeDasharray={RING_LENGTH}
+                strokeDashoffset={RING_LENGTH * (1 - remaining)}
+                style={{ filter: `drop-shadow(0 0 3px ${color})` }}
+              />
+            </svg>
+            <div className="absolute inset-0 flex items-center justify-center text-lg">
+              {definition.icon}
+            </div>
+            {effect.stacks > 1 && (
+              <div
+                className="absolute -bottom-1 -right-1 rounded-full bg-black px-1 font-mono text-xs font-bold"
+                style={{ color }}
+              >
+                x{effect.stacks}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
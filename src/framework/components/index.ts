@@ -18,6 +18,8 @@ export { Minimap } from './hud/Minimap';
 export { UpgradeHistory } from './hud/UpgradeHistory';
 export { StatusConsole } from './hud/StatusConsole';
 export { FrameCounter } from './hud/FrameCounter';
+export { BeaconIndicators } from './hud/BeaconIndicators';
+export { StatusEffectDisplay } from './hud/StatusEffectDisplay';
 
 // Card Components
 export { UpgradeCard } from './cards/UpgradeCard';
@@ -25,6 +27,7 @@ export { ShopCard } from './cards/ShopCard';
 
 // Types
 export type { UpgradeDefinition } from './cards/UpgradeCard';
+export type { ShopUpgrade } from './cards/ShopCard';
 
 // Data
 export * from '../data/upgradeDefinitions';
\ No newline at end of file
@@ -1,8 +1,16 @@
 import React from 'react';
 import { GameState } from '../../hooks/useGameState';
+import { ShopCard, ShopUpgrade } from '../cards/ShopCard';
+import { WEAPON_DEFINITIONS, WeaponType } from '../../data/weaponDefinitions';
 
 interface HangarScreenProps {
   gameState?: GameState;
+  currencies?: GameState['currencies']; // Overrides gameState.currencies
+  shopItems?: ShopUpgrade[];
+  onPurchase?: (item: ShopUpgrade) => void;
+  weapons?: WeaponType[];                // Owned weapon-slot archetypes
+  equippedWeapon?: WeaponType;
+  onEquipWeapon?: (weapon: WeaponType) => void;
   onUpdateGameState?: (updates: Partial<GameState>) => void;
   onStartGame?: () => void;
   onClose: () => void;
@@ -10,10 +18,21 @@ interface HangarScreenProps {
 
 export const HangarScreen: React.FC<HangarScreenProps> = ({
   gameState,
+  currencies = gameState?.currencies,
+  shopItems = [],
+  onPurchase,
+  weapons = gameState?.mods.weapons ?? ['blaster'],
+  equippedWeapon = gameState?.mods.weapon ?? 'blaster',
+  onEquipWeapon,
   onUpdateGameState,
   onStartGame,
   onClose
 }) => {
+  const canAfford = (item: ShopUpgrade) =>
+    !!currencies && Object.entries(item.cost).every(
+      ([type, amount]) => currencies[type as keyof typeof currencies] >= (amount || 0)
+    );
+
   const handleNextMission = () => {
     // Start the next wave/mission
     if (onUpdateGameState && gameState) {
@@ -100,16 +119,16 @@ export const HangarScreen: React.FC<HangarScreenProps> = ({
       {/* Currency display */}
       <div className="hangar-currency">
         <div className="currency-item salvage">
-          {gameState?.currencies?.salvage || 0}
+          {currencies?.salvage || 0}
         </div>
         <div className="currency-item gold">
-          {gameState?.currencies?.gold || 0}
+          {currencies?.gold || 0}
         </div>
         <div className="currency-item platinum">
-          {gameState?.currencies?.platinum || 0}
+          {currencies?.platinum || 0}
         </div>
         <div className="currency-item adamantium">
-          {gameState?.currencies?.adamantium || 0}
+          {currencies?.adamantium || 0}
         </div>
       </div>
 
@@ -123,16 +142,55 @@ export const HangarScreen: React.FC<HangarScreenProps> = ({
         maxHeight: '40vh',
         overflow: 'auto'
       }}>
-        {/* Placeholder for shop cards */}
-        <div style={{
-          padding: '40px',
-          textAlign: 'center',
-          color: 'var(--color-primary)',
-          opacity: 0.6,
-          fontSize: '18px'
-        }}>
-          Shop upgrades will appear here
-        </div>
+        {shopItems.map(item => (
+          <ShopCard
+            key={item.id}
+            upgrade={item}
+            canAfford={canAfford(item)}
+            onPurchase={onPurchase ? () => onPurchase(item) : undefined}
+          />
+        ))}
+        
+        {shopItems.length === 0 && (
+          <div style={{
+            padding: '40px',
+            textAlign: 'center',
+            color: 'var(--color-primary)',
+            opacity: 0.6,
+            fontSize: '18px'
+          }}>
+            Shop upgrades will appear here
+          </div>
+        )}
+      </div>
+
+      {/* Weapon slot: swap between owned weapons */}
+      <div className="hangar-weapon-slot" style={{
+        position: 'absolute',
+        top: '72%',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        gap: '8px',
+        alignItems: 'center'
+      }}>
+        <span style={{ color: 'var(--color-primary)', opacity: 0.8 }}>Weapon Slot</span>
+        {weapons.map(type => {
+          const weapon = WEAPON_DEFINITIONS[type];
+          const equipped = type === equippedWeapon;
+          return (
+            <button
+              key={type}
+              className={`shop-button weapon-slot${equipped ? ' equipped' : ''}`}
+              disabled={equipped || !onEquipWeapon}
+              title={weapon.description}
+              onClick={() => onEquipWeapon?.(type)}
+              style={{ opacity: equipped ? 1 : 0.7 }}
+            >
+              {weapon.icon} {weapon.name}{equipped ? ' (Equipped)' : ''}
+            </button>
+          );
+        })}
       </div>
 
       {/* Control buttons */}
@@ -22,12 +22,56 @@ export const ASTEROIDS = {
   baseSpeed: 8,
 } as const;
 
+// Asteroid durability: hit points by size, scaled up each wave
+export const ASTEROID_HEALTH = {
+  large: 3,
+  medium: 2,
+  small: 1,
+  perWave: 0.1,         // +10% hit points per wave after the first
+  overkillRatio: 0.5,   // Finishing damage past zero (x max HP) that shatters the rock
+  shatterPieces: 1,     // Extra pieces from a shattering hit
+  flashTime: 0.08,      // Hit flash duration (seconds)
+  crackStages: 3,       // Crack decals shown as hit points run down
+} as const;
+
+// Rigid-body bumps between asteroids and enemies (CollisionSystem.setRigidBodies)
+export const RIGID_BODY = {
+  enabled: true,
+  density: 1,             // Mass = density x radius²
+  restitution: 0.8,       // Asteroid-asteroid bounce
+  enemyRestitution: 0.4,  // Enemies are softer than rock
+  spinTransfer: 0.3,      // Share of the glancing speed turned into spin
+  maxSpin: 4,             // rad/sec
+  puffSpeed: 1,           // Impacts at least this fast kick up a dust puff
+  chunkSpeed: 10,         // Impacts at least this fast chip off chunks instead
+  crushMassRatio: 4,      // Rock must outweigh the enemy this many times to crush it
+  crushAngle: -0.5,       // Contacts at least this opposed (cosine) pin the enemy
+} as const;
+
 export const BULLET = { 
   speed: 70, 
   life: 1.1, 
   r: 0.2 
 } as const;
 
+// Player gun volleys built from the run mods (Weapon)
+export const WEAPON = {
+  muzzleOffset: 1.4,        // Shots leave this far ahead of the ship
+  inheritVelocity: 0.1,     // Share of the ship's velocity each shot keeps
+  twinSpacing: 0.7,         // Gap between the Twin Cannons barrels
+  tripleAngles: [-0.18, 0, 0.18],
+  wideAngles: [-0.28, -0.12, 0, 0.12, 0.28],
+  spreadDamage: { twin: 0.9, triple: 0.85, wide: 0.8 },  // Multishot costs damage per bullet
+  pierceHits: { normal: 1, super: 2, ultra: 999 },       // Extra targets per bullet (ultra is effectively unlimited)
+  pierceDamage: { normal: 1.1, super: 1.2, ultra: 1.5 },
+  maxRicochet: 2,
+  ricochetRange: 60,        // How far a ricochet looks for its next target
+  ricochetCone: 1.0,        // Half-angle (radians) around the bullet's heading it will turn toward
+  fireRateUpgrade: 1.25,          // Rapid Fire card
+  fireRateAdvancedUpgrade: 1.5,   // Advanced Targeting card
+  shrapnelFireRate: 0.85,         // Shrapnel Rounds card (-15%)
+} as const;
+
 export const ENEMY = {
   radius: 1.2,
   accel: 20,
@@ -58,11 +102,36 @@ export const INVULN_SPAWN = 2.0;
 export const INVULN_WAVE = 3.0;
 export const INVULN_HIT = 1.0;
 
+// Player hull and respawn
+export const HULL = {
+  max: 100,            // Hull points per ship
+  asteroidDamage: 35,  // Ramming an asteroid
+  enemyRamDamage: 40,  // Ramming an enemy ship
+  enemyShotDamage: 15, // Hit by an enemy bullet
+  respawnDelay: 1.5,   // Seconds between losing a ship and the next one launching
+  safeRadius: 25,      // Respawn point must be this clear of hazards
+} as const;
+
 // Shop and upgrade constants  
 export const BASE_REROLL_COST = 15;
 export const REROLL_MULTIPLIER = 1.15;
 export const EPIC_REROLL_THRESHOLD = 4;
 
+// Simulation timing (fixed-step accumulator)
+export const SIMULATION = {
+  fixedStep: 1 / 120,  // Seconds per simulation tick
+  maxSubSteps: 8,      // Max catch-up ticks per rendered frame
+  maxFrameTime: 0.25,  // Frame time clamp after tab switches / hitches
+} as const;
+
+// Time scale effects
+export const TIME_SCALE = {
+  hitStopLarge: 0.06,     // Freeze after destroying a large asteroid (seconds)
+  hitStopEnemy: 0.08,     // Freeze after destroying an enemy (seconds)
+  timeWarpEnemies: 0.7,   // Temporal Distortion: enemy speed -30%
+  timeWarpPlayer: 1.2,    // Temporal Distortion: player speed +20%
+} as const;
+
 // Entity pool sizes (matching vanilla)
 export const POOL_SIZES = {
   ships: 5,
@@ -72,6 +141,11 @@ export const POOL_SIZES = {
   asteroids: 100,
   enemies: 20,
   pickups: 50,
+  beacons: 10,
+  beams: 5,
+  missiles: 30,
+  mines: 12,
+  chargeShots: 10,
 } as const;
 
 // Starfield constants
@@ -114,7 +188,7 @@ export const POSTPROCESSING = {
 export const RENDERER_SETTINGS = {
   antialias: false,
   alpha: true,
-  pixelRatio: Math.min(devicePixelRatio, 2),
+  pixelRatio: typeof devicePixelRatio !== 'undefined' ? Math.min(devicePixelRatio, 2) : 1,
   outputColorSpace: 'srgb',
   toneMapping: 'ACESFilmic',
   toneMappingExposure: 1.2,
@@ -152,13 +226,12 @@ export const FOG = {
   density: 0.004,
 } as const;
 
-// Ore drop rates (exact from vanilla)
+// Ore roll thresholds (exact from vanilla chooseOreType: roll above the value)
 export const ORE_RATES = {
-  iron: 0.995,    // 99.5% chance for iron
-  gold: 0.97,     // 2.5% chance for gold  
-  platinum: 0.995, // 0.5% chance for platinum
-  adamantium: 0.995, // 0.5% chance for adamantium
-} as const;
+  gold: 0.9,          // 7% chance for gold
+  platinum: 0.97,     // 2.5% chance for platinum
+  adamantium: 0.995,  // 0.5% chance for adamantium
+} as const;           // Iron otherwise (90%)
 
 // Pickup drop chances
 export const PICKUP_RATES = {
@@ -171,6 +244,7 @@ export const PICKUP_RATES = {
 export const MATERIAL_COLORS = {
   bullet: 0xffcc88,
   bulletEmissive: 0xff8800,
+  enemyBullet: 0xff4466,
   salvage: 0xbde2ff,
   gold: 0xffd77a,
   platinum: 0xd8f4ff,
@@ -197,6 +271,39 @@ export const DRONE = {
   maxCount: 3,
   radiusOffset: 0.8,
   speedMultiplier: 0.3,
+  targetRange: 45,  // Drones only engage targets this close
+  damage: 0.5,      // Drones do half damage
+} as const;
+
+// Enemy spawn beacons (vanilla spawnBeacon)
+export const BEACON = {
+  warningTime: 1.5,        // Seconds the beacon pulses before the enemy arrives
+  radius: 3,
+  minPlayerDistance: 60,   // Beacons never land closer than this to a ship
+  spawnAttempts: 12,       // Random points tried before settling for the farthest
+  color: 0xff5533,
+} as const;
+
+// Boss constants
+export const BOSS = {
+  waveInterval: 5,       // A boss every N waves (BossSystem can override)
+  spriteCount: 10,       // src/assets/boss/boss1.png .. boss10.png
+  size: 12,              // Sprite plane size
+  radius: 5,
+  health: 60,            // First boss
+  healthPerBoss: 20,     // Added for every boss already met
+  speedRamp: 0.2,        // Each boss 20% faster than the one before (vanilla)
+  maxSpeed: 12,
+  accel: 10,
+  holdDistance: 35,      // Circles the player at this range
+  armorMultiplier: 0.5,  // Damage taken outside the weak points
+  weakPointMultiplier: 3,
+  weakPointRadius: 1.4,
+  ramDamage: 60,
+  bulletSpeed: 40,
+  score: 2500,
+  introDuration: 3,      // Seconds the intro banner stays up
+  drops: { platinum: 3, adamantium: 2 } as Partial<Record<CurrencyType, number>>,
 } as const;
 
 // Particle system constants
@@ -226,6 +333,6 @@ export const PARTICLES = {
 
 export type AsteroidSize = keyof typeof ASTEROIDS;
 export type PierceType = false | true | 'super' | 'ultra';
-export type SpreadType = false | true | 'wide';
+export type SpreadType = false | 'twin' | true | 'wide';
 export type CurrencyType = 'salvage' | 'gold' | 'platinum' | 'adamantium';
 export type OverlayType = 'none' | 'start' | 'upgrade' | 'hangar' | 'pause' | 'gameover' | 'choices' | null;
\ No newline at end of file
@@ -0,0 +1,127 @@
+import type { EnemyType } from '../entities/Enemy';
+import { ENEMY } from '../constants/gameConstants';
+import type { ExplosionType } from './explosionDefinitions';
+
+export interface EnemyDefinition {
+  type: EnemyType;
+  name: string;
+  color: number;
+  shape: readonly number[]; // Triangle list as x,y pairs, nose pointing +Y
+  radius: number;
+  health: number;
+  score: number;
+  maxSpeed: number;
+  accel: number;
+  shootRange: number;                        // 0 = never shoots
+  fireCooldown: readonly [number, number];   // Seconds between shots (min, max)
+  accuracy: number;                          // 0-1, chance to take a shot and how tight it is
+  bulletSpeed: number;
+  firstWave: number;                         // First wave this type can appear in
+
+  // Hunters circle the player at a fixed distance
+  strafe?: {
+    distance: number;
+    switchTime: readonly [number, number];   // Seconds before changing direction (min, max)
+  };
+
+  // Snipers hold position, then telegraph a fast shot
+  charge?: {
+    time: number;                            // Telegraph duration in seconds
+    minRange: number;                        // Back off when closer than this
+    maxRange: number;                        // Close in when farther than this
+  };
+
+  // Kamikazes dive at the player and explode
+  blast?: {
+    fuseRange: number;                       // Detonates this close to a ship
+    explosion: ExplosionType;
+  };
+}
+
+// Per-type enemy tuning; speeds and ranges build on the vanilla ENEMY constants
+export const ENEMY_DEFINITIONS: Record<EnemyType, EnemyDefinition> = {
+  hunter: {
+    type: 'hunter',
+    name: 'Hunter',
+    color: 0xff4444,
+    shape: [
+      0, 2,   -1.5, -1,   1.5, -1,
+      0, 2,   0, -2,      -1.5, -1,
+      0, 2,   1.5, -1,    0, -2
+    ],
+    radius: 2.5,
+    health: 2,
+    score: ENEMY.score,
+    maxSpeed: 30,
+    accel: 24,
+    shootRange: 60,
+    fireCooldown: [1.5, 2.0],
+    accuracy: 0.8,
+    bulletSpeed: ENEMY.bulletSpeed,
+    firstWave: 3,
+    strafe: {
+      distance: ENEMY.preferredDist,
+      switchTime: [1.5, 3.0]
+    }
+  },
+
+  sniper: {
+    type: 'sniper',
+    name: 'Sniper',
+    color: 0xbb66ff,
+    shape: [
+      0, 3,     -0.6, -1.5,  0.6, -1.5,
+      -0.6, -1, -1.8, -2,    -0.6, -1.5,
+      0.6, -1,  0.6, -1.5,   1.8, -2
+    ],
+    radius: 2.2,
+    health: 2,
+    score: 250,
+    maxSpeed: 22,
+    accel: 16,
+    shootRange: 100,
+    fireCooldown: [2.5, 3.5],
+    accuracy: 0.95,
+    bulletSpeed: ENEMY.bulletSpeed * 2.2,
+    firstWave: 5,
+    charge: {
+      time: 1.0,
+      minRange: 45,
+      maxRange: 75
+    }
+  },
+
+  kamikaze: {
+    type: 'kamikaze',
+    name: 'Kamikaze',
+    color: 0xffaa22,
+    shape: [
+      0, 2,     -1.2, 0,   1.2, 0,
+      -1.2, 0,  0, -1.4,   1.2, 0
+    ],
+    radius: 2.0,
+    health: 1,
+    score: 100,
+    maxSpeed: 55,
+    accel: 60,
+    shootRange: 0,
+    fireCooldown: [0, 0],
+    accuracy: 0,
+    bulletSpeed: 0,
+    firstWave: 7,
+    blast: {
+      fuseRange: 4,
+      explosion: 'kamikaze'
+    }
+  }
+};
+
+/**
+ * Enemy types that can appear in a wave
+ * @param wave Wave number
+ */
+export const getEnemyTypesForWave = (wave: number): EnemyType[] => {
+  return Object.values(ENEMY_DEFINITIONS)
+    .filter(definition => wave >= definition.firstWave)
+    .map(definition => definition.type);
+};
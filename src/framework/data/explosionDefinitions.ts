@@ -0,0 +1,100 @@
+export type ExplosionType = 'shrapnel' | 'kamikaze' | 'volatile';
+
+export interface ExplosionDefinition {
+  type: ExplosionType;
+  radius: number;
+  damage: number;                            // At the centre, times the caller's damage scale
+  edgeDamage: number;                        // Share of the damage left at the edge of the radius
+  knockback: number;                         // Impulse at the centre, fading out toward the edge
+
+  // What the blast hurts (the boss is never on the collision grid)
+  hits: {
+    enemies: boolean;
+    asteroids: boolean;
+  };
+
+  // Ships caught in it lose hull points instead (omit to spare them)
+  ships?: {
+    damage: number;                          // At the centre, falling off like the rest
+    reason: string;                          // Death reason when it kills one
+  };
+
+  // Pieces of asteroids it splits that land inside the radius get hit
+  // again, this many times over
+  chainDepth: number;
+
+  // Secondary projectiles thrown out in a ring (player bullets)
+  shrapnel?: {
+    count: number;
+    damage: number;                          // Per fragment, times the caller's damage scale
+    speed: number;
+    lifetime: number;
+  };
+
+  // Effect presets
+  particle: string;
+  shake: string;
+  sound: string;
+}
+
+// Share of spawned asteroids with a volatile core (splits are never volatile)
+export const VOLATILE_ASTEROID_CHANCE = 0.05;
+
+export const EXPLOSION_DEFINITIONS: Record<ExplosionType, ExplosionDefinition> = {
+  // Shrapnel Rounds: a plain round's impact (radius 2, 1x its damage) at 3x
+  // the radius and +200% damage; scaled by the round's damage
+  shrapnel: {
+    type: 'shrapnel',
+    radius: 6,
+    damage: 3,
+    edgeDamage: 0.25,
+    knockback: 8,
+    hits: { enemies: true, asteroids: true },
+    chainDepth: 1,
+    shrapnel: {
+      count: 6,
+      damage: 0.5,
+      speed: 70,
+      lifetime: 0.25
+    },
+    particle: 'shrapnel_burst',
+    shake: 'shrapnel_burst',
+    sound: 'combat.shrapnel'
+  },
+
+  // Kamikaze enemies going off next to the player
+  kamikaze: {
+    type: 'kamikaze',
+    radius: 10,
+    damage: 6,
+    edgeDamage: 0.5,
+    knockback: 50,
+    hits: { enemies: false, asteroids: true },
+    ships: { damage: 45, reason: 'Caught in a kamikaze blast' },
+    chainDepth: 1,
+    particle: 'explosion_large',
+    shake: 'large_explosion',
+    sound: 'combat.explosion_large'
+  },
+
+  // Volatile asteroids, whatever destroys them
+  volatile: {
+    type: 'volatile',
+    radius: 14,
+    damage: 4,
+    edgeDamage: 0.3,
+    knockback: 35,
+    hits: { enemies: true, asteroids: true },
+    ships: { damage: 30, reason: 'Caught in an asteroid blast' },
+    chainDepth: 1,
+    shrapnel: {
+      count: 8,
+      damage: 1,
+      speed: 55,
+      lifetime: 0.4
+    },
+    particle: 'volatile_blast',
+    shake: 'volatile_blast',
+    sound: 'combat.volatile_blast'
+  }
+};
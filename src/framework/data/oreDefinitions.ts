@@ -0,0 +1,122 @@
+import type { AsteroidSize } from '../entities/Asteroid';
+import type { PickupType } from '../entities/Pickup';
+import type { RandomStream } from '../systems/RandomSystem';
+import { ORE_RATES, PICKUP_RATES, MATERIAL_COLORS } from '../constants/gameConstants';
+
+export type OreType = 'iron' | 'gold' | 'platinum' | 'adamantium';
+
+export interface OreDefinition {
+  type: OreType;
+  name: string;
+  tint: number | null;     // Asteroid tint; null keeps the plain rock colors
+  shimmer: boolean;        // Rare ores glint so they stand out
+  currency: PickupType | null;
+  dropChance: number;      // Chance per drop roll to release the ore's currency
+}
+
+export interface DropTableEntry {
+  type: PickupType;
+  rolls: number;           // Times to roll for this drop
+  chance: number;          // 0-1 chance per roll
+}
+
+// Per-ore tuning; drop chances come from the vanilla PICKUP_RATES thresholds
+export const ORE_DEFINITIONS: Record<OreType, OreDefinition> = {
+  iron: {
+    type: 'iron',
+    name: 'Iron',
+    tint: null,
+    shimmer: false,
+    currency: null,
+    dropChance: 0
+  },
+
+  gold: {
+    type: 'gold',
+    name: 'Gold',
+    tint: MATERIAL_COLORS.gold,
+    shimmer: false,
+    currency: 'gold',
+    dropChance: 1 - PICKUP_RATES.gold
+  },
+
+  platinum: {
+    type: 'platinum',
+    name: 'Platinum',
+    tint: MATERIAL_COLORS.platinum,
+    shimmer: true,
+    currency: 'platinum',
+    dropChance: 1 - PICKUP_RATES.platinum
+  },
+
+  adamantium: {
+    type: 'adamantium',
+    name: 'Adamantium',
+    tint: MATERIAL_COLORS.adamantium,
+    shimmer: true,
+    currency: 'adamantium',
+    dropChance: 1 - PICKUP_RATES.adamantium
+  }
+};
+
+// Salvage pickups and ore rolls per asteroid size (bigger rocks give more)
+const SIZE_YIELD: Record<AsteroidSize, { salvage: number; oreRolls: number }> = {
+  large: { salvage: 2, oreRolls: 2 },
+  medium: { salvage: 1, oreRolls: 1 },
+  small: { salvage: 1, oreRolls: 1 }
+};
+
+// Occasional power-up from any rock, so they keep turning up outside enemy kills
+const POWERUP_CHANCE = 0.08;
+const POWERUPS: readonly PickupType[] = ['health', 'health', 'shield', 'rapidfire', 'pierce', 'damage'];
+
+/**
+ * Roll an ore for a new asteroid (vanilla chooseOreType)
+ * @param rng Random stream to roll on
+ */
+export const chooseOreType = (rng: RandomStream): OreType => {
+  const roll = rng.next();
+  if (roll > ORE_RATES.adamantium) return 'adamantium';
+  if (roll > ORE_RATES.platinum) return 'platinum';
+  if (roll > ORE_RATES.gold) return 'gold';
+  return 'iron';
+};
+
+/**
+ * Drops for destroying an asteroid of a given ore and size
+ * @param ore Asteroid ore
+ * @param size Asteroid size
+ */
+export const getAsteroidDropTable = (ore: OreType, size: AsteroidSize): DropTableEntry[] => {
+  const { currency, dropChance } = ORE_DEFINITIONS[ore];
+  const { salvage, oreRolls } = SIZE_YIELD[size];
+
+  const table: DropTableEntry[] = [{ type: 'salvage', rolls: salvage, chance: 1 }];
+  if (currency) {
+    table.push({ type: currency, rolls: oreRolls, chance: dropChance });
+  }
+  return table;
+};
+
+/**
+ * Roll an asteroid's drops
+ * @param ore Asteroid ore
+ * @param size Asteroid size
+ * @param rng Random stream to roll on
+ * @returns Pickup types to spawn
+ */
+export const rollAsteroidDrops = (ore: OreType, size: AsteroidSize, rng: RandomStream): PickupType[] => {
+  const drops: PickupType[] = [];
+
+  for (const entry of getAsteroidDropTable(ore, size)) {
+    for (let i = 0; i < entry.rolls; i++) {
+      if (rng.chance(entry.chance)) drops.push(entry.type);
+    }
+  }
+
+  if (rng.chance(POWERUP_CHANCE)) {
+    drops.push(rng.pick(POWERUPS));
+  }
+
+  return drops;
+};
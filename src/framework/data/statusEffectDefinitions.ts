@@ -0,0 +1,103 @@
+export type StatusEffectType = 'rapidfire' | 'pierce' | 'damage' | 'slow' | 'burn';
+
+/**
+ * What re-applying an active effect does: 'refresh' restarts its timer,
+ * 'stack' also adds a stack (up to maxStacks)
+ */
+export type StatusStacking = 'refresh' | 'stack';
+
+/**
+ * Combined stat changes from every active effect on an entity
+ * fireRate, damage and speed are multipliers; pierce is extra pierce hits
+ */
+export interface StatModifiers {
+  fireRate: number;
+  damage: number;
+  speed: number;
+  pierce: number;
+}
+
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string;
+  color: number;
+  duration: number;              // Seconds, unless the source gives its own
+  stacking: StatusStacking;
+  maxStacks: number;
+  modifiers: Partial<StatModifiers>; // Per stack
+  damagePerSecond?: number;      // Per stack (enemies only)
+  inflicts?: StatusEffectType;   // Shots fired under this effect apply it to enemies they hit
+  harmful: boolean;
+}
+
+export const NO_MODIFIERS: Readonly<StatModifiers> = {
+  fireRate: 1,
+  damage: 1,
+  speed: 1,
+  pierce: 0
+};
+
+export const STATUS_EFFECT_DEFINITIONS: Record<StatusEffectType, StatusEffectDefinition> = {
+  rapidfire: {
+    type: 'rapidfire',
+    name: 'Rapid Fire',
+    icon: '🔥',
+    color: 0xffaa00,
+    duration: 5,
+    stacking: 'refresh',
+    maxStacks: 1,
+    modifiers: { fireRate: 2 },
+    harmful: false
+  },
+
+  pierce: {
+    type: 'pierce',
+    name: 'Piercing Rounds',
+    icon: '🗲',
+    color: 0xff00ff,
+    duration: 3,
+    stacking: 'refresh',
+    maxStacks: 1,
+    modifiers: { pierce: 2 },
+    harmful: false
+  },
+
+  damage: {
+    type: 'damage',
+    name: 'Overcharge',
+    icon: '💥',
+    color: 0xff4400,
+    duration: 5,
+    stacking: 'stack',
+    maxStacks: 3,
+    modifiers: { damage: 1.5 },
+    inflicts: 'burn',
+    harmful: false
+  },
+
+  slow: {
+    type: 'slow',
+    name: 'Slowed',
+    icon: '❄',
+    color: 0x66ccff,
+    duration: 2.5,
+    stacking: 'refresh',
+    maxStacks: 1,
+    modifiers: { speed: 0.5, fireRate: 0.6 },
+    harmful: true
+  },
+
+  burn: {
+    type: 'burn',
+    name: 'Burning',
+    icon: '♨',
+    color: 0xff6622,
+    duration: 3,
+    stacking: 'stack',
+    maxStacks: 3,
+    modifiers: {},
+    damagePerSecond: 0.5,
+    harmful: true
+  }
+};
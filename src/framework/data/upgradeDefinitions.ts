@@ -1,4 +1,5 @@
 import { UpgradeDefinition } from '../components/cards/UpgradeCard';
+import { RandomStream } from '../systems/RandomSystem';
 
 // Upgrade definitions matching the vanilla implementation exactly
 export const UPGRADE_DEFINITIONS: Record<string, UpgradeDefinition> = {
@@ -161,6 +162,31 @@ export const UPGRADE_DEFINITIONS: Record<string, UpgradeDefinition> = {
     tags: ['Defense', 'Health', 'Regen']
   },
 
+  shieldCharge: {
+    id: 'shieldCharge',
+    name: 'Shield Charge',
+    description: 'A one-hit energy shield that absorbs a collision before the hull takes damage.',
+    icon: '🔵',
+    rarity: 'common',
+    effects: [
+      { label: 'Shields', value: '+1', isPositive: true }
+    ],
+    tags: ['Defense', 'Shield']
+  },
+
+  // Companion Upgrades
+  drone: {
+    id: 'drone',
+    name: 'Drone Buddy',
+    description: 'An autonomous drone orbits your ship and fires at the nearest threat.',
+    icon: '🛸',
+    rarity: 'uncommon',
+    effects: [
+      { label: 'Drones', value: '+1', isPositive: true }
+    ],
+    tags: ['Companion', 'DPS']
+  },
+
   // Magnetic/Attraction Upgrades
   magnet: {
     id: 'magnet',
@@ -242,14 +268,14 @@ export const getUpgradesByRarity = (rarity: keyof typeof RARITY_WEIGHTS): Upgrad
   return Object.values(UPGRADE_DEFINITIONS).filter(upgrade => upgrade.rarity === rarity);
 };
 
-export const getRandomUpgrade = (): UpgradeDefinition => {
+export const getRandomUpgrade = (rng: RandomStream = RandomStream.fallback()): UpgradeDefinition => {
   const allUpgrades = Object.values(UPGRADE_DEFINITIONS);
-  return allUpgrades[Math.floor(Math.random() * allUpgrades.length)];
+  return rng.pick(allUpgrades);
 };
 
-export const getRandomUpgradeByRarity = (): UpgradeDefinition => {
+export const getRandomUpgradeByRarity = (rng: RandomStream = RandomStream.fallback()): UpgradeDefinition => {
   // Generate random number from 0-99
-  const roll = Math.floor(Math.random() * 100);
+  const roll = rng.int(100);
   let threshold = 0;
   
   for (const [rarity, weight] of Object.entries(RARITY_WEIGHTS)) {
@@ -257,16 +283,16 @@ export const getRandomUpgradeByRarity = (): UpgradeDefinition => {
     if (roll < threshold) {
       const upgradesOfRarity = getUpgradesByRarity(rarity as keyof typeof RARITY_WEIGHTS);
       if (upgradesOfRarity.length > 0) {
-        return upgradesOfRarity[Math.floor(Math.random() * upgradesOfRarity.length)];
+        return rng.pick(upgradesOfRarity);
       }
     }
   }
   
   // Fallback to common rarity
-  return getRandomUpgrade();
+  return getRandomUpgrade(rng);
 };
 
-export const generateShopUpgrades = (count: number = 6): UpgradeDefinition[] => {
+export const generateShopUpgrades = (count: number = 6, rng: RandomStream = RandomStream.fallback()): UpgradeDefinition[] => {
   const upgrades: UpgradeDefinition[] = [];
   const usedIds = new Set<string>();
   
@@ -276,7 +302,7 @@ export const generateShopUpgrades = (count: number = 6): UpgradeDefinition[] =>
     
     // Try to generate unique upgrades
     do {
-      upgrade = getRandomUpgradeByRarity();
+      upgrade = getRandomUpgradeByRarity(rng);
       attempts++;
     } while (usedIds.has(upgrade.id) && attempts < 20);
     
@@ -0,0 +1,187 @@
+import type { UpgradeDefinition } from '../components/cards/UpgradeCard';
+import { PLAYER } from '../constants/gameConstants';
+
+export type WeaponType = 'blaster' | 'laser' | 'missile' | 'mine' | 'charge';
+
+export interface WeaponDefinition {
+  type: WeaponType;
+  upgradeId: string;                         // Hangar card that unlocks it
+  name: string;
+  description: string;
+  icon: string;
+  color: number;
+  rarity: UpgradeDefinition['rarity'];
+  fireInterval: number;                      // Seconds between shots, before fire rate mods
+  damage: number;                            // Per hit (per second for beams)
+  spread: boolean;                           // Multishot mods add barrels
+  pierce: boolean;                           // Pierce and ricochet mods apply
+
+  // Continuous beam, raycast against the collision grid while the trigger is held
+  laser?: {
+    range: number;
+    width: number;
+    pulseInterval: number;                   // Damage lands in pulses this far apart
+  };
+
+  // Homing missiles that steer toward the nearest target ahead
+  missile?: {
+    speed: number;
+    turnRate: number;                        // rad/sec
+    lifetime: number;
+    seekRange: number;
+    seekAngle: number;                       // Only targets within this angle of the nose
+  };
+
+  // Proximity mines dropped behind the ship
+  mine?: {
+    dropDistance: number;
+    armTime: number;
+    triggerRadius: number;
+    blastRadius: number;
+    lifetime: number;
+    maxActive: number;                       // Oldest mine goes off when another is dropped
+  };
+
+  // Charge cannon: hold to charge, release to fire
+  charge?: {
+    minTime: number;                         // Shorter taps fire nothing
+    maxTime: number;                         // Full charge
+    maxDamage: number;
+    speed: number;
+    minRadius: number;
+    maxRadius: number;
+    lifetime: number;
+  };
+}
+
+// The weapon slot's archetypes (the blaster is the stock gun every ship starts with)
+export const WEAPON_DEFINITIONS: Record<WeaponType, WeaponDefinition> = {
+  blaster: {
+    type: 'blaster',
+    upgradeId: 'weaponBlaster',
+    name: 'Blaster',
+    description: 'Stock rapid-fire cannon. Takes every spread, pierce and ricochet upgrade.',
+    icon: '•',
+    color: 0xffcc88,
+    rarity: 'common',
+    fireInterval: PLAYER.fireRate,
+    damage: 1,
+    spread: true,
+    pierce: true
+  },
+
+  laser: {
+    type: 'laser',
+    upgradeId: 'weaponLaser',
+    name: 'Lance Laser',
+    description: 'Continuous beam that burns the first thing in its path while the trigger is held.',
+    icon: '⌁',
+    color: 0x66ffee,
+    rarity: 'rare',
+    fireInterval: 0,
+    damage: 5,
+    spread: false,
+    pierce: false,
+    laser: {
+      range: 55,
+      width: 0.5,
+      pulseInterval: 0.1
+    }
+  },
+
+  missile: {
+    type: 'missile',
+    upgradeId: 'weaponMissile',
+    name: 'Seeker Missiles',
+    description: 'Homing missiles that lock onto the nearest target ahead of the ship.',
+    icon: '➶',
+    color: 0xff8844,
+    rarity: 'rare',
+    fireInterval: 0.55,
+    damage: 2.5,
+    spread: true,
+    pierce: false,
+    missile: {
+      speed: 38,
+      turnRate: 4,
+      lifetime: 2.5,
+      seekRange: 70,
+      seekAngle: 1.2
+    }
+  },
+
+  mine: {
+    type: 'mine',
+    upgradeId: 'weaponMine',
+    name: 'Proximity Mines',
+    description: 'Mines dropped behind the ship that blow when anything drifts too close.',
+    icon: '✹',
+    color: 0xffdd33,
+    rarity: 'uncommon',
+    fireInterval: 0.9,
+    damage: 5,
+    spread: false,
+    pierce: false,
+    mine: {
+      dropDistance: 2.5,
+      armTime: 0.6,
+      triggerRadius: 6,
+      blastRadius: 10,
+      lifetime: 20,
+      maxActive: 6
+    }
+  },
+
+  charge: {
+    type: 'charge',
+    upgradeId: 'weaponCharge',
+    name: 'Charge Cannon',
+    description: 'Hold to charge, release to fire a piercing orb. Damage grows with hold time.',
+    icon: '◉',
+    color: 0xaa88ff,
+    rarity: 'epic',
+    fireInterval: 0.25,
+    damage: 1.5,
+    spread: false,
+    pierce: false,
+    charge: {
+      minTime: 0.15,
+      maxTime: 1.5,
+      maxDamage: 10,
+      speed: 55,
+      minRadius: 0.5,
+      maxRadius: 2,
+      lifetime: 1.6
+    }
+  }
+};
+
+/**
+ * Weapon unlocked by a hangar card, if the card is a weapon
+ * @param upgradeId Upgrade card id
+ */
+export const getWeaponForUpgrade = (upgradeId: string): WeaponType | undefined => {
+  return Object.values(WEAPON_DEFINITIONS).find(definition => definition.upgradeId === upgradeId)?.type;
+};
+
+/**
+ * Hangar card for a weapon
+ * @param type Weapon to sell
+ */
+export const getWeaponUpgrade = (type: WeaponType): UpgradeDefinition => {
+  const definition = WEAPON_DEFINITIONS[type];
+  const dps = definition.laser ? `${definition.damage}/s` : definition.damage;
+
+  return {
+    id: definition.upgradeId,
+    name: definition.name,
+    description: definition.description,
+    icon: definition.icon,
+    rarity: definition.rarity,
+    effects: [
+      { label: 'Damage', value: dps, isPositive: true },
+      { label: 'Slot', value: 'Weapon', isPositive: true }
+    ],
+    tags: ['Weapon', 'Slot']
+  };
+};
@@ -1,9 +1,31 @@
 import * as THREE from 'three';
-import { BaseEntity } from './BaseEntity';
-import { ASTEROIDS } from '../constants/gameConstants';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { ASTEROIDS, ASTEROID_HEALTH, RIGID_BODY, POOL_SIZES } from '../constants/gameConstants';
+import { RandomStream } from '../systems/RandomSystem';
+import { EntityRegistry } from '../systems/EntityRegistry';
+import { ORE_DEFINITIONS, OreType, chooseOreType } from '../data/oreDefinitions';
+import { VOLATILE_ASTEROID_CHANCE } from '../data/explosionDefinitions';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    asteroids: Asteroid[];
+  }
+  interface EntityVariants {
+    asteroids: AsteroidSize;
+  }
+}
 
 export type AsteroidSize = 'large' | 'medium' | 'small';
 
+export interface AsteroidSnapshot extends EntitySnapshot {
+  sizeKey: AsteroidSize;
+  rotationSpeed: number;
+  ore?: OreType;
+  health?: number;
+  healthScale?: number;
+  volatile?: boolean;
+}
+
 /**
  * Asteroid entity with procedural geometry and splitting mechanics
  * Matches vanilla implementation exactly
@@ -14,40 +36,159 @@ export class Asteroid extends BaseEntity {
   public readonly splitSize: AsteroidSize | null;
   public readonly splitCount: number;
   
+  public ore: OreType = 'iron';
+  public volatile: boolean = false; // Explodes when destroyed (CollisionSystem)
+  public health: number;
+  private maxHealth: number;
+  private healthScale: number = 1;
+  
   private rotationSpeed: number = 0;
+  private vfx: RandomStream; // Spin rolls
   private asteroidMesh?: THREE.Mesh;
   
+  // Damage feedback: white flash overlay and crack decals
+  private flashMesh?: THREE.Mesh;
+  private cracks: THREE.LineSegments[] = [];
+  private hitFlash: number = 0;
+  
+  // Glowing core marking a volatile asteroid
+  private coreMesh?: THREE.Mesh;
+  
+  // Own material for rare ores, so each rock glints on its own
+  private shimmerMaterial?: THREE.MeshBasicMaterial;
+  private oreColor = new THREE.Color();
+  
   // Static materials for performance
   private static materials: THREE.MeshBasicMaterial[] = [];
+  private static oreMaterials: Map<OreType, THREE.MeshBasicMaterial> = new Map();
+  private static readonly GLINT_COLOR = new THREE.Color(0xffffff);
+  private static flashMaterial?: THREE.MeshBasicMaterial;
+  private static crackMaterial?: THREE.LineBasicMaterial;
+  private static coreMaterial?: THREE.MeshBasicMaterial;
+  private static coreGeometry?: THREE.CircleGeometry;
 
-  constructor(sizeKey: AsteroidSize, x = 0, y = 0, vx = 0, vy = 0) {
+  constructor(sizeKey: AsteroidSize, x = 0, y = 0, vx = 0, vy = 0, vfx: RandomStream = RandomStream.fallback()) {
     const def = ASTEROIDS[sizeKey];
     super(x, y, vx, vy, def.r);
     
+    this.vfx = vfx;
     this.sizeKey = sizeKey;
     this.scoreValue = def.score;
     this.splitSize = def.next as AsteroidSize | null;
     this.splitCount = def.count;
+    this.maxHealth = ASTEROID_HEALTH[sizeKey];
+    this.health = this.maxHealth;
     
     // Random rotation speed
-    this.rotationSpeed = (Math.random() - 0.5) * 2; // -1 to 1 rad/sec
-    
-    this.mesh = this.createMesh();
+    this.rotationSpeed = vfx.range(-1, 1); // rad/sec
   }
 
   protected createMesh(): THREE.Object3D {
     // Create procedural asteroid geometry
     const geometry = this.createAsteroidGeometry();
     
-    // Get or create material
-    const material = this.getAsteroidMaterial();
+    // Plain rock or ore-tinted material
+    const material = this.getOreMaterial();
     
     // Create mesh
     this.asteroidMesh = new THREE.Mesh(geometry, material);
+    this.createDamageFeedback(geometry);
+    this.createCore();
     
     return this.asteroidMesh;
   }
 
+  /**
+   * Add the hit flash overlay and the (hidden) crack decals to the mesh
+   * @param geometry Asteroid outline the flash overlays
+   */
+  private createDamageFeedback(geometry: THREE.BufferGeometry): void {
+    if (!this.asteroidMesh) return;
+    
+    if (!Asteroid.flashMaterial) {
+      Asteroid.flashMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffffff,
+        transparent: true,
+        opacity: 0.7,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      });
+      Asteroid.crackMaterial = new THREE.LineBasicMaterial({
+        color: 0x1a1410,
+        transparent: true,
+        opacity: 0.85
+      });
+    }
+    
+    this.flashMesh = new THREE.Mesh(geometry, Asteroid.flashMaterial);
+    this.flashMesh.position.z = 0.02;
+    this.asteroidMesh.add(this.flashMesh);
+    
+    // Each stage is a jagged crack running out from near the middle
+    const radius = ASTEROIDS[this.sizeKey].r;
+    this.cracks = Array.from({ length: ASTEROID_HEALTH.crackStages }, (_, stage) => {
+      const points: number[] = [];
+      let angle = (stage / ASTEROID_HEALTH.crackStages) * Math.PI * 2 + Math.random() * 0.8;
+      let x = (Math.random() - 0.5) * radius * 0.3;
+      let y = (Math.random() - 0.5) * radius * 0.3;
+      
+      for (let segment = 0; segment < 4; segment++) {
+        angle += (Math.random() - 0.5) * 1.2;
+        const length = radius * (0.12 + Math.random() * 0.1);
+        const nx = x + Math.cos(angle) * length;
+        const ny = y + Math.sin(angle) * length;
+        points.push(x, y, 0.01, nx, ny, 0.01);
+        x = nx;
+        y = ny;
+      }
+      
+      const crackGeometry = new THREE.BufferGeometry();
+      crackGeometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+      const crack = new THREE.LineSegments(crackGeometry, Asteroid.crackMaterial);
+      this.asteroidMesh!.add(crack);
+      return crack;
+    });
+    
+    this.updateDamageFeedback();
+  }
+
+  /**
+   * Add the volatile core (shown only while the asteroid is volatile)
+   */
+  private createCore(): void {
+    if (!this.asteroidMesh) return;
+    
+    if (!Asteroid.coreMaterial) {
+      Asteroid.coreMaterial = new THREE.MeshBasicMaterial({
+        color: 0xff6a1a,
+        transparent: true,
+        opacity: 0.8,
+        blending: THREE.AdditiveBlending
+      });
+      Asteroid.coreGeometry = new THREE.CircleGeometry(1, 16);
+    }
+    
+    this.coreMesh = new THREE.Mesh(Asteroid.coreGeometry, Asteroid.coreMaterial);
+    this.coreMesh.position.z = 0.03;
+    this.coreMesh.visible = this.volatile;
+    this.asteroidMesh.add(this.coreMesh);
+  }
+
+  /**
+   * Show the flash while it lasts and one more crack per lost stage of hit points
+   */
+  private updateDamageFeedback(): void {
+    if (this.flashMesh) {
+      this.flashMesh.visible = this.hitFlash > 0;
+    }
+    
+    const lost = 1 - this.health / this.maxHealth;
+    const stages = this.health > 0 ? Math.ceil(lost * ASTEROID_HEALTH.crackStages - 1e-6) : 0;
+    this.cracks.forEach((crack, stage) => {
+      crack.visible = stage < stages;
+    });
+  }
+
   private createAsteroidGeometry(): THREE.BufferGeometry {
     const def = ASTEROIDS[this.sizeKey];
     const baseRadius = def.r;
@@ -119,6 +260,66 @@ export class Asteroid extends BaseEntity {
     return Asteroid.materials[index];
   }
 
+  /**
+   * Material for this asteroid's ore: plain rock variants for iron, a
+   * tinted shared material for common ores, an own material for rare ones
+   */
+  private getOreMaterial(): THREE.MeshBasicMaterial {
+    const definition = ORE_DEFINITIONS[this.ore];
+    if (definition.tint === null) {
+      return this.getAsteroidMaterial();
+    }
+    
+    // Rock grey pulled most of the way towards the ore color
+    this.oreColor.setHex(0x8899aa).lerp(new THREE.Color(definition.tint), 0.65);
+    
+    if (definition.shimmer) {
+      if (!this.shimmerMaterial) {
+        this.shimmerMaterial = new THREE.MeshBasicMaterial({
+          transparent: true,
+          opacity: 0.95,
+          side: THREE.DoubleSide
+        });
+      }
+      this.shimmerMaterial.color.copy(this.oreColor);
+      return this.shimmerMaterial;
+    }
+    
+    let material = Asteroid.oreMaterials.get(this.ore);
+    if (!material) {
+      material = new THREE.MeshBasicMaterial({
+        color: this.oreColor.clone(),
+        transparent: true,
+        opacity: 0.9,
+        side: THREE.DoubleSide
+      });
+      Asteroid.oreMaterials.set(this.ore, material);
+    }
+    return material;
+  }
+  
+  /**
+   * Set the asteroid's ore (tints the rock and picks its drops)
+   * @param ore Ore type
+   */
+  public setOre(ore: OreType): void {
+    this.ore = ore;
+    if (this.asteroidMesh) {
+      this.asteroidMesh.material = this.getOreMaterial();
+    }
+  }
+
+  /**
+   * Give the asteroid a volatile core (it explodes when destroyed)
+   * @param volatile False for a plain rock
+   */
+  public setVolatile(volatile: boolean): void {
+    this.volatile = volatile;
+    if (this.coreMesh) {
+      this.coreMesh.visible = volatile;
+    }
+  }
+
   protected onUpdate(dt: number): void {
     // Rotate asteroid continuously
     this.rotation += this.rotationSpeed * dt;
@@ -127,13 +328,81 @@ export class Asteroid extends BaseEntity {
     if (this.asteroidMesh) {
       this.asteroidMesh.rotation.z = this.rotation;
     }
+    
+    if (this.hitFlash > 0) {
+      this.hitFlash = Math.max(0, this.hitFlash - dt);
+    }
+    if (this.asteroidMesh) {
+      this.updateDamageFeedback();
+    }
+    
+    // Rare ores flash with brief sharp glints
+    if (this.shimmerMaterial && this.asteroidMesh?.material === this.shimmerMaterial) {
+      const glint = Math.pow(Math.max(0, Math.sin(this.age * 3 + this.rotationSpeed * 7)), 12);
+      this.shimmerMaterial.color.copy(this.oreColor).lerp(Asteroid.GLINT_COLOR, glint * 0.8);
+    }
+    
+    // Volatile cores throb, faster as the rock cracks up
+    if (this.coreMesh?.visible) {
+      const rate = 4 + (1 - this.health / this.maxHealth) * 8;
+      this.coreMesh.scale.setScalar(this.radius * (0.3 + Math.sin(this.age * rate) * 0.06));
+    }
+  }
+
+  /**
+   * Apply bullet damage
+   * @param damage Damage amount
+   * @returns True if the asteroid has run out of hit points
+   */
+  public takeDamage(damage: number): boolean {
+    this.health -= damage;
+    this.hitFlash = ASTEROID_HEALTH.flashTime;
+    
+    if (this.health <= 0) {
+      this.health = 0;
+      return true;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Scale hit points (restores full health)
+   * @param scale Multiplier on the size's base hit points
+   */
+  public setHealthScale(scale: number): void {
+    this.healthScale = scale;
+    this.maxHealth = ASTEROID_HEALTH[this.sizeKey] * scale;
+    this.health = this.maxHealth;
+  }
+  
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  /**
+   * Add spin from a glancing impact (clamped to RIGID_BODY.maxSpin)
+   * @param amount Change in rotation speed (rad/sec, positive is counter-clockwise)
+   */
+  public addSpin(amount: number): void {
+    this.rotationSpeed = THREE.MathUtils.clamp(this.rotationSpeed + amount, -RIGID_BODY.maxSpin, RIGID_BODY.maxSpin);
+  }
+
+  /**
+   * Hit point multiplier for asteroids spawned in a wave
+   * @param wave Wave number
+   */
+  public static healthScaleForWave(wave: number): number {
+    return 1 + Math.max(0, wave - 1) * ASTEROID_HEALTH.perWave;
   }
 
   /**
    * Split this asteroid into smaller pieces
+   * @param rng Random stream driving piece directions and offsets
+   * @param extraPieces Pieces on top of the size's split count (shattering hits)
    * @returns Array of new smaller asteroids, or empty array if can't split
    */
-  public split(): Asteroid[] {
+  public split(rng: RandomStream = RandomStream.fallback(), extraPieces: number = 0): Asteroid[] {
     if (!this.splitSize || this.splitCount === 0) {
       return []; // Can't split (smallest size)
     }
@@ -141,27 +410,30 @@ export class Asteroid extends BaseEntity {
     const pieces: Asteroid[] = [];
     const baseSpeed = ASTEROIDS.baseSpeed * 1.2; // Slightly faster than spawned asteroids
     
-    for (let i = 0; i < this.splitCount; i++) {
+    for (let i = 0; i < this.splitCount + extraPieces; i++) {
       // Random angle for each piece
-      const angle = Math.random() * Math.PI * 2;
+      const angle = rng.angle();
       
       // Random speed variation
-      const speed = baseSpeed * (0.8 + Math.random() * 0.4); // 0.8 to 1.2x
+      const speed = baseSpeed * rng.range(0.8, 1.2);
       
       const vx = Math.cos(angle) * speed;
       const vy = Math.sin(angle) * speed;
       
       // Create new asteroid at this position with some offset
-      const offsetX = (Math.random() - 0.5) * 2;
-      const offsetY = (Math.random() - 0.5) * 2;
+      const offsetX = rng.range(-1, 1);
+      const offsetY = rng.range(-1, 1);
       
       const piece = new Asteroid(
         this.splitSize,
         this.position.x + offsetX,
         this.position.y + offsetY,
         vx,
-        vy
+        vy,
+        this.vfx
       );
+      piece.setOre(this.ore); // Pieces come from the same vein
+      piece.setHealthScale(this.healthScale);
       
       pieces.push(piece);
     }
@@ -183,22 +455,48 @@ export class Asteroid extends BaseEntity {
     return ASTEROIDS[this.sizeKey];
   }
 
+  public serialize(): AsteroidSnapshot {
+    return {
+      ...super.serialize(),
+      sizeKey: this.sizeKey,
+      rotationSpeed: this.rotationSpeed,
+      ore: this.ore,
+      health: this.health,
+      healthScale: this.healthScale,
+      volatile: this.volatile
+    };
+  }
+
+  public restore(snapshot: AsteroidSnapshot): void {
+    super.restore(snapshot);
+    this.rotationSpeed = snapshot.rotationSpeed;
+    this.setOre(snapshot.ore ?? 'iron');
+    this.setHealthScale(snapshot.healthScale ?? 1);
+    this.health = snapshot.health ?? this.maxHealth;
+    this.setVolatile(snapshot.volatile ?? false);
+  }
+
   protected onSpawn(): void {
     // Reset rotation when spawned
-    this.rotation = Math.random() * Math.PI * 2;
+    this.rotation = this.vfx.angle();
   }
 
   protected onDespawn(): void {
     // Clean up geometry to prevent memory leaks
     if (this.asteroidMesh) {
       this.asteroidMesh.geometry.dispose();
+      this.cracks.forEach(crack => crack.geometry.dispose());
     }
   }
 
   protected onReset(): void {
     // Generate new random rotation speed and starting rotation
-    this.rotationSpeed = (Math.random() - 0.5) * 2;
-    this.rotation = Math.random() * Math.PI * 2;
+    this.rotationSpeed = this.vfx.range(-1, 1);
+    this.rotation = this.vfx.angle();
+    this.setOre('iron');
+    this.setVolatile(false);
+    this.setHealthScale(1);
+    this.hitFlash = 0;
   }
 
   /**
@@ -207,19 +505,38 @@ export class Asteroid extends BaseEntity {
    * @param x Starting X position
    * @param y Starting Y position
    * @param wave Current wave number for speed scaling
+   * @param rng Random stream driving direction and speed
+   * @param vfx Random stream driving spin
    * @returns New Asteroid instance
    */
-  static createRandom(sizeKey: AsteroidSize, x: number, y: number, wave: number = 1): Asteroid {
+  static createRandom(sizeKey: AsteroidSize, x: number, y: number, wave: number = 1, rng: RandomStream = RandomStream.fallback(), vfx: RandomStream = RandomStream.fallback()): Asteroid {
     // Random angle for movement
-    const angle = Math.random() * Math.PI * 2;
+    const angle = rng.angle();
     
     // Speed increases with wave
     const baseSpeed = ASTEROIDS.baseSpeed;
-    const speed = baseSpeed * (0.6 + Math.random() * 0.6) + wave * 0.3; // Random speed with wave scaling
+    const speed = baseSpeed * rng.range(0.6, 1.2) + wave * 0.3; // Random speed with wave scaling
     
     const vx = Math.cos(angle) * speed;
     const vy = Math.sin(angle) * speed;
     
-    return new Asteroid(sizeKey, x, y, vx, vy);
+    return new Asteroid(sizeKey, x, y, vx, vy, vfx);
   }
-}
\ No newline at end of file
+}
+
+EntityRegistry.register({
+  key: 'asteroids',
+  poolSize: POOL_SIZES.asteroids,
+  updateOrder: 10,
+  timeGroup: 'asteroids',
+  // Pool a mix of sizes
+  create: (manager, index, size) =>
+    new Asteroid(size ?? (index % 3 === 0 ? 'large' : index % 3 === 1 ? 'medium' : 'small'), 0, 0, 0, 0, manager.getRandom().stream('vfx')),
+  variantOf: asteroid => asteroid.sizeKey,
+  // Every new asteroid rolls its ore and volatile core on the run's streams
+  setup: (manager, asteroid) => {
+    asteroid.setOre(chooseOreType(manager.getRandom().stream('ores')));
+    asteroid.setVolatile(manager.getRandom().stream('volatile').chance(VOLATILE_ASTEROID_CHANCE));
+  },
+  spawnFromSnapshot: (manager, s) => manager.spawn('asteroids', s.x, s.y, s.sizeKey)
+});
@@ -1,6 +1,18 @@
 import * as THREE from 'three';
 import { WORLD } from '../constants/gameConstants';
 
+/**
+ * Serializable simulation state shared by every entity
+ */
+export interface EntitySnapshot {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  rotation: number;
+  age: number;
+}
+
 /**
  * Abstract base class for all game entities
  * Provides common physics, positioning, and lifecycle management
@@ -14,7 +26,11 @@ export abstract class BaseEntity {
   public age: number;
   public active: boolean;
 
-  // Three.js mesh reference
+  // State at the start of the last tick, used for render interpolation
+  public previousPosition: THREE.Vector3;
+  public previousRotation: number;
+
+  // Three.js mesh reference (created lazily by the view layer; absent when headless)
   public mesh?: THREE.Object3D;
 
   // Static throttling for wrap logs (once per entity type per 2 seconds)
@@ -33,6 +49,8 @@ export abstract class BaseEntity {
     this.radius = radius;
     this.age = 0;
     this.active = true;
+    this.previousPosition = this.position.clone();
+    this.previousRotation = 0;
   }
 
   /**
@@ -42,6 +60,10 @@ export abstract class BaseEntity {
   public update(dt: number): void {
     if (!this.active) return;
 
+    // Remember where this tick started for interpolation
+    this.previousPosition.copy(this.position);
+    this.previousRotation = this.rotation;
+
     // Update age
     this.age += dt;
 
@@ -52,12 +74,6 @@ export abstract class BaseEntity {
     // World wrapping - seamless boundaries
     this.wrapPosition();
 
-    // Update mesh position if it exists
-    if (this.mesh) {
-      this.mesh.position.copy(this.position);
-      this.mesh.rotation.z = this.rotation;
-    }
-
     // Call entity-specific update logic
     this.onUpdate(dt);
   }
@@ -89,8 +105,11 @@ export abstract class BaseEntity {
       wrapped = true;
     }
 
-    // Throttled logging (once per entity type per 2 seconds)
     if (wrapped) {
+      // Don't interpolate across the whole world
+      this.previousPosition.copy(this.position);
+
+      // Throttled logging (once per entity type per 2 seconds)
       const entityType = this.constructor.name;
       const now = performance.now();
       const lastLog = BaseEntity.wrapLogThrottle.get(entityType) || 0;
@@ -102,6 +121,42 @@ export abstract class BaseEntity {
     }
   }
 
+  /**
+   * Move the mesh to the rendered state, blending the last two ticks
+   * @param alpha Interpolation factor between previous (0) and current (1) tick
+   */
+  public syncMesh(alpha = 1): void {
+    if (!this.mesh) return;
+
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+
+    // Shortest-path angle blend
+    let rotationDiff = this.rotation - this.previousRotation;
+    while (rotationDiff > Math.PI) rotationDiff -= Math.PI * 2;
+    while (rotationDiff < -Math.PI) rotationDiff += Math.PI * 2;
+    this.mesh.rotation.z = this.previousRotation + rotationDiff * alpha;
+  }
+
+  /**
+   * Get the entity's mesh, creating it on first use
+   * Only the view layer should call this so simulation code stays render-free
+   */
+  public ensureMesh(): THREE.Object3D {
+    if (!this.mesh) {
+      this.mesh = this.createMesh();
+      this.syncMesh();
+    }
+    return this.mesh;
+  }
+
+  /**
+   * Snap the interpolation state to the current state (after teleports)
+   */
+  public resetInterpolation(): void {
+    this.previousPosition.copy(this.position);
+    this.previousRotation = this.rotation;
+  }
+
   /**
    * Check collision with another entity using circle-circle detection
    * @param other Other entity to check collision with
@@ -152,29 +207,50 @@ export abstract class BaseEntity {
   }
 
   /**
-   * Spawn the entity (create and add mesh to scene)
-   * @param scene Three.js scene to add to
+   * Spawn the entity (activate it; the view layer picks up its mesh)
    */
-  public spawn(scene: THREE.Scene): void {
-    if (this.mesh) {
-      scene.add(this.mesh);
-    }
+  public spawn(): void {
     this.active = true;
     this.onSpawn();
+    this.resetInterpolation();
+    this.syncMesh();
   }
 
   /**
-   * Despawn the entity (remove mesh from scene and deactivate)
-   * @param scene Three.js scene to remove from
+   * Despawn the entity (deactivate; the view layer removes its mesh)
    */
-  public despawn(scene: THREE.Scene): void {
-    if (this.mesh) {
-      scene.remove(this.mesh);
-    }
+  public despawn(): void {
     this.active = false;
     this.onDespawn();
   }
 
+  /**
+   * Capture the entity's simulation state (no mesh or object references)
+   * Derived classes extend the snapshot with their own fields
+   */
+  public serialize(): EntitySnapshot {
+    return {
+      x: this.position.x,
+      y: this.position.y,
+      vx: this.velocity.x,
+      vy: this.velocity.y,
+      rotation: this.rotation,
+      age: this.age
+    };
+  }
+
+  /**
+   * Apply a snapshot taken with serialize() to a spawned entity
+   * @param snapshot Saved entity state
+   */
+  public restore(snapshot: EntitySnapshot): void {
+    this.position.set(snapshot.x, snapshot.y, 0);
+    this.velocity.set(snapshot.vx, snapshot.vy, 0);
+    this.rotation = snapshot.rotation;
+    this.age = snapshot.age;
+    this.resetInterpolation();
+  }
+
   /**
    * Reset entity to initial state for object pooling
    * @param x New X position
@@ -189,6 +265,7 @@ export abstract class BaseEntity {
     this.age = 0;
     this.active = true;
     this.onReset();
+    this.resetInterpolation();
   }
 
   /**
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import type { EnemyType } from './Enemy';
+import { BEACON, POOL_SIZES } from '../constants/gameConstants';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    beacons: Beacon[];
+  }
+}
+
+export interface BeaconSnapshot extends EntitySnapshot {
+  enemyType: EnemyType;
+  speedMultiplier: number;
+  timeLeft: number;
+  warningTime: number;
+}
+
+/**
+ * Pulsing warning marker where an enemy is about to arrive (vanilla spawnBeacon)
+ * The ring tightens and pulses faster as the countdown runs out. WaveSystem
+ * swaps ready beacons for their enemy.
+ */
+export class Beacon extends BaseEntity {
+  public enemyType: EnemyType = 'hunter';
+  private speedMultiplier: number = 1;
+  private timeLeft: number = BEACON.warningTime;
+  private warningTime: number = BEACON.warningTime;
+
+  // Visual components
+  private ring?: THREE.Mesh;
+  private core?: THREE.Mesh;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, BEACON.radius);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    const group = new THREE.Group();
+
+    // Own materials: opacity animates per beacon
+    this.ring = new THREE.Mesh(
+      new THREE.RingGeometry(BEACON.radius * 0.8, BEACON.radius, 32),
+      new THREE.MeshBasicMaterial({
+        color: BEACON.color,
+        transparent: true,
+        opacity: 0.8,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      })
+    );
+    group.add(this.ring);
+
+    this.core = new THREE.Mesh(
+      new THREE.CircleGeometry(BEACON.radius * 0.25, 16),
+      new THREE.MeshBasicMaterial({
+        color: BEACON.color,
+        transparent: true,
+        opacity: 0.6,
+        blending: THREE.AdditiveBlending
+      })
+    );
+    group.add(this.core);
+
+    return group;
+  }
+
+  protected onUpdate(dt: number): void {
+    this.timeLeft = Math.max(0, this.timeLeft - dt);
+    this.updateVisualEffects();
+  }
+
+  private updateVisualEffects(): void {
+    if (!this.ring || !this.core) return;
+
+    // Ring closes in on the spawn point, pulsing faster near the end
+    const progress = this.getProgress();
+    const pulse = Math.sin(this.age * (8 + progress * 16)) * 0.5 + 0.5;
+
+    this.ring.scale.setScalar(2 - progress + pulse * 0.2);
+    (this.ring.material as THREE.MeshBasicMaterial).opacity = 0.4 + pulse * 0.5;
+    (this.core.material as THREE.MeshBasicMaterial).opacity = 0.3 + progress * 0.6;
+  }
+
+  /**
+   * Set what arrives at this beacon and when
+   * @param enemyType Enemy that will spawn here
+   * @param speedMultiplier Wave speed multiplier for the enemy
+   * @param warningTime Seconds until it arrives
+   */
+  public arm(enemyType: EnemyType, speedMultiplier: number = 1, warningTime: number = BEACON.warningTime): void {
+    this.enemyType = enemyType;
+    this.speedMultiplier = speedMultiplier;
+    this.warningTime = warningTime;
+    this.timeLeft = warningTime;
+  }
+
+  /**
+   * Check whether the countdown is over and the enemy should arrive
+   */
+  public isReady(): boolean {
+    return this.timeLeft <= 0;
+  }
+
+  /**
+   * Countdown progress (0 when placed, 1 when the enemy arrives)
+   */
+  public getProgress(): number {
+    return this.warningTime > 0 ? 1 - this.timeLeft / this.warningTime : 1;
+  }
+
+  public getSpeedMultiplier(): number {
+    return this.speedMultiplier;
+  }
+
+  public serialize(): BeaconSnapshot {
+    return {
+      ...super.serialize(),
+      enemyType: this.enemyType,
+      speedMultiplier: this.speedMultiplier,
+      timeLeft: this.timeLeft,
+      warningTime: this.warningTime
+    };
+  }
+
+  public restore(snapshot: BeaconSnapshot): void {
+    super.restore(snapshot);
+    this.enemyType = snapshot.enemyType;
+    this.speedMultiplier = snapshot.speedMultiplier;
+    this.timeLeft = snapshot.timeLeft;
+    this.warningTime = snapshot.warningTime;
+  }
+
+  protected onSpawn(): void {
+    this.velocity.set(0, 0, 0);
+  }
+
+  protected onDespawn(): void {
+    // Nothing to release
+  }
+
+  protected onReset(): void {
+    this.enemyType = 'hunter';
+    this.speedMultiplier = 1;
+    this.warningTime = BEACON.warningTime;
+    this.timeLeft = BEACON.warningTime;
+  }
+}
+
+EntityRegistry.register({
+  key: 'beacons',
+  poolSize: POOL_SIZES.beacons,
+  updateOrder: 28, // Just ahead of the enemies they turn into
+  timeGroup: 'enemies',
+  create: () => new Beacon()
+});
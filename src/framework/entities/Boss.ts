@@ -0,0 +1,492 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { Ship } from './Ship';
+import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { BOSS } from '../constants/gameConstants';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    bosses: Boss[];
+  }
+}
+
+export type BossPhase = 1 | 2 | 3;
+export type BossPattern = 'aimed' | 'ring' | 'spiral';
+
+/**
+ * Fires one boss bullet (the boss has no access to the bullet pool)
+ * @param boss Boss that is shooting
+ * @param direction Direction angle in radians (measured from +Y)
+ * @param speed Bullet speed
+ */
+export type BossFireHandler = (boss: Boss, direction: number, speed: number) => void;
+
+/**
+ * What the HUD needs to draw the boss bar
+ */
+export interface BossStatus {
+  name: string;
+  bossNumber: number;
+  health: number;
+  maxHealth: number;
+  phase: BossPhase;
+}
+
+export interface BossSnapshot extends EntitySnapshot {
+  bossNumber: number;
+  spriteIndex: number;
+  health: number;
+  maxHealth: number;
+  phase: BossPhase;
+  pattern: BossPattern;
+  patternIndex: number;
+  volleysLeft: number;
+  volleyTimer: number;
+  patternAngle: number;
+  orbitDirection: number;
+}
+
+interface PatternSpec {
+  volleys: number;  // Volleys per use of the pattern
+  gap: number;      // Seconds between volleys
+  rest: number;     // Seconds after the last volley
+}
+
+interface WeakPoint {
+  x: number;        // Offset in the boss's local frame (sprite space)
+  y: number;
+  fromPhase: BossPhase;
+}
+
+/**
+ * Boss ship drawn with one of the bundled boss sprites
+ * Circles the player and cycles attack patterns that grow with each phase
+ * (phases change at 2/3 and 1/3 health). Hits on the glowing weak points
+ * do extra damage, everywhere else is armored. Each boss met in a run is
+ * 20% faster than the last, like the vanilla hunters. Spawning, hits and
+ * drops are handled by BossSystem.
+ */
+export class Boss extends BaseEntity {
+  private static readonly NAMES = [
+    'Harbinger', 'Leviathan', 'Warden', 'Colossus', 'Tyrant',
+    'Behemoth', 'Sentinel', 'Juggernaut', 'Overlord', 'Annihilator'
+  ];
+
+  private static readonly PATTERNS: Record<BossPattern, PatternSpec> = {
+    aimed: { volleys: 3, gap: 0.25, rest: 1.4 },
+    ring: { volleys: 2, gap: 0.6, rest: 1.8 },
+    spiral: { volleys: 24, gap: 0.1, rest: 1.5 }
+  };
+
+  // Patterns cycled in each phase
+  private static readonly PHASE_PATTERNS: Record<BossPhase, BossPattern[]> = {
+    1: ['aimed'],
+    2: ['aimed', 'ring'],
+    3: ['spiral', 'aimed', 'ring']
+  };
+
+  // Engines are exposed from the start; the core opens up in the last phase
+  private static readonly WEAK_POINTS: WeakPoint[] = [
+    { x: -3.2, y: -2.6, fromPhase: 1 },
+    { x: 3.2, y: -2.6, fromPhase: 1 },
+    { x: 0, y: 1.2, fromPhase: 3 }
+  ];
+
+  public health: number = BOSS.health;
+  private maxHealth: number = BOSS.health;
+  private bossNumber: number = 1;
+  private spriteIndex: number = 0;
+  private phase: BossPhase = 1;
+  private pattern: BossPattern = 'aimed';
+  private patternIndex: number = 0;
+  private volleysLeft: number = 0;
+  private volleyTimer: number = 2; // Grace period after arriving
+  private patternAngle: number = 0;
+  private orbitDirection: number = 1;
+  private target?: Ship;
+  private fireHandler?: BossFireHandler;
+
+  // Visual components
+  private spriteMesh?: THREE.Mesh;
+  private weakPointMarkers: THREE.Mesh[] = [];
+  private hitFlash: number = 0;
+
+  // Shared textures and materials
+  private static textures: Map<number, THREE.Texture> = new Map();
+  private static markerMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, BOSS.radius);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    const group = new THREE.Group();
+
+    const material = new THREE.MeshBasicMaterial({
+      color: 0xff3366, // Fallback tint until the sprite loads
+      transparent: true,
+      side: THREE.DoubleSide
+    });
+    this.spriteMesh = new THREE.Mesh(new THREE.PlaneGeometry(BOSS.size, BOSS.size), material);
+    group.add(this.spriteMesh);
+    this.applySprite();
+
+    if (!Boss.markerMaterial) {
+      Boss.markerMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffee55,
+        transparent: true,
+        opacity: 0.8,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      });
+    }
+
+    const markerGeometry = new THREE.RingGeometry(BOSS.weakPointRadius * 0.6, BOSS.weakPointRadius, 16);
+    this.weakPointMarkers = Boss.WEAK_POINTS.map(point => {
+      const marker = new THREE.Mesh(markerGeometry, Boss.markerMaterial);
+      marker.position.set(point.x, point.y, 0.1);
+      group.add(marker);
+      return marker;
+    });
+
+    return group;
+  }
+
+  /**
+   * Put this boss's sprite on the plane (textures load once and are shared)
+   */
+  private applySprite(): void {
+    if (!this.spriteMesh) return;
+
+    const material = this.spriteMesh.material as THREE.MeshBasicMaterial;
+    const index = this.spriteIndex;
+    const cached = Boss.textures.get(index);
+
+    const apply = (texture: THREE.Texture) => {
+      if (this.spriteIndex !== index) return; // Reused for another boss meanwhile
+      material.map = texture;
+      material.color.setHex(0xffffff);
+      material.needsUpdate = true;
+    };
+
+    if (cached) {
+      apply(cached);
+      return;
+    }
+
+    try {
+      const url = new URL(`../../assets/boss/boss${index + 1}.png`, import.meta.url).toString();
+      new THREE.TextureLoader().load(
+        url,
+        (texture) => {
+          Boss.textures.set(index, texture);
+          apply(texture);
+        },
+        undefined,
+        (error) => console.warn('[Boss] Failed to load sprite, using tinted fallback:', error)
+      );
+    } catch (e) {
+      console.warn('[Boss] Sprite unavailable:', e);
+    }
+  }
+
+  protected onUpdate(dt: number): void {
+    this.updateMovement(dt);
+    this.updateAttacks(dt);
+    this.updateVisualEffects(dt);
+  }
+
+  /**
+   * Circle the target at the hold distance, faster in the last phase
+   */
+  private updateMovement(dt: number): void {
+    const target = this.target;
+    const maxSpeed = BOSS.maxSpeed * this.getSpeedMultiplier() * (this.phase === 3 ? 1.25 : 1);
+
+    if (target?.active) {
+      const toTarget = PhysicsSystem.getDirection(this, target);
+      const distance = PhysicsSystem.getDistance(this, target);
+      const correction = THREE.MathUtils.clamp((distance - BOSS.holdDistance) / BOSS.holdDistance, -1, 1);
+
+      const desired = new THREE.Vector3(-toTarget.y, toTarget.x, 0)
+        .multiplyScalar(this.orbitDirection * 0.6)
+        .add(toTarget.clone().multiplyScalar(correction))
+        .normalize();
+
+      const accel = BOSS.accel * this.getSpeedMultiplier() * dt;
+      this.velocity.x += desired.x * accel;
+      this.velocity.y += desired.y * accel;
+
+      // Face the player (sprite top is local +Y)
+      this.rotation = Math.atan2(-toTarget.x, toTarget.y);
+    } else {
+      this.velocity.multiplyScalar(Math.max(0, 1 - dt));
+    }
+
+    const speed = this.velocity.length();
+    if (speed > maxSpeed) {
+      this.velocity.normalize().multiplyScalar(maxSpeed);
+    }
+  }
+
+  /**
+   * Run the current pattern's volleys, then move on to the next pattern
+   */
+  private updateAttacks(dt: number): void {
+    if (!this.target?.active) return;
+
+    this.volleyTimer -= dt;
+    if (this.volleyTimer > 0) return;
+
+    if (this.volleysLeft <= 0) {
+      // Start the next pattern of this phase
+      const patterns = Boss.PHASE_PATTERNS[this.phase];
+      this.pattern = patterns[this.patternIndex % patterns.length];
+      this.patternIndex++;
+      this.volleysLeft = Boss.PATTERNS[this.pattern].volleys;
+    }
+
+    this.fireVolley();
+    this.volleysLeft--;
+
+    const spec = Boss.PATTERNS[this.pattern];
+    const pace = this.phase === 3 ? 0.7 : 1;
+    this.volleyTimer += (this.volleysLeft > 0 ? spec.gap : spec.rest) * pace;
+  }
+
+  private fireVolley(): void {
+    const speed = BOSS.bulletSpeed * (1 + (this.phase - 1) * 0.15);
+
+    switch (this.pattern) {
+      case 'aimed': {
+        const angle = Math.atan2(this.target!.position.x - this.position.x, this.target!.position.y - this.position.y);
+        for (const spread of [-0.15, 0, 0.15]) {
+          this.fire(angle + spread, speed);
+        }
+        break;
+      }
+
+      case 'ring': {
+        const count = 12;
+        const offset = this.volleysLeft % 2 === 0 ? Math.PI / count : 0;
+        for (let i = 0; i < count; i++) {
+          this.fire(offset + (i / count) * Math.PI * 2, speed * 0.8);
+        }
+        break;
+      }
+
+      case 'spiral': {
+        const arms = 3;
+        for (let i = 0; i < arms; i++) {
+          this.fire(this.patternAngle + (i / arms) * Math.PI * 2, speed * 0.9);
+        }
+        this.patternAngle += 0.3;
+        break;
+      }
+    }
+  }
+
+  private fire(direction: number, speed: number): void {
+    this.fireHandler?.(this, direction, speed);
+  }
+
+  private updateVisualEffects(dt: number): void {
+    if (this.hitFlash > 0) {
+      this.hitFlash = Math.max(0, this.hitFlash - dt);
+    }
+
+    if (this.spriteMesh) {
+      const material = this.spriteMesh.material as THREE.MeshBasicMaterial;
+      // Redder as it takes damage, white flash on hits
+      const damage = 1 - this.health / this.maxHealth;
+      const base = material.map ? new THREE.Color(1, 1 - damage * 0.5, 1 - damage * 0.5) : new THREE.Color(0xff3366);
+      material.color.copy(base).lerp(new THREE.Color(0xffffff), this.hitFlash * 5);
+    }
+
+    this.weakPointMarkers.forEach((marker, i) => {
+      marker.visible = this.phase >= Boss.WEAK_POINTS[i].fromPhase;
+      marker.scale.setScalar(1 + Math.sin(this.age * 6 + i) * 0.15);
+    });
+  }
+
+  /**
+   * Apply a hit at a point, with weak point or armor multipliers
+   * @param x Hit X (world space)
+   * @param y Hit Y (world space)
+   * @param damage Base damage
+   * @returns Damage dealt and whether a weak point was hit
+   */
+  public hit(x: number, y: number, damage: number): { damage: number; weakPoint: boolean } {
+    const weakPoint = this.isWeakPointHit(x, y);
+    const dealt = damage * (weakPoint ? BOSS.weakPointMultiplier : BOSS.armorMultiplier);
+
+    this.health = Math.max(0, this.health - dealt);
+    this.hitFlash = 0.1;
+    this.phase = this.phaseForHealth();
+
+    return { damage: dealt, weakPoint };
+  }
+
+  /**
+   * Check whether a point is on one of the currently exposed weak points
+   * @param x Point X (world space)
+   * @param y Point Y (world space)
+   * @param margin Extra reach (the bullet's radius)
+   */
+  public isWeakPointHit(x: number, y: number, margin: number = 0): boolean {
+    const reach = BOSS.weakPointRadius + margin;
+    return this.getWeakPoints().some(point => Math.hypot(point.x - x, point.y - y) <= reach);
+  }
+
+  /**
+   * World positions of the exposed weak points (rotated like the sprite)
+   */
+  public getWeakPoints(): { x: number; y: number }[] {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+
+    return Boss.WEAK_POINTS
+      .filter(point => this.phase >= point.fromPhase)
+      .map(point => ({
+        x: this.position.x + point.x * cos - point.y * sin,
+        y: this.position.y + point.x * sin + point.y * cos
+      }));
+  }
+
+  private phaseForHealth(): BossPhase {
+    const ratio = this.health / this.maxHealth;
+    if (ratio > 2 / 3) return 1;
+    if (ratio > 1 / 3) return 2;
+    return 3;
+  }
+
+  /**
+   * Set up the boss for its encounter
+   * @param bossNumber 1 for the run's first boss, 2 for the next...
+   * @param spriteIndex Which bundled sprite to use (0-9)
+   * @param orbitDirection 1 or -1
+   */
+  public configure(bossNumber: number, spriteIndex: number, orbitDirection: number = 1): void {
+    this.bossNumber = bossNumber;
+    this.spriteIndex = spriteIndex;
+    this.orbitDirection = orbitDirection;
+    this.maxHealth = BOSS.health + (bossNumber - 1) * BOSS.healthPerBoss;
+    this.health = this.maxHealth;
+    this.phase = 1;
+    this.applySprite();
+  }
+
+  /**
+   * Set how this boss's shots are spawned (BossSystem wires this up)
+   * @param handler Fire handler
+   */
+  public setFireHandler(handler: BossFireHandler): void {
+    this.fireHandler = handler;
+  }
+
+  public setTarget(target: Ship | undefined): void {
+    this.target = target;
+  }
+
+  public getTarget(): Ship | undefined {
+    return this.target;
+  }
+
+  /**
+   * Speed ramp: each boss is 20% faster than the one before
+   */
+  public getSpeedMultiplier(): number {
+    return 1 + (this.bossNumber - 1) * BOSS.speedRamp;
+  }
+
+  public getName(): string {
+    return Boss.NAMES[this.spriteIndex % Boss.NAMES.length];
+  }
+
+  public getPhase(): BossPhase {
+    return this.phase;
+  }
+
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
+  public isAlive(): boolean {
+    return this.health > 0;
+  }
+
+  public getStatus(): BossStatus {
+    return {
+      name: this.getName(),
+      bossNumber: this.bossNumber,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      phase: this.phase
+    };
+  }
+
+  public serialize(): BossSnapshot {
+    return {
+      ...super.serialize(),
+      bossNumber: this.bossNumber,
+      spriteIndex: this.spriteIndex,
+      health: this.health,
+      maxHealth: this.maxHealth,
+      phase: this.phase,
+      pattern: this.pattern,
+      patternIndex: this.patternIndex,
+      volleysLeft: this.volleysLeft,
+      volleyTimer: this.volleyTimer,
+      patternAngle: this.patternAngle,
+      orbitDirection: this.orbitDirection
+    };
+  }
+
+  public restore(snapshot: BossSnapshot): void {
+    super.restore(snapshot);
+    this.bossNumber = snapshot.bossNumber;
+    this.spriteIndex = snapshot.spriteIndex;
+    this.health = snapshot.health;
+    this.maxHealth = snapshot.maxHealth;
+    this.phase = snapshot.phase;
+    this.pattern = snapshot.pattern;
+    this.patternIndex = snapshot.patternIndex;
+    this.volleysLeft = snapshot.volleysLeft;
+    this.volleyTimer = snapshot.volleyTimer;
+    this.patternAngle = snapshot.patternAngle;
+    this.orbitDirection = snapshot.orbitDirection;
+    this.applySprite();
+  }
+
+  protected onSpawn(): void {
+    this.hitFlash = 0;
+  }
+
+  protected onDespawn(): void {
+    // Target and fire handler are re-linked by BossSystem
+    this.target = undefined;
+  }
+
+  protected onReset(): void {
+    this.health = BOSS.health;
+    this.maxHealth = BOSS.health;
+    this.bossNumber = 1;
+    this.phase = 1;
+    this.pattern = 'aimed';
+    this.patternIndex = 0;
+    this.volleysLeft = 0;
+    this.volleyTimer = 2;
+    this.patternAngle = 0;
+    this.orbitDirection = 1;
+    this.hitFlash = 0;
+  }
+}
+
+EntityRegistry.register({
+  key: 'bosses',
+  poolSize: 1,
+  updateOrder: 35, // After regular enemies
+  timeGroup: 'enemies',
+  create: () => new Boss()
+});
@@ -1,6 +1,43 @@
 import * as THREE from 'three';
-import { BaseEntity } from './BaseEntity';
-import { BULLET, VISIBLE_HEIGHT } from '../constants/gameConstants';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { BULLET, VISIBLE_HEIGHT, MATERIAL_COLORS, POOL_SIZES } from '../constants/gameConstants';
+import type { StatusEffectType } from '../data/statusEffectDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    bullets: Bullet[];
+  }
+}
+
+/**
+ * Side a bullet was fired for; bullets never hit their own side
+ */
+export type BulletFaction = 'player' | 'enemy';
+
+// Bullet looks, each drawn with one shared material
+type BulletLook = 'plain' | 'pierce' | 'ricochet' | 'enemy';
+
+// Piercing bullets are more blue, ricochet bullets more yellow
+const LOOK_COLORS: Record<BulletLook, number> = {
+  plain: 0xffffff,
+  pierce: 0x88ccff,
+  ricochet: 0xffcc88,
+  enemy: MATERIAL_COLORS.enemyBullet
+};
+
+// Seconds before expiry that a bullet starts shrinking away
+const FADE_TIME = 0.2;
+
+export interface BulletSnapshot extends EntitySnapshot {
+  pierce: number;
+  ricochet: number;
+  damage: number;
+  lifetime: number;
+  faction?: BulletFaction; // Absent in saves made before enemy fire
+  inflicts?: StatusEffectType[];
+  explosive?: boolean;
+}
 
 /**
  * Bullet entity with pierce, ricochet, and lifetime mechanics
@@ -12,12 +49,18 @@ export class Bullet extends BaseEntity {
   public ricochet: number = 0;        // How many ricochets this bullet has left
   public damage: number = 1.0;        // Damage multiplier
   public lifetime: number = BULLET.life; // Lifetime in seconds
+  public faction: BulletFaction = 'player';
+  public owner: BaseEntity | null = null; // Entity that fired it (not saved)
+  public inflicts: StatusEffectType[] = []; // Status effects applied to enemies it hits
+  public explosive: boolean = false;  // Shrapnel round: bursts on every hit (CollisionSystem)
+  public readonly hits: Set<BaseEntity> = new Set(); // Targets already hit, never hit again (not saved)
   
   // Visual
   private bulletMesh?: THREE.Mesh;
+  private readonly lookScale = new THREE.Vector3(1, 1, 1); // Mesh scale before fading
   
-  // Static material for performance
-  private static bulletMaterial?: THREE.MeshBasicMaterial;
+  // Static materials for performance
+  private static materials: Partial<Record<BulletLook, THREE.MeshBasicMaterial>> = {};
 
   constructor(x = 0, y = 0, direction = 0, inheritVx = 0, inheritVy = 0) {
     // Calculate velocity from direction and inherited velocity
@@ -29,20 +72,9 @@ export class Bullet extends BaseEntity {
     
     // Calculate life based on 1.5x visible height travel distance
     this.lifetime = (VISIBLE_HEIGHT * 1.5) / BULLET.speed;
-    
-    this.mesh = this.createMesh();
   }
 
   protected createMesh(): THREE.Object3D {
-    // Create bullet material if not exists
-    if (!Bullet.bulletMaterial) {
-      Bullet.bulletMaterial = new THREE.MeshBasicMaterial({
-        color: 0xffffff,
-        transparent: true,
-        opacity: 0.9
-      });
-    }
-    
     // Create thin cylinder geometry for line-like appearance
     const geometry = new THREE.CylinderGeometry(
       BULLET.r * 0.3,  // Top radius
@@ -54,15 +86,83 @@ export class Bullet extends BaseEntity {
     // Rotate to point along velocity direction
     geometry.rotateZ(Math.PI / 2); // Rotate to point along X axis by default
     
-    this.bulletMesh = new THREE.Mesh(geometry, Bullet.bulletMaterial);
+    this.bulletMesh = new THREE.Mesh(geometry, Bullet.getMaterial('plain'));
     
     // Orient bullet along movement direction
     const angle = Math.atan2(this.velocity.y, this.velocity.x);
     this.bulletMesh.rotation.z = angle;
     
+    this.applyLook();
+    
     return this.bulletMesh;
   }
 
+  /**
+   * Shared material for a look, created on first use
+   */
+  private static getMaterial(look: BulletLook): THREE.MeshBasicMaterial {
+    let material = Bullet.materials[look];
+    if (!material) {
+      material = new THREE.MeshBasicMaterial({
+        color: LOOK_COLORS[look],
+        transparent: true,
+        opacity: 0.9
+      });
+      Bullet.materials[look] = material;
+    }
+    return material;
+  }
+
+  /**
+   * Pick the material and size from the current faction and shot modifiers
+   * Enemy bullets are short, fat red bolts; player bullets are tinted by
+   * pierce/ricochet and sized by damage. Runs on spawn and faction changes,
+   * so pooled bullets never keep a previous shot's look.
+   */
+  private applyLook(): void {
+    if (!this.bulletMesh) return;
+    
+    if (this.faction === 'enemy') {
+      this.bulletMesh.material = Bullet.getMaterial('enemy');
+      this.lookScale.set(0.7, 2, 2); // Geometry runs along X
+    } else {
+      const look: BulletLook = this.pierce > 0 ? 'pierce' : this.ricochet > 0 ? 'ricochet' : 'plain';
+      this.bulletMesh.material = Bullet.getMaterial(look);
+      this.lookScale.setScalar(this.damage !== 1.0 ? 0.5 + this.damage * 0.5 : 1);
+    }
+    this.bulletMesh.scale.copy(this.lookScale);
+  }
+
+  /**
+   * Set which side the bullet was fired for
+   * @param faction Bullet faction
+   * @param owner Entity that fired it
+   */
+  public setFaction(faction: BulletFaction, owner: BaseEntity | null = null): void {
+    this.faction = faction;
+    this.owner = owner;
+    this.applyLook();
+  }
+
+  /**
+   * Send a freshly spawned bullet off along a direction
+   * Set damage, pierce and ricochet first; the look is matched to them here
+   * @param direction Angle in radians (measured from +Y)
+   * @param speed Speed in world units per second
+   * @param lifetime Seconds before it expires (default: a full bullet's)
+   */
+  public launch(direction: number, speed: number = BULLET.speed, lifetime?: number): void {
+    this.velocity.set(Math.sin(direction) * speed, Math.cos(direction) * speed, 0);
+    if (lifetime !== undefined) {
+      this.lifetime = lifetime;
+    }
+    this.applyLook();
+  }
+
+  public isEnemyBullet(): boolean {
+    return this.faction === 'enemy';
+  }
+
   protected onUpdate(dt: number): void {
     // Update lifetime
     this.lifetime -= dt;
@@ -79,10 +179,10 @@ export class Bullet extends BaseEntity {
       this.bulletMesh.rotation.z = angle;
     }
     
-    // Fade out as lifetime approaches zero
-    if (this.bulletMesh && this.lifetime < 0.2) {
-      const material = this.bulletMesh.material as THREE.MeshBasicMaterial;
-      material.opacity = (this.lifetime / 0.2) * 0.9;
+    // Shrink away as lifetime approaches zero (materials are shared, so
+    // their opacity is left alone)
+    if (this.bulletMesh && this.lifetime < FADE_TIME) {
+      this.bulletMesh.scale.copy(this.lookScale).multiplyScalar(this.lifetime / FADE_TIME);
     }
   }
 
@@ -101,19 +201,35 @@ export class Bullet extends BaseEntity {
 
   /**
    * Handle bullet ricochet off target
-   * Bounces bullet in random direction and reduces ricochet count
+   * Heads for the next target at the same speed, or glances off the surface
+   * it hit when there is none, and reduces ricochet count
+   * @param target Entity to redirect toward (null to glance off)
+   * @param surface Entity the bullet just hit
    * @returns true if ricochet occurred, false if bullet should be destroyed
    */
-  public ricochetOff(): boolean {
+  public ricochetOff(target: BaseEntity | null, surface: BaseEntity): boolean {
     if (this.ricochet > 0) {
       this.ricochet--;
       
-      // Bounce in random direction with same speed
       const currentSpeed = this.velocity.length();
-      const newAngle = Math.random() * Math.PI * 2;
       
-      this.velocity.x = Math.cos(newAngle) * currentSpeed;
-      this.velocity.y = Math.sin(newAngle) * currentSpeed;
+      if (target) {
+        const angle = Math.atan2(target.position.x - this.position.x, target.position.y - this.position.y);
+        this.velocity.set(Math.sin(angle) * currentSpeed, Math.cos(angle) * currentSpeed, 0);
+      } else {
+        // Reflect off the surface, like a ball off a wall
+        const normal = new THREE.Vector3(
+          this.position.x - surface.position.x,
+          this.position.y - surface.position.y,
+          0
+        ).normalize();
+        const into = this.velocity.dot(normal);
+        if (normal.lengthSq() === 0) {
+          this.velocity.negate();
+        } else if (into < 0) {
+          this.velocity.addScaledVector(normal, -2 * into);
+        }
+      }
       
       // Reset some lifetime on ricochet
       this.lifetime = Math.min(this.lifetime + 0.3, BULLET.life);
@@ -137,22 +253,43 @@ export class Bullet extends BaseEntity {
     return Math.max(0, this.lifetime / BULLET.life);
   }
 
+  public serialize(): BulletSnapshot {
+    return {
+      ...super.serialize(),
+      pierce: this.pierce,
+      ricochet: this.ricochet,
+      damage: this.damage,
+      lifetime: this.lifetime,
+      faction: this.faction,
+      inflicts: [...this.inflicts],
+      explosive: this.explosive
+    };
+  }
+
+  public restore(snapshot: BulletSnapshot): void {
+    super.restore(snapshot);
+    this.pierce = snapshot.pierce;
+    this.ricochet = snapshot.ricochet;
+    this.damage = snapshot.damage;
+    this.lifetime = snapshot.lifetime;
+    this.setFaction(snapshot.faction ?? 'player');
+    this.inflicts = [...(snapshot.inflicts ?? [])];
+    this.explosive = snapshot.explosive ?? false;
+  }
+
   protected onSpawn(): void {
-    // Reset bullet state when spawned
+    // Reset the lifetime when spawned; shot modifiers set by the shooter stay
+    // (pooled bullets are cleared in onReset)
     this.lifetime = (VISIBLE_HEIGHT * 1.5) / BULLET.speed;
-    this.pierce = 0;
-    this.ricochet = 0;
-    this.damage = 1.0;
     
-    // Reset material opacity
-    if (this.bulletMesh) {
-      const material = this.bulletMesh.material as THREE.MeshBasicMaterial;
-      material.opacity = 0.9;
-    }
+    // Shot modifiers are set before spawning; match the look to them
+    this.applyLook();
   }
 
   protected onDespawn(): void {
-    // No special cleanup needed
+    // Drop the references so pooled bullets don't keep entities alive
+    this.owner = null;
+    this.hits.clear();
   }
 
   protected onReset(): void {
@@ -161,12 +298,10 @@ export class Bullet extends BaseEntity {
     this.pierce = 0;
     this.ricochet = 0;
     this.damage = 1.0;
-    
-    // Reset material opacity
-    if (this.bulletMesh) {
-      const material = this.bulletMesh.material as THREE.MeshBasicMaterial;
-      material.opacity = 0.9;
-    }
+    this.inflicts = [];
+    this.explosive = false;
+    this.hits.clear();
+    this.setFaction('player');
   }
 
   /**
@@ -196,24 +331,14 @@ export class Bullet extends BaseEntity {
     bullet.ricochet = ricochet;
     bullet.damage = damage;
     
-    // Visual indication for special bullets
-    if (bullet.bulletMesh) {
-      const material = bullet.bulletMesh.material as THREE.MeshBasicMaterial;
-      
-      if (pierce > 0) {
-        // Piercing bullets are more blue
-        material.color.setHex(0x88ccff);
-      } else if (ricochet > 0) {
-        // Ricochet bullets are more yellow
-        material.color.setHex(0xffcc88);
-      }
-      
-      if (damage !== 1.0) {
-        // Scale bullet size based on damage
-        bullet.bulletMesh.scale.setScalar(0.5 + damage * 0.5);
-      }
-    }
-    
     return bullet;
   }
-}
\ No newline at end of file
+}
+
+EntityRegistry.register({
+  key: 'bullets',
+  poolSize: POOL_SIZES.bullets,
+  updateOrder: 20,
+  timeGroup: 'projectiles',
+  create: () => new Bullet()
+});
@@ -0,0 +1,152 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { POOL_SIZES } from '../constants/gameConstants';
+import { WEAPON_DEFINITIONS } from '../data/weaponDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    chargeShots: ChargeShot[];
+  }
+}
+
+export interface ChargeShotSnapshot extends EntitySnapshot {
+  damage: number;
+  lifetime: number;
+  charge: number;
+}
+
+const CHARGE = WEAPON_DEFINITIONS.charge;
+
+/**
+ * Charge Cannon orb: the longer the trigger was held, the bigger and harder
+ * it hits. It ploughs through everything in its path, hitting each target
+ * once (tracked by WeaponSystem).
+ */
+export class ChargeShot extends BaseEntity {
+  public damage: number = CHARGE.damage;
+  public lifetime: number = CHARGE.charge!.lifetime;
+  public charge: number = 0;                     // 0-1 share of a full charge
+  public readonly hits: Set<BaseEntity> = new Set(); // Already hit (not saved)
+  public owner: BaseEntity | null = null;        // Not saved
+
+  // Visual components
+  private orb?: THREE.Mesh;
+  private halo?: THREE.Mesh;
+
+  // Static materials for performance
+  private static orbMaterial?: THREE.MeshBasicMaterial;
+  private static haloMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, CHARGE.charge!.minRadius);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    if (!ChargeShot.orbMaterial) {
+      ChargeShot.orbMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff });
+    }
+    if (!ChargeShot.haloMaterial) {
+      ChargeShot.haloMaterial = new THREE.MeshBasicMaterial({
+        color: CHARGE.color,
+        transparent: true,
+        opacity: 0.5,
+        blending: THREE.AdditiveBlending
+      });
+    }
+
+    // Unit spheres scaled to the shot's radius
+    const group = new THREE.Group();
+    this.orb = new THREE.Mesh(new THREE.SphereGeometry(0.6, 12, 12), ChargeShot.orbMaterial);
+    this.halo = new THREE.Mesh(new THREE.SphereGeometry(1, 12, 12), ChargeShot.haloMaterial);
+    group.add(this.halo);
+    group.add(this.orb);
+
+    this.updateVisualEffects();
+    return group;
+  }
+
+  protected onUpdate(dt: number): void {
+    this.lifetime -= dt;
+    if (this.lifetime <= 0) {
+      this.despawn();
+      return;
+    }
+
+    this.updateVisualEffects();
+  }
+
+  private updateVisualEffects(): void {
+    if (!this.orb || !this.halo) return;
+
+    const pulse = 1 + Math.sin(this.age * 30) * 0.12;
+    this.orb.scale.setScalar(this.radius);
+    this.halo.scale.setScalar(this.radius * pulse);
+  }
+
+  /**
+   * Fire the orb
+   * @param angle Direction (radians, 0 = +Y)
+   * @param damage Damage per target
+   * @param charge 0-1 share of a full charge (sets the size)
+   * @param owner Entity that fired it
+   * @param inheritVx Velocity X picked up from the ship
+   * @param inheritVy Velocity Y picked up from the ship
+   */
+  public launch(angle: number, damage: number, charge: number, owner: BaseEntity, inheritVx = 0, inheritVy = 0): void {
+    const { speed, minRadius, maxRadius } = CHARGE.charge!;
+
+    this.rotation = angle;
+    this.velocity.set(Math.sin(angle) * speed + inheritVx, Math.cos(angle) * speed + inheritVy, 0);
+    this.damage = damage;
+    this.charge = charge;
+    this.radius = minRadius + (maxRadius - minRadius) * charge;
+    this.owner = owner;
+    this.resetInterpolation();
+  }
+
+  public serialize(): ChargeShotSnapshot {
+    return {
+      ...super.serialize(),
+      damage: this.damage,
+      lifetime: this.lifetime,
+      charge: this.charge
+    };
+  }
+
+  public restore(snapshot: ChargeShotSnapshot): void {
+    super.restore(snapshot);
+    const { minRadius, maxRadius } = CHARGE.charge!;
+    this.damage = snapshot.damage;
+    this.lifetime = snapshot.lifetime;
+    this.charge = snapshot.charge;
+    this.radius = minRadius + (maxRadius - minRadius) * snapshot.charge;
+  }
+
+  protected onSpawn(): void {
+    this.lifetime = CHARGE.charge!.lifetime;
+    this.hits.clear();
+  }
+
+  protected onDespawn(): void {
+    this.hits.clear();
+    this.owner = null;
+  }
+
+  protected onReset(): void {
+    this.damage = CHARGE.damage;
+    this.lifetime = CHARGE.charge!.lifetime;
+    this.charge = 0;
+    this.radius = CHARGE.charge!.minRadius;
+    this.owner = null;
+    this.hits.clear();
+  }
+}
+
+EntityRegistry.register({
+  key: 'chargeShots',
+  poolSize: POOL_SIZES.chargeShots,
+  updateOrder: 23,
+  timeGroup: 'projectiles',
+  create: () => new ChargeShot()
+});
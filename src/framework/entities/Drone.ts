@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { Bullet } from './Bullet';
+import { Ship } from './Ship';
+import { DRONE, MATERIAL_COLORS } from '../constants/gameConstants';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    drones: Drone[];
+  }
+}
+
+export interface DroneSnapshot extends EntitySnapshot {
+  slot: number;
+  orbitAngle: number;
+  cooldown: number;
+}
+
+/**
+ * Drone companion that orbits its owner ship and shoots at nearby targets
+ * Each orbit slot runs a little wider and faster than the one before it,
+ * matching the vanilla drones. Targeting is done by DroneSystem.
+ */
+export class Drone extends BaseEntity {
+  private owner: Ship | null = null;
+  private slot: number = 0;
+  private orbitAngle: number = 0;
+  private cooldown: number = 0;
+
+  // Static material for performance
+  private static droneMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, 0.5);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    if (!Drone.droneMaterial) {
+      Drone.droneMaterial = new THREE.MeshBasicMaterial({
+        color: MATERIAL_COLORS.drone,
+        transparent: true,
+        opacity: 0.9
+      });
+    }
+
+    return new THREE.Mesh(new THREE.SphereGeometry(0.5, 12, 12), Drone.droneMaterial);
+  }
+
+  protected onUpdate(dt: number): void {
+    if (this.cooldown > 0) {
+      this.cooldown -= dt;
+    }
+
+    if (!this.owner) return;
+
+    // Orbit the owner
+    this.orbitAngle += dt * DRONE.orbitSpeed * (1 + this.slot * DRONE.speedMultiplier);
+    const radius = DRONE.orbitRadius + this.slot * DRONE.radiusOffset;
+    this.position.set(
+      this.owner.position.x + Math.cos(this.orbitAngle) * radius,
+      this.owner.position.y + Math.sin(this.orbitAngle) * radius,
+      0
+    );
+    this.velocity.copy(this.owner.velocity);
+    this.wrapPosition();
+  }
+
+  /**
+   * Attach the drone to a ship
+   * @param owner Ship to orbit
+   * @param slot Orbit slot (0 = innermost)
+   * @param orbitAngle Optional starting angle (keeps the current angle if omitted)
+   */
+  public setOwner(owner: Ship, slot: number, orbitAngle?: number): void {
+    this.owner = owner;
+    this.slot = slot;
+    if (orbitAngle !== undefined) {
+      this.orbitAngle = orbitAngle;
+    }
+  }
+
+  public getOwner(): Ship | null {
+    return this.owner;
+  }
+
+  public canFire(): boolean {
+    return this.cooldown <= 0 && !!this.owner?.active;
+  }
+
+  /**
+   * Fire a bullet at a target
+   * @param target Entity to aim at
+   * @returns The bullet, or null while on cooldown
+   */
+  public fireAt(target: BaseEntity): Bullet | null {
+    if (!this.canFire()) return null;
+
+    this.cooldown = DRONE.fireRate;
+
+    // Bullets measure angles from +Y (sin for X, cos for Y)
+    const angle = Math.atan2(target.position.x - this.position.x, target.position.y - this.position.y);
+    const bullet = new Bullet(
+      this.position.x,
+      this.position.y,
+      angle,
+      this.velocity.x * 0.2,
+      this.velocity.y * 0.2
+    );
+    bullet.setFaction('player', this);
+    return bullet;
+  }
+
+  public serialize(): DroneSnapshot {
+    return {
+      ...super.serialize(),
+      slot: this.slot,
+      orbitAngle: this.orbitAngle,
+      cooldown: this.cooldown
+    };
+  }
+
+  public restore(snapshot: DroneSnapshot): void {
+    super.restore(snapshot);
+    this.slot = snapshot.slot;
+    this.orbitAngle = snapshot.orbitAngle;
+    this.cooldown = snapshot.cooldown;
+  }
+
+  protected onSpawn(): void {
+    this.cooldown = 0;
+  }
+
+  protected onDespawn(): void {
+    // Owner is re-attached by DroneSystem
+    this.owner = null;
+  }
+
+  protected onReset(): void {
+    this.owner = null;
+    this.slot = 0;
+    this.orbitAngle = 0;
+    this.cooldown = 0;
+  }
+}
+
+EntityRegistry.register({
+  key: 'drones',
+  poolSize: DRONE.maxCount,
+  updateOrder: 5, // Right after ships, so drones follow this tick's ship position
+  timeGroup: 'player',
+  create: () => new Drone()
+});
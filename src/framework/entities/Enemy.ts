@@ -1,10 +1,25 @@
 import * as THREE from 'three';
-import { BaseEntity } from './BaseEntity';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
 import { Ship } from './Ship';
 import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { RandomStream } from '../systems/RandomSystem';
+import { StatusEffects, ActiveStatusEffect } from '../systems/StatusEffects';
+import { STATUS_EFFECT_DEFINITIONS } from '../data/statusEffectDefinitions';
+import { ENEMY_DEFINITIONS, EnemyDefinition } from '../data/enemyDefinitions';
+import { ENEMY, POOL_SIZES } from '../constants/gameConstants';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    enemies: Enemy[];
+  }
+  interface EntityVariants {
+    enemies: EnemyType;
+  }
+}
 
 export type EnemyType = 'hunter' | 'sniper' | 'kamikaze';
-export type EnemyState = 'hunting' | 'attacking' | 'fleeing' | 'circling';
+export type EnemyState = 'hunting' | 'strafing' | 'charging' | 'diving';
 
 export interface EnemyAI {
   target?: Ship;
@@ -12,107 +27,108 @@ export interface EnemyAI {
   stateTimer: number;
   shootTimer: number;
   shootCooldown: number;
-  fleeDistance: number;
-  attackDistance: number;
+  strafeDirection: number; // 1 or -1 (hunters)
+  chargeTimer: number;     // Telegraph time left (snipers)
+  aimX: number;            // Point locked in when the charge started (snipers)
+  aimY: number;
 }
 
 /**
- * Enemy entity with AI behavior and shooting
- * Hunts player, shoots, and uses different tactics based on type
+ * Fires a shot for an enemy (the enemy has no access to the bullet pool)
+ * @param enemy Enemy that is shooting
+ * @param direction Direction angle in radians (measured from +Y)
+ * @param speed Bullet speed
  */
-export class Enemy extends BaseEntity {
-  // Enemy constants (from vanilla reference)
-  private static readonly ENEMY_CONSTANTS = {
-    radius: 2.5,
-    maxSpeed: 30,
-    accel: 20,
-    shootRange: 200,
-    shootAccuracy: 0.8, // 0-1, how accurate shots are
-    health: 1,
-    score: 150
-  };
+export type EnemyFireHandler = (enemy: Enemy, direction: number, speed: number) => void;
 
+export interface EnemySnapshot extends EntitySnapshot {
+  enemyType: EnemyType;
+  health: number;
+  ai: Omit<EnemyAI, 'target'>; // Target is re-linked to the player ship on restore
+  effects?: ActiveStatusEffect[];
+}
+
+/**
+ * Enemy entity with per-type AI behavior and shooting
+ * Hunters strafe around the player, snipers hold range and telegraph a fast
+ * shot, kamikazes dive in and explode (the blast is resolved by CollisionSystem).
+ * Tuning for each type lives in ENEMY_DEFINITIONS.
+ */
+export class Enemy extends BaseEntity {
   // Enemy-specific properties
   public readonly enemyType: EnemyType;
   public health: number;
+  private readonly definition: EnemyDefinition;
   private ai: EnemyAI;
-  
+  private rng: RandomStream;
+  private fireHandler?: EnemyFireHandler;
+
+  // Timed effects from the player's weapons (slow, burn)
+  public readonly effects = new StatusEffects();
+
   // Visual components
   private enemyMesh?: THREE.Mesh;
   private thrusterFlames: THREE.Mesh[] = [];
-  
-  // Materials (shared across all enemies)
-  private static enemyMaterial?: THREE.MeshBasicMaterial;
+
+  // Per-instance body material (tinted by damage and charge); flames are shared
+  private enemyMaterial?: THREE.MeshBasicMaterial;
   private static flameMaterial?: THREE.MeshBasicMaterial;
 
-  constructor(type: EnemyType = 'hunter', x = 0, y = 0) {
-    super(x, y, 0, 0, Enemy.ENEMY_CONSTANTS.radius);
-    
+  constructor(type: EnemyType = 'hunter', x = 0, y = 0, rng: RandomStream = RandomStream.fallback()) {
+    super(x, y, 0, 0, ENEMY_DEFINITIONS[type].radius);
+
+    this.rng = rng;
     this.enemyType = type;
-    this.health = Enemy.ENEMY_CONSTANTS.health;
-    
-    // Initialize AI
-    this.ai = {
-      state: 'hunting',
+    this.definition = ENEMY_DEFINITIONS[type];
+    this.health = this.definition.health;
+    this.ai = this.createAI();
+    this.effects.clear();
+  }
+
+  private createAI(): EnemyAI {
+    return {
+      state: this.enemyType === 'kamikaze' ? 'diving' : 'hunting',
       stateTimer: 0,
       shootTimer: 0,
       shootCooldown: this.getShootCooldown(),
-      fleeDistance: 80,
-      attackDistance: 150
+      strafeDirection: 1,
+      chargeTimer: 0,
+      aimX: 0,
+      aimY: 0
     };
-    
-    this.mesh = this.createMesh();
   }
 
   protected createMesh(): THREE.Object3D {
     const group = new THREE.Group();
-    
+
     // Create enemy ship mesh
     this.createEnemyMesh(group);
-    
+
     // Create thruster flames
     this.createThrusterFlames(group);
-    
+
     return group;
   }
 
   private createEnemyMesh(group: THREE.Group): void {
-    // Create enemy material (red/orange to distinguish from player)
-    if (!Enemy.enemyMaterial) {
-      Enemy.enemyMaterial = new THREE.MeshBasicMaterial({
-        color: 0xff4444, // Red color for enemies
-        transparent: false
-      });
+    this.enemyMaterial = new THREE.MeshBasicMaterial({
+      color: this.definition.color,
+      side: THREE.DoubleSide
+    });
+
+    // Flat triangle list from the type's outline
+    const shape = this.definition.shape;
+    const vertices = new Float32Array((shape.length / 2) * 3);
+    for (let i = 0; i < shape.length / 2; i++) {
+      vertices[i * 3] = shape[i * 2];
+      vertices[i * 3 + 1] = shape[i * 2 + 1];
+      vertices[i * 3 + 2] = 0;
     }
 
-    // Create triangular enemy ship geometry
     const geometry = new THREE.BufferGeometry();
-    const vertices = new Float32Array([
-      // Triangle pointing up (enemy ship)
-      0, 2, 0,      // Top vertex
-      -1.5, -1, 0,  // Bottom left
-      1.5, -1, 0,   // Bottom right
-      
-      // Additional geometry for different enemy types
-      0, 2, 0,      // Top vertex
-      0, -2, 0,     // Bottom spike
-      -1.5, -1, 0,  // Bottom left
-      
-      0, 2, 0,      // Top vertex  
-      1.5, -1, 0,   // Bottom right
-      0, -2, 0,     // Bottom spike
-    ]);
-
-    const indices = new Uint16Array([
-      0, 1, 2,  // Main triangle
-      3, 4, 5,  // Left wing
-      6, 7, 8   // Right wing
-    ]);
-
     geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
-    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
-    
-    this.enemyMesh = new THREE.Mesh(geometry, Enemy.enemyMaterial);
+
+    this.enemyMesh = new THREE.Mesh(geometry, this.enemyMaterial);
     group.add(this.enemyMesh);
   }
 
@@ -128,12 +144,12 @@ export class Enemy extends BaseEntity {
 
     // Create small thruster flames
     const flameGeometry = new THREE.ConeGeometry(0.2, 1, 4);
-    
+
     const flame1 = new THREE.Mesh(flameGeometry, Enemy.flameMaterial);
     flame1.position.set(-0.5, -1.5, 0);
     flame1.rotation.z = Math.PI;
-    
-    const flame2 = new THREE.Mesh(flameGeometry, Enemy.flameMaterial);  
+
+    const flame2 = new THREE.Mesh(flameGeometry, Enemy.flameMaterial);
     flame2.position.set(0.5, -1.5, 0);
     flame2.rotation.z = Math.PI;
 
@@ -147,118 +163,132 @@ export class Enemy extends BaseEntity {
   }
 
   protected onUpdate(dt: number): void {
-    // Update AI behavior
-    this.updateAI(dt);
-    
-    // Apply AI movement
-    this.applyAIMovement(dt);
-    
+    // Update AI behavior and steer toward where it wants to go
+    const desired = this.updateAI(dt);
+    this.applySteering(desired, dt);
+
     // Update visual effects
     this.updateVisualEffects(dt);
   }
 
-  private updateAI(dt: number): void {
-    if (!this.ai.target) return;
+  /**
+   * Run the type's behavior
+   * @returns Desired movement direction (zero vector to brake)
+   */
+  private updateAI(dt: number): THREE.Vector3 {
+    const target = this.ai.target;
+    if (!target?.active) return new THREE.Vector3();
 
     this.ai.stateTimer -= dt;
-    this.ai.shootTimer -= dt;
-
-    const distanceToTarget = PhysicsSystem.getDistance(this, this.ai.target);
-
-    // State machine
-    switch (this.ai.state) {
-      case 'hunting':
-        if (distanceToTarget < this.ai.attackDistance) {
-          this.ai.state = 'attacking';
-          this.ai.stateTimer = 2.0 + Math.random() * 2.0; // Attack for 2-4 seconds
-        }
-        break;
-
-      case 'attacking':
-        if (this.ai.stateTimer <= 0) {
-          // Decide next action based on distance and type
-          if (distanceToTarget < this.ai.fleeDistance && Math.random() < 0.6) {
-            this.ai.state = 'fleeing';
-            this.ai.stateTimer = 1.0 + Math.random();
-          } else {
-            this.ai.state = 'circling';
-            this.ai.stateTimer = 3.0 + Math.random() * 2.0;
-          }
-        }
-        break;
-
-      case 'fleeing':
-        if (this.ai.stateTimer <= 0) {
-          this.ai.state = 'hunting';
-          this.ai.stateTimer = 1.0;
-        }
-        break;
-
-      case 'circling':
-        if (this.ai.stateTimer <= 0) {
-          this.ai.state = 'hunting';
-          this.ai.stateTimer = 1.0;
-        }
-        break;
+    this.ai.shootTimer -= dt * this.effects.getModifiers().fireRate;
+
+    switch (this.enemyType) {
+      case 'sniper': return this.updateSniper(target, dt);
+      case 'kamikaze': return this.updateKamikaze(target);
+      default: return this.updateHunter(target);
+    }
+  }
+
+  /**
+   * Close in, then strafe around the target at the preferred distance
+   */
+  private updateHunter(target: Ship): THREE.Vector3 {
+    const strafe = this.definition.strafe!;
+    const toTarget = PhysicsSystem.getDirection(this, target);
+    const distance = PhysicsSystem.getDistance(this, target);
+
+    if (this.ai.state !== 'strafing' && distance < strafe.distance * 1.5) {
+      this.ai.state = 'strafing';
+      this.ai.stateTimer = this.rng.range(strafe.switchTime[0], strafe.switchTime[1]);
+    } else if (this.ai.state === 'strafing' && distance > strafe.distance * 2.5) {
+      this.ai.state = 'hunting';
+    }
+
+    this.tryShoot(target);
+
+    if (this.ai.state !== 'strafing') {
+      return toTarget;
+    }
+
+    if (this.ai.stateTimer <= 0) {
+      this.ai.strafeDirection *= -1;
+      this.ai.stateTimer = this.rng.range(strafe.switchTime[0], strafe.switchTime[1]);
     }
 
-    // Shooting logic
-    if (this.ai.shootTimer <= 0 && distanceToTarget < Enemy.ENEMY_CONSTANTS.shootRange) {
-      if (this.canShoot()) {
-        this.shoot();
+    // Sideways, pulled back toward the preferred distance
+    const correction = THREE.MathUtils.clamp((distance - strafe.distance) / strafe.distance, -1, 1);
+    return new THREE.Vector3(-toTarget.y, toTarget.x, 0)
+      .multiplyScalar(this.ai.strafeDirection)
+      .add(toTarget.multiplyScalar(correction))
+      .normalize();
+  }
+
+  /**
+   * Hold long range; when ready, stop and telegraph a fast shot
+   */
+  private updateSniper(target: Ship, dt: number): THREE.Vector3 {
+    const charge = this.definition.charge!;
+
+    if (this.ai.state === 'charging') {
+      this.ai.chargeTimer -= dt;
+      if (this.ai.chargeTimer <= 0) {
+        this.fire(this.aimAt(this.ai.aimX, this.ai.aimY));
+        this.ai.state = 'hunting';
         this.ai.shootTimer = this.ai.shootCooldown;
       }
+      return new THREE.Vector3(); // Brake while aiming
     }
-  }
 
-  private applyAIMovement(dt: number): void {
-    if (!this.ai.target) return;
-
-    const targetDirection = PhysicsSystem.getDirection(this, this.ai.target);
-    let desiredDirection = targetDirection.clone();
-
-    switch (this.ai.state) {
-      case 'hunting':
-        // Move directly toward target
-        break;
-
-      case 'attacking':
-        // Move toward target with slight randomization
-        desiredDirection.x += (Math.random() - 0.5) * 0.3;
-        desiredDirection.y += (Math.random() - 0.5) * 0.3;
-        desiredDirection.normalize();
-        break;
-
-      case 'fleeing':
-        // Move away from target
-        desiredDirection.multiplyScalar(-1);
-        break;
-
-      case 'circling':
-        // Circle around target
-        const perpendicular = new THREE.Vector3(-targetDirection.y, targetDirection.x, 0);
-        desiredDirection = perpendicular.clone();
-        
-        // Add some inward/outward movement
-        const inwardFactor = (Math.random() - 0.5) * 0.5;
-        desiredDirection.add(targetDirection.clone().multiplyScalar(inwardFactor));
-        desiredDirection.normalize();
-        break;
+    const toTarget = PhysicsSystem.getDirection(this, target);
+    const distance = PhysicsSystem.getDistance(this, target);
+
+    if (this.ai.shootTimer <= 0 && distance < this.definition.shootRange) {
+      // Lock the aim now; the telegraph gives the player time to move
+      const aim = this.predictPosition(target, charge.time);
+      this.ai.state = 'charging';
+      this.ai.chargeTimer = charge.time;
+      this.ai.aimX = aim.x;
+      this.ai.aimY = aim.y;
+      this.rotation = Math.atan2(aim.x - this.position.x, aim.y - this.position.y);
+      return new THREE.Vector3();
     }
 
-    // Apply acceleration toward desired direction
-    const accel = Enemy.ENEMY_CONSTANTS.accel * dt;
-    this.velocity.x += desiredDirection.x * accel;
-    this.velocity.y += desiredDirection.y * accel;
+    if (distance < charge.minRange) return toTarget.multiplyScalar(-1);
+    if (distance > charge.maxRange) return toTarget;
+
+    // In the band: drift sideways so it isn't a sitting duck
+    return new THREE.Vector3(-toTarget.y, toTarget.x, 0).multiplyScalar(0.5);
+  }
+
+  /**
+   * Straight at the target, flat out
+   */
+  private updateKamikaze(target: Ship): THREE.Vector3 {
+    this.ai.state = 'diving';
+    return PhysicsSystem.getDirection(this, target);
+  }
+
+  private applySteering(desired: THREE.Vector3, dt: number): void {
+    const speedMultiplier = this.effects.getModifiers().speed;
+    const accel = this.definition.accel * speedMultiplier;
+    const maxSpeed = this.definition.maxSpeed * speedMultiplier;
+
+    if (desired.lengthSq() === 0) {
+      // Brake
+      this.velocity.multiplyScalar(Math.max(0, 1 - dt * 3));
+    } else {
+      this.velocity.x += desired.x * accel * dt;
+      this.velocity.y += desired.y * accel * dt;
+    }
 
     // Limit speed
     const speed = this.velocity.length();
-    if (speed > Enemy.ENEMY_CONSTANTS.maxSpeed) {
-      this.velocity.normalize().multiplyScalar(Enemy.ENEMY_CONSTANTS.maxSpeed);
+    if (speed > maxSpeed) {
+      this.velocity.normalize().multiplyScalar(maxSpeed);
     }
 
-    // Update rotation to face movement direction
-    if (speed > 1) {
+    // Update rotation to face movement direction (a charging sniper faces its aim)
+    if (speed > 1 && this.ai.state !== 'charging') {
       this.rotation = Math.atan2(this.velocity.x, this.velocity.y);
     }
   }
@@ -266,7 +296,7 @@ export class Enemy extends BaseEntity {
   private updateVisualEffects(_dt: number): void {
     // Show thruster flames when accelerating
     const isAccelerating = this.velocity.length() > 5;
-    
+
     this.thrusterFlames.forEach((flame, index) => {
       flame.visible = isAccelerating;
       if (isAccelerating) {
@@ -275,65 +305,102 @@ export class Enemy extends BaseEntity {
       }
     });
 
-    // Change color based on health
-    if (this.enemyMesh) {
-      const material = this.enemyMesh.material as THREE.MeshBasicMaterial;
-      if (this.health <= 0) {
-        material.color.setHex(0x666666); // Gray when destroyed
-      } else {
-        // Pulse red when damaged
-        const intensity = this.health < Enemy.ENEMY_CONSTANTS.health ? 0.7 + Math.sin(this.age * 10) * 0.3 : 1.0;
-        material.color.setRGB(1.0 * intensity, 0.2 * intensity, 0.2 * intensity);
-      }
+    if (!this.enemyMesh || !this.enemyMaterial) return;
+
+    const color = this.enemyMaterial.color;
+    if (this.health <= 0) {
+      color.setHex(0x666666); // Gray when destroyed
+      return;
     }
-  }
 
-  private canShoot(): boolean {
-    if (!this.ai.target) return false;
+    // Pulse when damaged
+    const intensity = this.health < this.definition.health ? 0.7 + Math.sin(this.age * 10) * 0.3 : 1.0;
+    color.setHex(this.definition.color).multiplyScalar(intensity);
 
-    const distance = PhysicsSystem.getDistance(this, this.ai.target);
-    
-    // Range check
-    if (distance > Enemy.ENEMY_CONSTANTS.shootRange) return false;
+    // Harmful effects tint the hull (burning flickers)
+    for (const effect of this.effects.getActive()) {
+      const tint = STATUS_EFFECT_DEFINITIONS[effect.type].color;
+      const amount = effect.type === 'burn' ? 0.3 + Math.sin(this.age * 25) * 0.2 : 0.45;
+      color.lerp(new THREE.Color(tint), amount);
+    }
 
-    // Accuracy check - enemies miss sometimes
-    return Math.random() < Enemy.ENEMY_CONSTANTS.shootAccuracy;
+    // Charging snipers swell and glow white until they fire
+    if (this.ai.state === 'charging') {
+      const progress = 1 - Math.max(0, this.ai.chargeTimer) / this.definition.charge!.time;
+      color.lerp(new THREE.Color(0xffffff), progress * (0.6 + Math.sin(this.age * 30) * 0.4));
+      this.enemyMesh.scale.setScalar(1 + progress * 0.3);
+    } else {
+      this.enemyMesh.scale.setScalar(1);
+    }
   }
 
-  private shoot(): void {
-    if (!this.ai.target) return;
+  /**
+   * Shoot at the target when the cooldown allows (hunters)
+   */
+  private tryShoot(target: Ship): void {
+    if (this.ai.shootTimer > 0) return;
 
+    const distance = PhysicsSystem.getDistance(this, target);
+    if (distance > this.definition.shootRange) return;
+
+    this.ai.shootTimer = this.ai.shootCooldown;
+
+    // Accuracy check - enemies hold fire sometimes
+    if (this.rng.chance(this.definition.accuracy)) {
+      const aim = this.predictPosition(target);
+      this.fire(this.aimAt(aim.x, aim.y));
+    }
+  }
+
+  /**
+   * Where the target will be when a bullet gets there
+   * @param target Target ship
+   * @param delay Extra seconds before the shot leaves (charge time)
+   */
+  private predictPosition(target: Ship, delay: number = 0): THREE.Vector3 {
     // Calculate lead time for moving targets
-    const targetVelocity = this.ai.target.velocity.clone();
-    const distance = PhysicsSystem.getDistance(this, this.ai.target);
-    const bulletSpeed = 70; // Same as player bullets
-    const leadTime = distance / bulletSpeed;
-    
-    // Predict where target will be
-    const predictedPosition = this.ai.target.position.clone();
-    predictedPosition.add(targetVelocity.clone().multiplyScalar(leadTime));
-    
-    // Calculate angle to predicted position  
-    const dx = predictedPosition.x - this.position.x;
-    const dy = predictedPosition.y - this.position.y;
-    const angle = Math.atan2(dx, dy);
-    
+    const distance = PhysicsSystem.getDistance(this, target);
+    const leadTime = distance / this.definition.bulletSpeed + delay;
+
+    return target.position.clone().add(target.velocity.clone().multiplyScalar(leadTime));
+  }
+
+  /**
+   * Angle from this enemy to a point, with the type's inaccuracy
+   * @param x Point X
+   * @param y Point Y
+   */
+  private aimAt(x: number, y: number): number {
+    const angle = Math.atan2(x - this.position.x, y - this.position.y);
+
     // Add some inaccuracy based on enemy type
-    const inaccuracy = (1 - Enemy.ENEMY_CONSTANTS.shootAccuracy) * 0.5;
-    const finalAngle = angle + (Math.random() - 0.5) * inaccuracy;
+    const inaccuracy = (1 - this.definition.accuracy) * 0.5;
+    return angle + this.rng.range(-0.5, 0.5) * inaccuracy;
+  }
 
-    // TODO: Spawn enemy bullet when bullet system supports it
-    // For now, just visual/audio feedback
-    console.log(`Enemy shoots at angle ${(finalAngle * 180 / Math.PI).toFixed(1)}°`);
+  private fire(direction: number): void {
+    this.fireHandler?.(this, direction, this.definition.bulletSpeed);
   }
 
   private getShootCooldown(): number {
-    switch (this.enemyType) {
-      case 'hunter': return 1.5 + Math.random() * 0.5; // 1.5-2s
-      case 'sniper': return 2.5 + Math.random() * 1.0; // 2.5-3.5s
-      case 'kamikaze': return 0.8 + Math.random() * 0.4; // 0.8-1.2s
-      default: return 2.0;
-    }
+    const [min, max] = this.definition.fireCooldown;
+    return this.rng.range(min, max);
+  }
+
+  /**
+   * Set the random stream driving AI decisions (used when pooled enemies join a seeded run)
+   * @param rng Random stream
+   */
+  public setRandomStream(rng: RandomStream): void {
+    this.rng = rng;
+  }
+
+  /**
+   * Set how this enemy's shots are spawned (EntityManager wires this on spawn)
+   * @param handler Fire handler
+   */
+  public setFireHandler(handler: EnemyFireHandler): void {
+    this.fireHandler = handler;
   }
 
   /**
@@ -344,6 +411,10 @@ export class Enemy extends BaseEntity {
     this.ai.target = target;
   }
 
+  public getTarget(): Ship | undefined {
+    return this.ai.target;
+  }
+
   /**
    * Take damage
    * @param damage Damage amount
@@ -351,12 +422,12 @@ export class Enemy extends BaseEntity {
    */
   public takeDamage(damage: number): boolean {
     this.health -= damage;
-    
+
     if (this.health <= 0) {
       this.health = 0;
       return true;
     }
-    
+
     return false;
   }
 
@@ -367,6 +438,13 @@ export class Enemy extends BaseEntity {
     return this.enemyType;
   }
 
+  /**
+   * Get this type's tuning
+   */
+  public getDefinition(): EnemyDefinition {
+    return this.definition;
+  }
+
   /**
    * Get current AI state
    */
@@ -389,18 +467,58 @@ export class Enemy extends BaseEntity {
   }
 
   /**
-   * Get score value
+   * Check if a kamikaze is close enough to its target to detonate
+   */
+  public isPrimed(): boolean {
+    const blast = this.definition.blast;
+    if (!blast || !this.ai.target?.active || !this.isAlive()) return false;
+
+    return PhysicsSystem.getDistance(this, this.ai.target) <= blast.fuseRange + this.ai.target.radius;
+  }
+
+  /**
+   * Get score value for this enemy's type
+   */
+  public getScoreValue(): number {
+    return this.definition.score;
+  }
+
+  /**
+   * Get score value for an enemy type
+   * @param type Enemy type (default hunter)
    */
-  public static getScoreValue(): number {
-    return Enemy.ENEMY_CONSTANTS.score;
+  public static getScoreValue(type: EnemyType = 'hunter'): number {
+    return ENEMY_DEFINITIONS[type].score;
+  }
+
+  public serialize(): EnemySnapshot {
+    const { target: _target, ...ai } = this.ai;
+    return {
+      ...super.serialize(),
+      enemyType: this.enemyType,
+      health: this.health,
+      ai,
+      effects: this.effects.serialize()
+    };
+  }
+
+  public restore(snapshot: EnemySnapshot): void {
+    super.restore(snapshot);
+    this.health = snapshot.health;
+    // Older saves lack the per-type fields; fill them from a fresh AI
+    this.ai = { ...this.createAI(), ...snapshot.ai, target: this.ai.target };
+    this.effects.restore(snapshot.effects);
   }
 
   protected onSpawn(): void {
     // Reset enemy state when spawned
-    this.health = Enemy.ENEMY_CONSTANTS.health;
-    this.ai.state = 'hunting';
+    this.health = this.definition.health;
+    this.ai.state = this.enemyType === 'kamikaze' ? 'diving' : 'hunting';
     this.ai.stateTimer = 1.0;
     this.ai.shootTimer = this.ai.shootCooldown;
+    this.ai.chargeTimer = 0;
+    this.enemyMesh?.scale.setScalar(1);
+    this.effects.clear();
   }
 
   protected onDespawn(): void {
@@ -410,14 +528,33 @@ export class Enemy extends BaseEntity {
 
   protected onReset(): void {
     // Reset enemy to initial state
-    this.health = Enemy.ENEMY_CONSTANTS.health;
-    this.ai = {
-      state: 'hunting',
-      stateTimer: 0,
-      shootTimer: 0,
-      shootCooldown: this.getShootCooldown(),
-      fleeDistance: 80,
-      attackDistance: 150
-    };
+    this.health = this.definition.health;
+    this.ai = this.createAI();
   }
-}
\ No newline at end of file
+}
+
+EntityRegistry.register({
+  key: 'enemies',
+  poolSize: POOL_SIZES.enemies,
+  updateOrder: 30,
+  timeGroup: 'enemies',
+  create: (manager, index, type) => {
+    const enemyType: EnemyType = type ?? (index % 3 === 0 ? 'hunter' : index % 3 === 1 ? 'sniper' : 'kamikaze');
+    return new Enemy(enemyType, 0, 0, manager.getRandom().stream('enemies'));
+  },
+  variantOf: enemy => enemy.enemyType,
+  // Hunt the player's ship if one is flying, and fire hostile bullets
+  setup: (manager, enemy) => {
+    const ship = manager.entities.ships.find(s => s.active);
+    if (ship) {
+      enemy.setTarget(ship);
+    }
+    
+    enemy.setFireHandler((shooter, direction, speed) => {
+      const bullet = manager.spawn('bullets', shooter.position.x, shooter.position.y);
+      bullet.launch(direction, speed, ENEMY.bulletLife);
+      bullet.setFaction('enemy', shooter);
+    });
+  },
+  spawnFromSnapshot: (manager, s) => manager.spawn('enemies', s.x, s.y, s.enemyType)
+});
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { POOL_SIZES } from '../constants/gameConstants';
+import { WEAPON_DEFINITIONS } from '../data/weaponDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    beams: LaserBeam[];
+  }
+}
+
+export interface LaserBeamSnapshot extends EntitySnapshot {
+  length: number;
+  pulseTimer: number;
+}
+
+const LASER = WEAPON_DEFINITIONS.laser;
+
+/**
+ * Lance Laser beam, drawn from the ship's nose to whatever it hits
+ * WeaponSystem re-aims it every tick while the trigger is held and does the
+ * raycast and damage; the beam itself is only the visual and its pulse clock.
+ */
+export class LaserBeam extends BaseEntity {
+  public length: number = 0;
+  public owner: BaseEntity | null = null; // Ship firing it (not saved)
+  private pulseTimer: number = 0;
+
+  // Visual components
+  private core?: THREE.Mesh;
+  private glow?: THREE.Mesh;
+
+  // Static materials for performance
+  private static coreMaterial?: THREE.MeshBasicMaterial;
+  private static glowMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, LASER.laser!.width / 2);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    if (!LaserBeam.coreMaterial) {
+      LaserBeam.coreMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffffff,
+        transparent: true,
+        opacity: 0.95,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      });
+    }
+    if (!LaserBeam.glowMaterial) {
+      LaserBeam.glowMaterial = new THREE.MeshBasicMaterial({
+        color: LASER.color,
+        transparent: true,
+        opacity: 0.45,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      });
+    }
+
+    // Unit strip running from the origin along +Y, stretched to the beam length
+    const geometry = new THREE.PlaneGeometry(1, 1);
+    geometry.translate(0, 0.5, 0);
+
+    const group = new THREE.Group();
+    this.glow = new THREE.Mesh(geometry, LaserBeam.glowMaterial);
+    this.core = new THREE.Mesh(geometry, LaserBeam.coreMaterial);
+    group.add(this.glow);
+    group.add(this.core);
+
+    this.updateVisualEffects();
+    return group;
+  }
+
+  protected onUpdate(_dt: number): void {
+    this.updateVisualEffects();
+  }
+
+  private updateVisualEffects(): void {
+    if (!this.core || !this.glow) return;
+
+    const width = LASER.laser!.width;
+    const flicker = 1 + Math.sin(this.age * 60) * 0.15;
+    const length = Math.max(this.length, 0.01);
+
+    this.core.scale.set(width * 0.4, length, 1);
+    this.glow.scale.set(width * 2 * flicker, length, 1);
+  }
+
+  /**
+   * Point the beam
+   * @param x Origin X (the ship's nose)
+   * @param y Origin Y
+   * @param angle Direction (radians, 0 = +Y)
+   * @param length Distance to the first thing it hits, or its full range
+   */
+  public aim(x: number, y: number, angle: number, length: number): void {
+    this.position.set(x, y, 0);
+    this.velocity.set(0, 0, 0);
+    this.rotation = angle;
+    this.length = length;
+  }
+
+  /**
+   * Advance the pulse clock
+   * @param dt Delta time in seconds
+   * @returns True when a damage pulse is due
+   */
+  public tickPulse(dt: number): boolean {
+    this.pulseTimer -= dt;
+    if (this.pulseTimer > 0) return false;
+
+    this.pulseTimer += LASER.laser!.pulseInterval;
+    return true;
+  }
+
+  public serialize(): LaserBeamSnapshot {
+    return {
+      ...super.serialize(),
+      length: this.length,
+      pulseTimer: this.pulseTimer
+    };
+  }
+
+  public restore(snapshot: LaserBeamSnapshot): void {
+    super.restore(snapshot);
+    this.length = snapshot.length;
+    this.pulseTimer = snapshot.pulseTimer;
+  }
+
+  protected onSpawn(): void {
+    // First pulse lands as soon as the beam touches something
+    this.pulseTimer = 0;
+  }
+
+  protected onDespawn(): void {
+    this.owner = null;
+  }
+
+  protected onReset(): void {
+    this.length = 0;
+    this.owner = null;
+    this.pulseTimer = 0;
+  }
+}
+
+EntityRegistry.register({
+  key: 'beams',
+  poolSize: POOL_SIZES.beams,
+  updateOrder: 6, // After the ship it's fixed to
+  timeGroup: 'player',
+  create: () => new LaserBeam()
+});
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { POOL_SIZES } from '../constants/gameConstants';
+import { WEAPON_DEFINITIONS } from '../data/weaponDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    mines: Mine[];
+  }
+}
+
+export interface MineSnapshot extends EntitySnapshot {
+  damage: number;
+  lifetime: number;
+  armTime: number;
+}
+
+const MINE = WEAPON_DEFINITIONS.mine;
+
+// Velocity kept per second as a dropped mine drifts to a stop
+const DRIFT_DRAG = 0.3;
+
+/**
+ * Proximity mine dropped behind the ship
+ * Drifts to a stop, arms after a short delay and blinks faster once armed.
+ * WeaponSystem sets it off when something comes close or it runs out of time.
+ */
+export class Mine extends BaseEntity {
+  public damage: number = MINE.damage;
+  public lifetime: number = MINE.mine!.lifetime;
+  private armTime: number = MINE.mine!.armTime;
+
+  // Visual components
+  private light?: THREE.Mesh;
+
+  // Static material for performance
+  private static shellMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, 0.8);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    if (!Mine.shellMaterial) {
+      Mine.shellMaterial = new THREE.MeshBasicMaterial({ color: 0x555a66 });
+    }
+
+    const group = new THREE.Group();
+    group.add(new THREE.Mesh(new THREE.OctahedronGeometry(0.8, 0), Mine.shellMaterial));
+
+    // Own material: the light blinks per mine
+    this.light = new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 8, 8),
+      new THREE.MeshBasicMaterial({
+        color: MINE.color,
+        transparent: true,
+        opacity: 0.3,
+        blending: THREE.AdditiveBlending
+      })
+    );
+    this.light.position.z = 0.5;
+    group.add(this.light);
+
+    return group;
+  }
+
+  protected onUpdate(dt: number): void {
+    this.armTime = Math.max(0, this.armTime - dt);
+    this.lifetime -= dt;
+
+    this.velocity.multiplyScalar(Math.pow(DRIFT_DRAG, dt));
+    this.rotation += dt;
+
+    this.updateVisualEffects();
+  }
+
+  private updateVisualEffects(): void {
+    if (!this.light) return;
+
+    // Slow blink while arming, fast once live
+    const rate = this.isArmed() ? 10 : 3;
+    const material = this.light.material as THREE.MeshBasicMaterial;
+    material.opacity = Math.sin(this.age * rate) > 0 ? 1 : 0.25;
+  }
+
+  /**
+   * Lay the mine
+   * @param vx Drift velocity X
+   * @param vy Drift velocity Y
+   * @param damage Blast damage
+   */
+  public drop(vx: number, vy: number, damage: number): void {
+    this.velocity.set(vx, vy, 0);
+    this.damage = damage;
+  }
+
+  public isArmed(): boolean {
+    return this.armTime <= 0;
+  }
+
+  public isExpired(): boolean {
+    return this.lifetime <= 0;
+  }
+
+  public serialize(): MineSnapshot {
+    return {
+      ...super.serialize(),
+      damage: this.damage,
+      lifetime: this.lifetime,
+      armTime: this.armTime
+    };
+  }
+
+  public restore(snapshot: MineSnapshot): void {
+    super.restore(snapshot);
+    this.damage = snapshot.damage;
+    this.lifetime = snapshot.lifetime;
+    this.armTime = snapshot.armTime;
+  }
+
+  protected onSpawn(): void {
+    this.lifetime = MINE.mine!.lifetime;
+    this.armTime = MINE.mine!.armTime;
+  }
+
+  protected onDespawn(): void {
+    // Nothing to release
+  }
+
+  protected onReset(): void {
+    this.damage = MINE.damage;
+    this.lifetime = MINE.mine!.lifetime;
+    this.armTime = MINE.mine!.armTime;
+  }
+}
+
+EntityRegistry.register({
+  key: 'mines',
+  poolSize: POOL_SIZES.mines,
+  updateOrder: 22,
+  timeGroup: 'projectiles',
+  create: () => new Mine()
+});
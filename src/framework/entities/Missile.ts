@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
+import { POOL_SIZES } from '../constants/gameConstants';
+import { WEAPON_DEFINITIONS } from '../data/weaponDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    missiles: Missile[];
+  }
+}
+
+export interface MissileSnapshot extends EntitySnapshot {
+  damage: number;
+  lifetime: number;
+}
+
+const MISSILE = WEAPON_DEFINITIONS.missile;
+
+// Seconds between smoke puffs
+const TRAIL_INTERVAL = 0.05;
+
+/**
+ * Seeker missile that turns toward its target at a limited rate
+ * WeaponSystem picks the target and handles hits; without a target (or
+ * once it is gone) the missile flies straight until it burns out.
+ */
+export class Missile extends BaseEntity {
+  public damage: number = MISSILE.damage;
+  public lifetime: number = MISSILE.missile!.lifetime;
+  public target: BaseEntity | null = null; // Not saved; WeaponSystem re-acquires
+  public owner: BaseEntity | null = null;  // Not saved
+  private trailTimer: number = 0;
+
+  // Static materials for performance
+  private static bodyMaterial?: THREE.MeshBasicMaterial;
+  private static flameMaterial?: THREE.MeshBasicMaterial;
+
+  constructor(x = 0, y = 0) {
+    super(x, y, 0, 0, 0.6);
+  }
+
+  protected createMesh(): THREE.Object3D {
+    if (!Missile.bodyMaterial) {
+      Missile.bodyMaterial = new THREE.MeshBasicMaterial({ color: 0xf0f0f0 });
+    }
+    if (!Missile.flameMaterial) {
+      Missile.flameMaterial = new THREE.MeshBasicMaterial({
+        color: MISSILE.color,
+        transparent: true,
+        opacity: 0.9,
+        blending: THREE.AdditiveBlending
+      });
+    }
+
+    const group = new THREE.Group();
+
+    // Nose points +Y like the ship
+    const body = new THREE.Mesh(new THREE.ConeGeometry(0.3, 1.4, 6), Missile.bodyMaterial);
+    group.add(body);
+
+    const flame = new THREE.Mesh(new THREE.ConeGeometry(0.22, 0.7, 6), Missile.flameMaterial);
+    flame.rotation.z = Math.PI;
+    flame.position.set(0, -1.0, 0);
+    group.add(flame);
+
+    return group;
+  }
+
+  protected onUpdate(dt: number): void {
+    this.lifetime -= dt;
+    if (this.lifetime <= 0) {
+      this.despawn();
+      return;
+    }
+
+    this.trailTimer -= dt;
+
+    const { speed, turnRate } = MISSILE.missile!;
+
+    // Turn toward the target, no faster than the turn rate
+    if (this.target?.active) {
+      const desired = Math.atan2(
+        this.target.position.x - this.position.x,
+        this.target.position.y - this.position.y
+      );
+      let diff = desired - this.rotation;
+      while (diff > Math.PI) diff -= Math.PI * 2;
+      while (diff < -Math.PI) diff += Math.PI * 2;
+
+      const maxTurn = turnRate * dt;
+      this.rotation += Math.max(-maxTurn, Math.min(maxTurn, diff));
+    } else {
+      this.target = null;
+    }
+
+    this.velocity.set(Math.sin(this.rotation) * speed, Math.cos(this.rotation) * speed, 0);
+  }
+
+  /**
+   * Send the missile off
+   * @param angle Launch direction (radians, 0 = +Y)
+   * @param damage Damage on impact
+   * @param owner Entity that fired it
+   */
+  public launch(angle: number, damage: number, owner: BaseEntity): void {
+    const speed = MISSILE.missile!.speed;
+    this.rotation = angle;
+    this.velocity.set(Math.sin(angle) * speed, Math.cos(angle) * speed, 0);
+    this.damage = damage;
+    this.owner = owner;
+    this.resetInterpolation();
+  }
+
+  /**
+   * Check whether a smoke puff is due (and start the next one's timer)
+   */
+  public takeTrailPuff(): boolean {
+    if (this.trailTimer > 0) return false;
+    this.trailTimer = TRAIL_INTERVAL;
+    return true;
+  }
+
+  public serialize(): MissileSnapshot {
+    return {
+      ...super.serialize(),
+      damage: this.damage,
+      lifetime: this.lifetime
+    };
+  }
+
+  public restore(snapshot: MissileSnapshot): void {
+    super.restore(snapshot);
+    this.damage = snapshot.damage;
+    this.lifetime = snapshot.lifetime;
+  }
+
+  protected onSpawn(): void {
+    this.lifetime = MISSILE.missile!.lifetime;
+    this.trailTimer = 0;
+  }
+
+  protected onDespawn(): void {
+    this.target = null;
+    this.owner = null;
+  }
+
+  protected onReset(): void {
+    this.damage = MISSILE.damage;
+    this.lifetime = MISSILE.missile!.lifetime;
+    this.target = null;
+    this.owner = null;
+    this.trailTimer = 0;
+  }
+}
+
+EntityRegistry.register({
+  key: 'missiles',
+  poolSize: POOL_SIZES.missiles,
+  updateOrder: 21, // With the other player projectiles
+  timeGroup: 'projectiles',
+  create: () => new Missile()
+});
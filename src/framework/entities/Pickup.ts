@@ -1,7 +1,19 @@
 import * as THREE from 'three';
-import { BaseEntity } from './BaseEntity';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
 import { Ship } from './Ship';
 import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { RandomStream } from '../systems/RandomSystem';
+import { EntityRegistry } from '../systems/EntityRegistry';
+import { POOL_SIZES } from '../constants/gameConstants';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    pickups: Pickup[];
+  }
+  interface EntityVariants {
+    pickups: PickupType;
+  }
+}
 
 export type PickupType = 'salvage' | 'gold' | 'platinum' | 'adamantium' | 'health' | 'shield' | 'rapidfire' | 'pierce' | 'damage';
 
@@ -13,6 +25,13 @@ export interface PickupProperties {
   lifetime: number;
 }
 
+export interface PickupSnapshot extends EntitySnapshot {
+  pickupType: PickupType;
+  remainingLifetime: number;
+  rotationAngle: number;
+  pulsePhase: number;
+}
+
 /**
  * Pickup entity with different types and magnetic attraction
  * Provides resources, health, and temporary power-ups
@@ -61,7 +80,7 @@ export class Pickup extends BaseEntity {
       lifetime: 8.0
     },
     shield: {
-      value: 50,
+      value: 1, // Shield charges
       color: 0x4488ff, // Blue
       magnetRange: 70,
       lifetime: 8.0
@@ -94,6 +113,8 @@ export class Pickup extends BaseEntity {
   private pulsePhase: number = 0;
   private beingMagnetized: boolean = false;
   private magnetTarget?: Ship;
+  private rng: RandomStream;
+  private vfx: RandomStream; // Pulse phase rolls
 
   // Visual components
   private pickupMesh?: THREE.Mesh;
@@ -103,9 +124,11 @@ export class Pickup extends BaseEntity {
   private static materials: Map<PickupType, THREE.MeshBasicMaterial> = new Map();
   private static glowMaterials: Map<PickupType, THREE.MeshBasicMaterial> = new Map();
 
-  constructor(type: PickupType, x = 0, y = 0) {
+  constructor(type: PickupType, x = 0, y = 0, rng: RandomStream = RandomStream.fallback(), vfx: RandomStream = RandomStream.fallback()) {
     super(x, y, 0, 0, Pickup.PICKUP_CONSTANTS.radius);
     
+    this.rng = rng;
+    this.vfx = vfx;
     this.pickupType = type;
     this.properties = {
       type,
@@ -113,16 +136,10 @@ export class Pickup extends BaseEntity {
     };
     
     this.remainingLifetime = this.properties.lifetime;
-    this.pulsePhase = Math.random() * Math.PI * 2; // Random phase for variety
+    this.pulsePhase = vfx.angle(); // Random phase for variety
     
     // Set small random drift velocity
-    this.velocity.set(
-      (Math.random() - 0.5) * 10,
-      (Math.random() - 0.5) * 10,
-      0
-    );
-    
-    this.mesh = this.createMesh();
+    this.velocity.set(rng.range(-5, 5), rng.range(-5, 5), 0);
   }
 
   protected createMesh(): THREE.Object3D {
@@ -411,29 +428,20 @@ export class Pickup extends BaseEntity {
         return true;
         
       case 'health':
-        // Restore health (would integrate with health system)
-        console.log(`Restored ${this.properties.value} health`);
+        // Repair hull
+        ship.heal(this.properties.value);
         return true;
         
       case 'shield':
-        // Restore shield (would integrate with shield system)
-        ship.setInvulnerable(this.properties.value / 10); // Convert to seconds
-        console.log(`Shield recharged for ${this.properties.value}%`);
+        // Add shield charges, same as a Shield Charge upgrade
+        ship.addShields(this.properties.value);
         return true;
         
       case 'rapidfire':
-        // Temporary rapid fire (would need weapon system integration)
-        console.log(`Rapid fire for ${this.properties.value} seconds`);
-        return true;
-        
       case 'pierce':
-        // Temporary piercing shots
-        console.log(`Piercing shots for ${this.properties.value} seconds`);
-        return true;
-        
       case 'damage':
-        // Temporary damage boost
-        console.log(`Damage boost for ${this.properties.value} seconds`);
+        // Timed power-up; the value is its duration in seconds
+        ship.effects.apply(this.pickupType, this.properties.value);
         return true;
         
       default:
@@ -473,31 +481,50 @@ export class Pickup extends BaseEntity {
    * Create a random pickup
    * @param x Spawn X position
    * @param y Spawn Y position
+   * @param rng Random stream for the type roll and drift
+   * @param vfx Random stream for the pulse phase
    * @returns Random pickup instance
    */
-  public static createRandom(x: number, y: number): Pickup {
+  public static createRandom(x: number, y: number, rng: RandomStream = RandomStream.fallback(), vfx: RandomStream = RandomStream.fallback()): Pickup {
     const types: PickupType[] = ['salvage', 'gold', 'platinum', 'adamantium', 'health', 'shield', 'rapidfire', 'pierce', 'damage'];
     const weights = [30, 25, 15, 8, 12, 6, 3, 1, 1]; // Weighted probability - currencies more common
     
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = rng.next() * totalWeight;
     
     for (let i = 0; i < types.length; i++) {
       random -= weights[i];
       if (random <= 0) {
-        return new Pickup(types[i], x, y);
+        return new Pickup(types[i], x, y, rng, vfx);
       }
     }
     
     // Fallback
-    return new Pickup('salvage', x, y);
+    return new Pickup('salvage', x, y, rng, vfx);
+  }
+
+  public serialize(): PickupSnapshot {
+    return {
+      ...super.serialize(),
+      pickupType: this.pickupType,
+      remainingLifetime: this.remainingLifetime,
+      rotationAngle: this.rotationAngle,
+      pulsePhase: this.pulsePhase
+    };
+  }
+
+  public restore(snapshot: PickupSnapshot): void {
+    super.restore(snapshot);
+    this.remainingLifetime = snapshot.remainingLifetime;
+    this.rotationAngle = snapshot.rotationAngle;
+    this.pulsePhase = snapshot.pulsePhase;
   }
 
   protected onSpawn(): void {
     // Reset pickup state when spawned
     this.remainingLifetime = this.properties.lifetime;
     this.rotationAngle = 0;
-    this.pulsePhase = Math.random() * Math.PI * 2;
+    this.pulsePhase = this.vfx.angle();
     this.beingMagnetized = false;
   }
 
@@ -511,15 +538,34 @@ export class Pickup extends BaseEntity {
     // Reset pickup to initial state  
     this.remainingLifetime = this.properties.lifetime;
     this.rotationAngle = 0;
-    this.pulsePhase = Math.random() * Math.PI * 2;
+    this.pulsePhase = this.vfx.angle();
     this.beingMagnetized = false;
     this.magnetTarget = undefined;
     
     // Reset velocity
-    this.velocity.set(
-      (Math.random() - 0.5) * 10,
-      (Math.random() - 0.5) * 10,
-      0
-    );
+    this.velocity.set(this.rng.range(-5, 5), this.rng.range(-5, 5), 0);
   }
-}
\ No newline at end of file
+}
+
+EntityRegistry.register({
+  key: 'pickups',
+  poolSize: POOL_SIZES.pickups,
+  updateOrder: 40,
+  create: (manager, index, type) => {
+    const pickupType: PickupType = type ?? (index % 6 === 0 ? 'salvage' :
+                                            index % 6 === 1 ? 'health' :
+                                            index % 6 === 2 ? 'shield' :
+                                            index % 6 === 3 ? 'rapidfire' :
+                                            index % 6 === 4 ? 'pierce' : 'damage');
+    return new Pickup(pickupType, 0, 0, manager.getRandom().stream('pickups'), manager.getRandom().stream('vfx'));
+  },
+  variantOf: pickup => pickup.pickupType,
+  // Drift toward the player's ship
+  setup: (manager, pickup) => {
+    const ship = manager.entities.ships[0];
+    if (ship) {
+      pickup.setMagnetTarget(ship);
+    }
+  },
+  spawnFromSnapshot: (manager, s) => manager.spawn('pickups', s.x, s.y, s.pickupType)
+});
@@ -1,7 +1,30 @@
 import * as THREE from 'three';
-import { BaseEntity } from './BaseEntity';
+import { BaseEntity, EntitySnapshot } from './BaseEntity';
 import { Bullet } from './Bullet';
-import { PLAYER } from '../constants/gameConstants';
+import { StatusEffects, ActiveStatusEffect } from '../systems/StatusEffects';
+import { Weapon, ShotSpec } from '../systems/Weapon';
+import { PLAYER, HULL, WEAPON, MATERIAL_COLORS, POOL_SIZES } from '../constants/gameConstants';
+import type { WeaponType } from '../data/weaponDefinitions';
+import { EntityRegistry } from '../systems/EntityRegistry';
+
+declare module '../systems/EntityManager' {
+  interface EntityCollections {
+    ships: Ship[];
+  }
+}
+
+export interface ShipSnapshot extends EntitySnapshot {
+  targetRotation: number;
+  thrusting: boolean;
+  thrustingReverse: boolean;
+  invulnTime: number;
+  shotTimer: number; // Weapon cooldown
+  hull?: number; // Missing in saves from before hull damage
+  shields?: number;
+  effects?: ActiveStatusEffect[];
+  weapon?: WeaponType; // Equipped archetype (blaster in older saves)
+  charge?: number;     // Charge cannon hold time
+}
 
 /**
  * Player ship entity with movement, rotation, and visual effects
@@ -14,20 +37,32 @@ export class Ship extends BaseEntity {
   private thrustingReverse: boolean = false;
   private invulnerable: boolean = false;
   private invulnTime: number = 0;
+  private hull: number = HULL.max;
+  private readonly maxHull: number = HULL.max;
+  private shields: number = 0;
+
+  // Timed power-ups (rapid fire, piercing rounds, overcharge)
+  public readonly effects = new StatusEffects();
+
+  // Weapon slot: equipped archetype, trigger and the run mods that shape it
+  public readonly weapon = new Weapon();
 
   // Visual components
   private shipMesh?: THREE.Mesh;
   private shieldMesh?: THREE.Mesh;
+  private shieldCharges?: THREE.Group;
+  private displayedShields: number = 0;
   private boostFlames: THREE.Mesh[] = [];
 
   // Materials
   private static shipMaterial?: THREE.MeshBasicMaterial;
   private static shieldMaterial?: THREE.MeshBasicMaterial;
+  private static shieldChargeMaterial?: THREE.MeshBasicMaterial;
+  private static readonly MAX_SHIELD_SEGMENTS = 8;
   private static flameMaterial?: THREE.MeshBasicMaterial;
 
   constructor(x = 0, y = 0) {
     super(x, y, 0, 0, PLAYER.radius);
-    this.mesh = this.createMesh();
   }
 
   protected createMesh(): THREE.Object3D {
@@ -96,6 +131,40 @@ export class Ship extends BaseEntity {
     this.shieldMesh = new THREE.Mesh(shieldGeometry, Ship.shieldMaterial);
     
     group.add(this.shieldMesh);
+    
+    // Charge ring: one arc per shield charge, rebuilt when the count changes
+    if (!Ship.shieldChargeMaterial) {
+      Ship.shieldChargeMaterial = new THREE.MeshBasicMaterial({
+        color: MATERIAL_COLORS.shield,
+        transparent: true,
+        opacity: 0.7,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+      });
+    }
+    
+    this.shieldCharges = new THREE.Group();
+    this.displayedShields = 0;
+    group.add(this.shieldCharges);
+  }
+  
+  private updateShieldCharges(): void {
+    if (!this.shieldCharges || this.displayedShields === this.shields) return;
+    this.displayedShields = this.shields;
+    
+    for (const segment of [...this.shieldCharges.children] as THREE.Mesh[]) {
+      this.shieldCharges.remove(segment);
+      segment.geometry.dispose();
+    }
+    
+    const count = Math.min(this.shields, Ship.MAX_SHIELD_SEGMENTS);
+    const arc = (Math.PI * 2) / Math.max(1, count);
+    const gap = count > 1 ? 0.25 : 0;
+    
+    for (let i = 0; i < count; i++) {
+      const geometry = new THREE.RingGeometry(3.4, 3.8, 12, 1, i * arc + gap / 2, arc - gap);
+      this.shieldCharges.add(new THREE.Mesh(geometry, Ship.shieldChargeMaterial));
+    }
   }
 
   private createBoostFlames(group: THREE.Group): void {
@@ -140,35 +209,38 @@ export class Ship extends BaseEntity {
       }
     }
 
+    // Weapon cooldown runs on simulation time
+    this.weapon.update(dt);
+
     // Ship rotation - smoothly rotate to target angle
     this.updateRotation(dt);
 
+    const { speed: speedMultiplier } = this.effects.getModifiers();
+
     // Apply thrust (forward or reverse)
     if (this.thrusting || this.thrustingReverse) {
       const dir = this.thrusting ? 1.0 : -0.65; // reverse uses opposite sign
-      const thrustX = Math.sin(this.rotation) * PLAYER.accel * dir * dt;
-      const thrustY = Math.cos(this.rotation) * PLAYER.accel * dir * dt;
+      const accel = PLAYER.accel * speedMultiplier;
+      const thrustX = Math.sin(this.rotation) * accel * dir * dt;
+      const thrustY = Math.cos(this.rotation) * accel * dir * dt;
       this.velocity.x += thrustX;
       this.velocity.y += thrustY;
     }
 
-    // Apply friction
-    this.velocity.x *= PLAYER.friction;
-    this.velocity.y *= PLAYER.friction;
+    // Apply friction (tuned per 60 Hz frame, scaled to the tick length)
+    const friction = Math.pow(PLAYER.friction, dt * 60);
+    this.velocity.x *= friction;
+    this.velocity.y *= friction;
 
     // Limit maximum speed
     const speed = this.velocity.length();
-    if (speed > PLAYER.maxSpeed) {
-      this.velocity.normalize().multiplyScalar(PLAYER.maxSpeed);
+    const maxSpeed = PLAYER.maxSpeed * speedMultiplier;
+    if (speed > maxSpeed) {
+      this.velocity.normalize().multiplyScalar(maxSpeed);
     }
 
     // Update visual effects
     this.updateVisualEffects(dt);
-    
-    // Update mesh rotation to match entity rotation
-    if (this.mesh) {
-      this.mesh.rotation.z = this.rotation;
-    }
   }
 
   private updateRotation(dt: number): void {
@@ -205,6 +277,8 @@ export class Ship extends BaseEntity {
       const material = this.shieldMesh.material as THREE.MeshBasicMaterial;
       material.opacity += (targetOpacity - material.opacity) * 0.2;
     }
+    
+    this.updateShieldCharges();
   }
 
   /**
@@ -240,35 +314,76 @@ export class Ship extends BaseEntity {
     this.targetRotation += direction * PLAYER.turn;
   }
   
-  // Shooting properties
-  private lastShotTime: number = 0;
-  private readonly shotCooldown: number = 0.2; // 200ms between shots
-  
   /**
    * Check if ship can shoot
    */
   public canShoot(): boolean {
-    const now = performance.now() / 1000;
-    return now - this.lastShotTime >= this.shotCooldown;
+    return this.weapon.canFire();
+  }
+  
+  /**
+   * Hold or release the trigger; WeaponSystem fires whatever is equipped
+   * @param held True while the fire input is down
+   */
+  public setTrigger(held: boolean): void {
+    this.weapon.setTrigger(held);
+  }
+  
+  /**
+   * Point just ahead of the nose that shots leave from
+   * @param offset Sideways distance (positive = right of the nose)
+   * @param distance Distance ahead of the ship (negative = behind it)
+   */
+  public getMuzzlePosition(offset: number = 0, distance: number = WEAPON.muzzleOffset): { x: number; y: number } {
+    const forwardX = Math.sin(this.rotation);
+    const forwardY = Math.cos(this.rotation);
+    
+    // Right of the nose is the forward vector turned a quarter clockwise
+    return {
+      x: this.position.x + forwardX * distance + forwardY * offset,
+      y: this.position.y + forwardY * distance - forwardX * offset
+    };
   }
   
   /**
-   * Shoot a bullet from the ship's position
+   * Fire a blaster volley from the ship's nose, shaped by the weapon mods and
+   * boosted by any active power-ups
+   * @returns Bullets to add to the world (empty while the gun cools down, or
+   * when another archetype is equipped)
    */
-  public shoot(): Bullet | null {
-    if (!this.canShoot()) return null;
+  public shoot(): Bullet[] {
+    if (this.weapon.getType() !== 'blaster') return [];
     
-    this.lastShotTime = performance.now() / 1000;
+    const modifiers = this.effects.getModifiers();
+    const inflicts = this.effects.getInflicted();
+    
+    // Use entity rotation, not mesh rotation
+    return this.weapon.fire(this.rotation, modifiers).map(shot => {
+      const bullet = this.createBullet(shot);
+      bullet.inflicts = [...inflicts];
+      return bullet;
+    });
+  }
+
+  /**
+   * Build one bullet of a volley
+   * @param shot Angle, barrel offset and payload from the weapon
+   */
+  private createBullet(shot: ShotSpec): Bullet {
+    const { x, y } = this.getMuzzlePosition(shot.offset);
     
-    // Create actual Bullet entity
-    const angle = this.rotation; // Use entity rotation, not mesh rotation
     const bullet = new Bullet(
-      this.position.x,
-      this.position.y,
-      angle,
-      this.velocity.x * 0.1, // Inherit some ship velocity
-      this.velocity.y * 0.1
+      x,
+      y,
+      shot.angle,
+      this.velocity.x * WEAPON.inheritVelocity, // Inherit some ship velocity
+      this.velocity.y * WEAPON.inheritVelocity
     );
+    bullet.setFaction('player', this);
+    bullet.damage = shot.damage;
+    bullet.pierce = shot.pierce;
+    bullet.ricochet = shot.ricochet;
+    bullet.explosive = shot.explosive;
     
     return bullet;
   }
@@ -289,6 +404,54 @@ export class Ship extends BaseEntity {
     return this.invulnerable;
   }
 
+  /**
+   * Apply hull damage
+   * @param amount Hull points to remove
+   * @returns True if the hull is destroyed
+   */
+  public takeDamage(amount: number): boolean {
+    this.hull = Math.max(0, this.hull - amount);
+    return this.hull <= 0;
+  }
+
+  /**
+   * Repair the hull (capped at max hull)
+   * @param amount Hull points to restore
+   */
+  public heal(amount: number): void {
+    this.hull = Math.min(this.maxHull, this.hull + amount);
+  }
+
+  public getHull(): number {
+    return this.hull;
+  }
+
+  public getMaxHull(): number {
+    return this.maxHull;
+  }
+
+  /**
+   * Add shield charges (each one absorbs a whole hit)
+   * @param count Charges to add
+   */
+  public addShields(count: number): void {
+    this.shields += count;
+  }
+
+  /**
+   * Spend a shield charge to absorb a hit
+   * @returns True if a charge absorbed the hit
+   */
+  public consumeShield(): boolean {
+    if (this.shields <= 0) return false;
+    this.shields--;
+    return true;
+  }
+
+  public getShields(): number {
+    return this.shields;
+  }
+
   /**
    * Get current thrust state
    */
@@ -296,11 +459,44 @@ export class Ship extends BaseEntity {
     return this.thrusting;
   }
 
+  public serialize(): ShipSnapshot {
+    return {
+      ...super.serialize(),
+      targetRotation: this.targetRotation,
+      thrusting: this.thrusting,
+      thrustingReverse: this.thrustingReverse,
+      invulnTime: this.invulnerable ? this.invulnTime : 0,
+      shotTimer: this.weapon.getCooldown(),
+      hull: this.hull,
+      shields: this.shields,
+      effects: this.effects.serialize(),
+      weapon: this.weapon.getType(),
+      charge: this.weapon.getChargeTime()
+    };
+  }
+
+  public restore(snapshot: ShipSnapshot): void {
+    super.restore(snapshot);
+    this.targetRotation = snapshot.targetRotation;
+    this.thrusting = snapshot.thrusting;
+    this.thrustingReverse = snapshot.thrustingReverse;
+    this.invulnerable = snapshot.invulnTime > 0;
+    this.invulnTime = snapshot.invulnTime;
+    this.weapon.setCooldown(snapshot.shotTimer);
+    this.hull = snapshot.hull ?? this.maxHull;
+    this.shields = snapshot.shields ?? 0;
+    this.effects.restore(snapshot.effects);
+    this.weapon.setType(snapshot.weapon ?? 'blaster');
+    this.weapon.setChargeTime(snapshot.charge ?? 0);
+  }
+
   protected onSpawn(): void {
     // Reset ship state when spawned
     this.invulnerable = false;
     this.invulnTime = 0;
     this.thrusting = false;
+    this.hull = this.maxHull;
+    this.effects.clear();
   }
 
   protected onDespawn(): void {
@@ -315,5 +511,17 @@ export class Ship extends BaseEntity {
     this.thrustingReverse = false;
     this.invulnerable = false;
     this.invulnTime = 0;
+    this.weapon.reset();
+    this.hull = this.maxHull;
+    this.shields = 0;
+    this.effects.clear();
   }
-}
\ No newline at end of file
+}
+
+EntityRegistry.register({
+  key: 'ships',
+  poolSize: POOL_SIZES.ships,
+  updateOrder: 0,
+  timeGroup: 'player',
+  create: () => new Ship()
+});
@@ -1,10 +1,17 @@
 // Entity exports for clean imports
-export { BaseEntity } from './BaseEntity';
-export { Ship } from './Ship';
-export { Asteroid, type AsteroidSize } from './Asteroid';
-export { Bullet } from './Bullet';
-export { Enemy, type EnemyType, type EnemyState } from './Enemy';
-export { Pickup, type PickupType, type PickupProperties } from './Pickup';
+export { BaseEntity, type EntitySnapshot } from './BaseEntity';
+export { Ship, type ShipSnapshot } from './Ship';
+export { Asteroid, type AsteroidSize, type AsteroidSnapshot } from './Asteroid';
+export { Bullet, type BulletSnapshot, type BulletFaction } from './Bullet';
+export { Enemy, type EnemyType, type EnemyState, type EnemySnapshot, type EnemyFireHandler } from './Enemy';
+export { Pickup, type PickupType, type PickupProperties, type PickupSnapshot } from './Pickup';
+export { Drone, type DroneSnapshot } from './Drone';
+export { Beacon, type BeaconSnapshot } from './Beacon';
+export { Boss, type BossPhase, type BossPattern, type BossStatus, type BossSnapshot, type BossFireHandler } from './Boss';
+export { LaserBeam, type LaserBeamSnapshot } from './LaserBeam';
+export { Missile, type MissileSnapshot } from './Missile';
+export { Mine, type MineSnapshot } from './Mine';
+export { ChargeShot, type ChargeShotSnapshot } from './ChargeShot';
 
 // Re-export types for convenience
 export type { BaseEntity as Entity } from './BaseEntity';
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { SIMULATION } from '../constants/gameConstants';
+
+export interface FixedTimestepConfig {
+  fixedStep?: number;   // Seconds per simulation tick
+  maxSubSteps?: number; // Max ticks run for a single frame before dropping time
+}
+
+/**
+ * Accumulator that turns variable frame times into fixed simulation ticks
+ * Keeps physics, timers and wave pacing identical at any display refresh rate
+ */
+export class FixedTimestep {
+  private fixedStep: number;
+  private maxSubSteps: number;
+  private accumulator: number = 0;
+  private alpha: number = 0;
+  private tickCount: number = 0;
+
+  constructor(config: FixedTimestepConfig = {}) {
+    this.fixedStep = config.fixedStep ?? SIMULATION.fixedStep;
+    this.maxSubSteps = config.maxSubSteps ?? SIMULATION.maxSubSteps;
+  }
+
+  /**
+   * Advance by one rendered frame, running as many fixed ticks as fit
+   * @param frameDt Real frame time in seconds
+   * @param step Simulation callback, always called with the fixed step
+   * @returns Interpolation factor (0-1) between the last two ticks
+   */
+  public advance(frameDt: number, step: (dt: number) => void): number {
+    this.accumulator += Math.min(Math.max(frameDt, 0), SIMULATION.maxFrameTime);
+
+    let steps = 0;
+    while (this.accumulator >= this.fixedStep && steps < this.maxSubSteps) {
+      step(this.fixedStep);
+      this.accumulator -= this.fixedStep;
+      this.tickCount++;
+      steps++;
+    }
+
+    // Too far behind - drop the backlog instead of spiralling
+    if (steps >= this.maxSubSteps && this.accumulator >= this.fixedStep) {
+      this.accumulator = this.accumulator % this.fixedStep;
+    }
+
+    this.alpha = this.accumulator / this.fixedStep;
+    return this.alpha;
+  }
+
+  /**
+   * Clear leftover time (e.g. when resuming from pause)
+   */
+  public reset(): void {
+    this.accumulator = 0;
+    this.alpha = 0;
+  }
+
+  public getAlpha(): number {
+    return this.alpha;
+  }
+
+  public getFixedStep(): number {
+    return this.fixedStep;
+  }
+
+  public setFixedStep(fixedStep: number): void {
+    this.fixedStep = fixedStep;
+  }
+
+  public getMaxSubSteps(): number {
+    return this.maxSubSteps;
+  }
+
+  public setMaxSubSteps(maxSubSteps: number): void {
+    this.maxSubSteps = maxSubSteps;
+  }
+
+  /**
+   * Total number of simulation ticks run so far
+   */
+  public getTickCount(): number {
+    return this.tickCount;
+  }
+}
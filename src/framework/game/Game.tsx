@@ -9,9 +9,65 @@ import { DebrisSystem } from '../systems/DebrisSystem';
 import { CollisionSystem } from '../systems/CollisionSystem';
 import { ScoringSystem } from '../systems/ScoringSystem';
 import { WaveSystem } from '../systems/WaveSystem';
+import { LivesSystem } from '../systems/LivesSystem';
+import { DroneSystem } from '../systems/DroneSystem';
+import { BossSystem } from '../systems/BossSystem';
+import { StatusEffectSystem } from '../systems/StatusEffectSystem';
+import { Weapon, DEFAULT_WEAPON_MODS } from '../systems/Weapon';
+import { WeaponSystem } from '../systems/WeaponSystem';
+import { RandomSystem } from '../systems/RandomSystem';
+import { GameEventBus } from '../systems/GameEventBus';
+import { SIMULATION, TIME_SCALE, DRONE, BOSS, WEAPON, SpreadType, PierceType } from '../constants/gameConstants';
+import { GameLoop } from './GameLoop';
+import { SystemPipeline, registerGameplaySystems } from './SystemPipeline';
+import { ReplayRecorder, ReplayPlayer, ReplaySystem, ReplayData, InputFrame } from '../systems/ReplaySystem';
+import { SaveSystem, RunCurrencies, RunMods } from '../systems/SaveSystem';
 import { Ship } from '../entities/Ship';
+import { Asteroid } from '../entities/Asteroid';
+import { Enemy } from '../entities/Enemy';
+import { Boss, BossStatus } from '../entities/Boss';
 import { HUD, MainMenu, GameOver, PauseMenu } from '../ui';
 import { HangarScreen } from '../components/overlays/HangarScreen';
+import { ShopUpgrade } from '../components/cards/ShopCard';
+import { UPGRADE_DEFINITIONS, SHOP_COSTS } from '../data/upgradeDefinitions';
+import { getWeaponForUpgrade, getWeaponUpgrade, WeaponType } from '../data/weaponDefinitions';
+
+// Items always stocked in the hangar shop
+const HANGAR_STOCK: ShopUpgrade[] = [
+  { ...UPGRADE_DEFINITIONS.shieldCharge, cost: { ...SHOP_COSTS.common } },
+  { ...UPGRADE_DEFINITIONS.drone, cost: { ...SHOP_COSTS.uncommon } },
+  { ...UPGRADE_DEFINITIONS.fireRate, cost: { ...SHOP_COSTS.common } },
+  { ...UPGRADE_DEFINITIONS.spreadDouble, cost: { ...SHOP_COSTS.uncommon } },
+  { ...UPGRADE_DEFINITIONS.spreadTriple, cost: { ...SHOP_COSTS.rare } },
+  { ...UPGRADE_DEFINITIONS.pierceDouble, cost: { ...SHOP_COSTS.uncommon } },
+  { ...UPGRADE_DEFINITIONS.timeWarp, cost: { ...SHOP_COSTS.legendary } }
+];
+
+// Weapons for the ship's weapon slot (each is bought once, then swapped freely)
+const WEAPON_STOCK: ShopUpgrade[] = (['laser', 'missile', 'mine', 'charge'] as WeaponType[]).map(type => {
+  const upgrade = getWeaponUpgrade(type);
+  return { ...upgrade, cost: { ...SHOP_COSTS[upgrade.rarity] } };
+});
+
+// Weapon cards and the spread/pierce they grant (a better one already owned is kept)
+const SPREAD_UPGRADES: Record<string, SpreadType> = {
+  spreadDouble: 'twin',
+  spreadTriple: true,
+  spreadPenta: 'wide'
+};
+const PIERCE_UPGRADES: Record<string, PierceType> = {
+  pierceDouble: true,
+  pierceTriple: 'super',
+  pierceInfinite: 'ultra'
+};
+
+/**
+ * Put the run's weapon mods and equipped weapon on a ship
+ */
+const equipShip = (ship: Ship, mods: RunMods) => {
+  ship.weapon.setMods(mods);
+  ship.weapon.setType(mods.weapon ?? 'blaster');
+};
 
 /**
  * Complete Asteroids Game Component
@@ -26,33 +82,43 @@ export const Game: React.FC = () => {
   const [entityManager, setEntityManager] = useState<EntityManager | null>(null);
   
   // Currency tracking (temporary until integrated with main game state)
-  const [currencies, setCurrencies] = useState({
+  const [currencies, setCurrencies] = useState<RunCurrencies>({
     salvage: 0,
     gold: 0,
     platinum: 0,
     adamantium: 0
   });
   
+  // Upgrade mods (temporary until integrated with main game state)
+  const [mods, setMods] = useState<RunMods>({
+    fireRateMul: 1.0,
+    engineMul: 1.0,
+    spread: false,
+    pierce: false,
+    shields: 0,
+    ricochet: 0,
+    drones: 0
+  });
+  
+  // Whether a suspended run can be continued from the main menu
+  const [hasSavedRun, setHasSavedRun] = useState(() => SaveSystem.hasSave());
+  
   // Currency collection callback
-  const handleCurrencyCollected = useCallback((type: string, amount: number) => {
+  const handleCurrencyCollected = useCallback((type: keyof RunCurrencies, amount: number) => {
     setCurrencies(prev => ({
       ...prev,
-      [type]: (prev[type as keyof typeof prev] || 0) + amount
+      [type]: (prev[type] || 0) + amount
     }));
-    
-    // Also update pickup count in game stats
-    gameStateManager.updateStats({
-      pickupsCollected: gameStateManager.getStats().pickupsCollected + 1
-    });
-  }, [gameStateManager]);
+  }, []);
   
   const [audioManager, setAudioManager] = useState<AudioManager | null>(null);
-  const [particleSystem, setParticleSystem] = useState<ParticleSystem | null>(null);
   const [vfxManager, setVFXManager] = useState<VFXManager | null>(null);
   const [debrisSystem, setDebrisSystem] = useState<DebrisSystem | null>(null);
-  const [collisionSystem, setCollisionSystem] = useState<CollisionSystem | null>(null);
   const [scoringSystem, setScoringSystem] = useState<ScoringSystem | null>(null);
   const [waveSystem, setWaveSystem] = useState<WaveSystem | null>(null);
+  const [livesSystem, setLivesSystem] = useState<LivesSystem | null>(null);
+  const [droneSystem, setDroneSystem] = useState<DroneSystem | null>(null);
+  const [bossSystem, setBossSystem] = useState<BossSystem | null>(null);
   
   // Game state
   const [currentState, setCurrentState] = useState<GameState>('menu');
@@ -61,8 +127,20 @@ export const Game: React.FC = () => {
   const [isNewHighScore, setIsNewHighScore] = useState(false);
   const [systemsReady, setSystemsReady] = useState(false);
   
-  // Game entities
-  const [ship, setShip] = useState<Ship | null>(null);
+  // Boss health bar and intro banner
+  const [bossStatus, setBossStatus] = useState<BossStatus | null>(null);
+  const [bossBanner, setBossBanner] = useState<string | null>(null);
+  
+  // Player ship (a ref so respawns take effect on the very next tick)
+  const shipRef = useRef<Ship | null>(null);
+  const modsRef = useRef<RunMods>(mods); // Latest mods, for ships launched from event handlers
+  
+  // Change the run mods; the ref updates straight away so the hangar exit can
+  // equip them on the same tick in live play and in replays
+  const updateMods = useCallback((update: (prev: RunMods) => RunMods) => {
+    modsRef.current = update(modsRef.current);
+    setMods(modsRef.current);
+  }, []);
   
   // Input handling
   const keysPressed = useRef<Set<string>>(new Set());
@@ -74,11 +152,22 @@ export const Game: React.FC = () => {
   
   // Performance monitoring
   const [fps, setFps] = useState(60);
-  const fpsCounter = useRef({ frames: 0, lastTime: 0 });
   
-  // Game loop
-  const gameLoopRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
+  // Seed of the current run (reproducible with ?seed=<n>)
+  const runSeedRef = useRef<number>(0);
+  
+  // Replay recording and playback
+  const recorderRef = useRef(new ReplayRecorder());
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayProgress, setReplayProgress] = useState(0);
+  
+  // Game loop: one pipeline drives every system, the simulation only runs while playing
+  const [pipeline] = useState(() => new SystemPipeline());
+  const [gameLoop] = useState(() => new GameLoop(pipeline, {
+    shouldUpdate: () => gameStateManager.getState() === 'playing'
+  }));
   
   // Log initial state
   useEffect(() => {
@@ -96,56 +185,97 @@ export const Game: React.FC = () => {
     const scene = threeScene.sceneRefs.current.scene;
     const camera = threeScene.sceneRefs.current.camera;
     
-    // Initialize all systems
-    const em = new EntityManager(scene);
+    // Initialize all systems (gameplay systems share one event bus)
+    const events = new GameEventBus();
+    const em = new EntityManager(scene, new RandomSystem(), events);
     const am = new AudioManager();
     const ps = new ParticleSystem(scene);
     const vm = new VFXManager(camera, scene);
     const ds = new DebrisSystem(scene);
-    const cs = new CollisionSystem(em, am, ps, vm, ds, handleCurrencyCollected);
-    const ss = new ScoringSystem(ps);
+    const cs = new CollisionSystem(em, am, ps, vm, ds);
+    const ss = new ScoringSystem(ps, events);
     const ws = new WaveSystem(em, am, ps, vm);
-    
-    // Register wave callbacks to open hangar on even waves
-    let waveCallbacksRegistered = false;
-    if (!waveCallbacksRegistered) {
-      waveCallbacksRegistered = true;
-      ws.onWaveCompleteCallback((wave, _perfect) => {
-        if (wave % 2 === 0) {
-          gameStateManager.setState('paused');
-          // Render Hangar overlay via overlay manager/state
-        } else {
-          setTimeout(() => ws.startWave(), 1500);
-        }
-      });
-    }
+    const ls = new LivesSystem(em, cs);
+    const drs = new DroneSystem(em, cs, am, ps);
+    const bs = new BossSystem(em, am, ps, vm, ds);
+    const ses = new StatusEffectSystem(em, am, ps, ds);
+    const wps = new WeaponSystem(em, cs, bs, am, ps, vm, ds);
     
     console.log('[Complete Game] Systems created - EntityManager:', em);
     
-    // Register scoring hook for asteroid kills with size detection
-    cs.onCollision('bullet-asteroid', (event) => {
-      if (event.entityB) {
-        // Cast to Asteroid and use the existing awardAsteroidPoints method
-        ss.awardAsteroidPoints(event.entityB as any);
+    // Award points for asteroid kills with size detection, and per-type enemy points
+    events.on('entityDestroyed', ({ entity, kind, cause }) => {
+      if (kind === 'asteroids') {
+        ss.awardAsteroidPoints(entity as Asteroid);
+      } else if (kind === 'enemies' && cause !== 'detonation') {
+        ss.awardEnemyPoints(entity as Enemy);
+        gameStateManager.updateStats({
+          enemiesDestroyed: gameStateManager.getStats().enemiesDestroyed + 1
+        });
+      } else if (kind === 'bosses') {
+        ss.awardBossPoints(entity as Boss);
       }
     });
     
+    // Currencies and pickup stats
+    events.on('currencyCollected', ({ type, amount }) => handleCurrencyCollected(type, amount));
+    events.on('weaponFired', ({ count }) => {
+      gameStateManager.updateStats({
+        totalShots: gameStateManager.getStats().totalShots + count
+      });
+    });
+    events.on('pickupCollected', () => {
+      gameStateManager.updateStats({
+        pickupsCollected: gameStateManager.getStats().pickupsCollected + 1
+      });
+    });
+    
     // Set up system connections
     // ps.initialize(); // Remove if method doesn't exist
+    const unregisterGameplay = registerGameplaySystems(pipeline, {
+      entityManager: em,
+      collisionSystem: cs,
+      scoringSystem: ss,
+      waveSystem: ws,
+      droneSystem: drs,
+      bossSystem: bs,
+      statusEffectSystem: ses,
+      weaponSystem: wps
+    });
+    
+    // Cosmetic systems follow the real frame time (VFX group scale)
+    const timeScale = em.getTimeScale();
+    const unregisterFrame = [
+      pipeline.register('particles', 'vfx', (frameDt) => ps.update(timeScale.scale(frameDt, 'vfx'))),
+      pipeline.register('vfx', 'vfx', (frameDt) => vm.update(frameDt)),
+      pipeline.register('debris', 'vfx', (frameDt) => ds.update(timeScale.scale(frameDt, 'vfx'))),
+      // Sync entity meshes, blending between the last two ticks
+      pipeline.register('entityView', 'render', (_frameDt, alpha) => em.render(alpha))
+    ];
     
     setEntityManager(em);
     setAudioManager(am);
-    setParticleSystem(ps);
     setVFXManager(vm);
     setDebrisSystem(ds);
-    setCollisionSystem(cs);
     setScoringSystem(ss);
     setWaveSystem(ws);
+    setLivesSystem(ls);
+    setDroneSystem(drs);
+    setBossSystem(bs);
     
     // Set up game state callbacks
     gameStateManager.onStateChange('any', (from, to) => {
       console.log(`[Complete Game] Game state changed: ${from} → ${to}`);
       setCurrentState(to);
+      
+      // Seal the recording when a live run ends
+      if (to === 'gameOver' && recorderRef.current.isRecording()) {
+        const replay = recorderRef.current.finish({
+          score: gameStateManager.getStats().score,
+          wave: gameStateManager.getStats().wave
+        });
+        if (replay) setLastReplay(replay);
+      }
     });
     
     gameStateManager.onStatsUpdate((stats) => {
@@ -163,29 +293,124 @@ export const Game: React.FC = () => {
       }
     });
     
-    // Set up scoring callbacks
-    ss.onScore((score, _delta) => {
+    // Set up scoring events
+    events.on('scoreChanged', ({ score }) => {
       gameStateManager.updateStats({ score });
     });
     
-    ss.onCombo((combo) => {
+    events.on('comboChanged', (combo) => {
       gameStateManager.updateStats({ combo: combo.count });
     });
     
-    // Set up wave callbacks
-    ws.onWaveStartCallback((wave) => {
+    // Set up wave events
+    events.on('waveStarted', ({ wave }) => {
       gameStateManager.updateStats({ wave });
     });
     
-    ws.onWaveCompleteCallback((_wave, perfect) => {
+    events.on('waveCompleted', ({ perfect }) => {
       if (perfect) {
         gameStateManager.updateStats({ 
-          perfectWaves: gameStats.perfectWaves + 1 
+          perfectWaves: gameStateManager.getStats().perfectWaves + 1 
         });
       }
+      
+      // Even waves open the hangar, odd waves start on their own
+      ws.nextWave();
     });
     
-    ws.onOpenHangarCallback(() => {
+    events.on('upgradeApplied', ({ upgrade }) => {
+      // Temporal Distortion slows enemies and speeds up the player
+      if (upgrade.id === 'timeWarp') {
+        timeScale.setScale('enemies', TIME_SCALE.timeWarpEnemies, 'timeWarp');
+        timeScale.setScale('player', TIME_SCALE.timeWarpPlayer, 'timeWarp');
+      }
+      
+      if (upgrade.id === 'shieldCharge' && shipRef.current) {
+        shipRef.current.addShields(1);
+        events.emit('shieldsChanged', { ship: shipRef.current, shields: shipRef.current.getShields() });
+      }
+      
+      if (upgrade.id === 'drone') {
+        updateMods(prev => ({ ...prev, drones: Math.min(prev.drones + 1, DRONE.maxCount) }));
+      }
+      
+      // Weapon cards reshape the ship's volley
+      if (upgrade.id === 'fireRate' || upgrade.id === 'fireRateAdvanced') {
+        const boost = upgrade.id === 'fireRate' ? WEAPON.fireRateUpgrade : WEAPON.fireRateAdvancedUpgrade;
+        updateMods(prev => ({ ...prev, fireRateMul: prev.fireRateMul * boost }));
+      }
+      
+      const spread = SPREAD_UPGRADES[upgrade.id];
+      if (spread !== undefined) {
+        updateMods(prev => Weapon.barrelCount(spread) > Weapon.barrelCount(prev.spread) ? { ...prev, spread } : prev);
+      }
+      
+      const pierce = PIERCE_UPGRADES[upgrade.id];
+      if (pierce !== undefined) {
+        updateMods(prev => Weapon.pierceCount(pierce) > Weapon.pierceCount(prev.pierce) ? { ...prev, pierce } : prev);
+      }
+      
+      if (upgrade.id === 'shrapnel') {
+        updateMods(prev => ({ ...prev, shrapnel: true }));
+      }
+      
+      // New weapons go straight into the slot
+      const weapon = getWeaponForUpgrade(upgrade.id);
+      if (weapon) {
+        updateMods(prev => {
+          const owned = prev.weapons ?? ['blaster'];
+          return { ...prev, weapons: owned.includes(weapon) ? owned : [...owned, weapon], weapon };
+        });
+      }
+    });
+    
+    // Shield charges live on the ship; mirror them into the run mods and HUD
+    events.on('shieldsChanged', ({ shields }) => {
+      gameStateManager.updateStats({ shields });
+      updateMods(prev => ({ ...prev, shields }));
+    });
+    
+    // Hull, lives and the death/respawn flow
+    events.on('shipDamaged', ({ hull }) => {
+      gameStateManager.updateStats({ hull });
+    });
+    
+    events.on('lifeLost', ({ lives }) => {
+      gameStateManager.updateStats({
+        lives,
+        shipsLost: gameStateManager.getStats().shipsLost + 1
+      });
+    });
+    
+    events.on('shipRespawned', ({ ship }) => {
+      shipRef.current = ship;
+      equipShip(ship, modsRef.current);
+      threeScene.setCameraFollow(ship.ensureMesh());
+      gameStateManager.updateStats({ hull: ship.getHull(), shields: ship.getShields() });
+    });
+    
+    events.on('livesDepleted', ({ reason }) => {
+      gameStateManager.triggerGameOver(reason);
+    });
+    
+    // Boss intro banner (on game time, so pausing holds it) and health bar
+    events.on('bossSpawned', ({ boss }) => {
+      const status = boss.getStatus();
+      setBossStatus(status);
+      setBossBanner(`Boss ${status.bossNumber}: ${status.name}`);
+      em.getScheduler().after(BOSS.introDuration, () => setBossBanner(null));
+    });
+    
+    events.on('bossDamaged', ({ boss }) => {
+      setBossStatus(boss.getStatus());
+    });
+    
+    events.on('bossDefeated', () => {
+      setBossStatus(null);
+      setBossBanner(null);
+    });
+    
+    events.on('hangarOpened', () => {
       // Open hangar and pause gameplay
       gameStateManager.setState('hangar');
     });
@@ -196,83 +421,87 @@ export const Game: React.FC = () => {
     
     return () => {
       // Cleanup systems
+      unregisterGameplay();
+      unregisterFrame.forEach(remove => remove());
+      events.clear();
       ps.dispose();
       vm.dispose();
       ds.dispose();
     };
-  }, [threeScene.sceneRefs, gameStateManager, gameStats.perfectWaves]);
+  }, [threeScene.sceneRefs, threeScene.setCameraFollow, gameStateManager, handleCurrencyCollected, pipeline, updateMods]);
   
-  // Continuous render loop for starfield and background
+  // The ship's weapon slot follows the run's weapon mods
   useEffect(() => {
-    let rafId = 0;
-    let last = performance.now();
-    const renderLoop = (now: number) => {
-      const dt = Math.min((now - last) / 1000, 1 / 30);
-      last = now;
+    if (shipRef.current) equipShip(shipRef.current, mods);
+  }, [mods]);
+  
+  // Drone companions follow the run's drone count
+  useEffect(() => {
+    droneSystem?.setCount(mods.drones);
+  }, [droneSystem, mods.drones]);
+  
+  // Run the loop for the component's lifetime
+  useEffect(() => {
+    gameLoop.start();
+    return () => gameLoop.stop();
+  }, [gameLoop]);
+  
+  // Starfield, background and final composite (runs in every state)
+  useEffect(() => {
+    return pipeline.register('scene', 'render', (frameDt) => {
       const refs = threeScene.sceneRefs.current;
       if (refs) {
-        threeScene.update(dt, {
+        threeScene.update(Math.min(frameDt, 1 / 30), {
           paused: currentState === 'paused',
           gameOver: currentState === 'gameOver',
         });
         refs.composer?.render(); // ensure visible background
       }
-      rafId = requestAnimationFrame(renderLoop);
-    };
-    rafId = requestAnimationFrame(renderLoop);
-    return () => cancelAnimationFrame(rafId);
-  }, [threeScene, currentState]);
+    }, { order: 1 });
+  }, [pipeline, threeScene, currentState]);
   
-  // Game loop (only when playing)
+  // Player input each tick. Registered once and gated on the state manager,
+  // which flips synchronously, so no tick runs before its input is recorded
+  // or replayed (the loop may tick before React commits a state change)
   useEffect(() => {
-    if (currentState !== 'playing' || !entityManager) return;
-    
-    const gameLoop = (currentTime: number) => {
-      const deltaTime = (currentTime - lastTimeRef.current) / 1000;
-      lastTimeRef.current = currentTime;
+    return pipeline.register('input', 'input', () => {
+      const ship = shipRef.current;
+      if (gameStateManager.getState() !== 'playing' || !ship) return;
       
-      // Cap delta time to prevent large jumps
-      const clampedDelta = Math.min(deltaTime, 1/30);
+      // Live input is recorded; replays feed their recorded input instead.
+      // Ticks keep consuming input while the ship is waiting to respawn.
+      const player = replayPlayerRef.current;
+      const input = player ? player.next() : recorderRef.current.record(sampleInput(ship));
       
-      // Update FPS counter
-      fpsCounter.current.frames++;
-      if (currentTime - fpsCounter.current.lastTime >= 1000) {
-        setFps(fpsCounter.current.frames);
-        fpsCounter.current.frames = 0;
-        fpsCounter.current.lastTime = currentTime;
+      if (!input) {
+        finishReplay();
+        return;
       }
-      
-      // Update all systems
-      if (ship) {
-        updateShipControls(ship, clampedDelta);
-        handleShooting(ship, entityManager);
+      if (ship.active) {
+        applyInput(ship, input);
       }
+    });
+  }, [pipeline, gameStateManager]);
+  
+  // HUD readouts each frame
+  useEffect(() => {
+    if (currentState !== 'playing' || !entityManager) return;
+    
+    return pipeline.register('hud', 'render', () => {
+      if (gameStateManager.getState() !== 'playing') return;
       
-      entityManager.update(clampedDelta);
-      collisionSystem?.update(clampedDelta);
-      scoringSystem?.updateCombo(clampedDelta);
-      waveSystem?.update(clampedDelta);
-      particleSystem?.update(clampedDelta);
-      vfxManager?.update(clampedDelta);
-      debrisSystem?.update(clampedDelta);
+      setFps(Math.round(gameLoop.getPerformanceMetrics().fps));
+      
+      if (replayPlayerRef.current) {
+        setReplayProgress(Math.round(replayPlayerRef.current.getProgress() * 100));
+      }
       
       // Update game time
       gameStateManager.updateStats({
-        timeAlive: (currentTime - gameStateManager.getDebugInfo().gameTime) / 1000
+        timeAlive: (performance.now() - gameStateManager.getDebugInfo().gameTime) / 1000
       });
-      
-      gameLoopRef.current = requestAnimationFrame(gameLoop);
-    };
-    
-    lastTimeRef.current = performance.now();
-    gameLoopRef.current = requestAnimationFrame(gameLoop);
-    
-    return () => {
-      if (gameLoopRef.current) {
-        cancelAnimationFrame(gameLoopRef.current);
-      }
-    };
-  }, [currentState, entityManager, ship, collisionSystem, scoringSystem, waveSystem, particleSystem, vfxManager, debrisSystem, gameStateManager]);
+    });
+  }, [currentState, pipeline, gameLoop, entityManager, gameStateManager]);
   
   // Input handling
   useEffect(() => {
@@ -344,71 +573,79 @@ export const Game: React.FC = () => {
     };
   }, [currentState, gameSettings.controls.pause, gameStateManager]);
   
-  // Ship controls
-  const updateShipControls = (ship: Ship, deltaTime: number) => {
-    const isForward = keysPressed.current.has(gameSettings.controls.forward);
-    const isBackward = keysPressed.current.has(gameSettings.controls.backward);
+  // Sample keyboard/mouse into this tick's input (settings are read from the
+  // manager, as the input system is registered once)
+  const sampleInput = (ship: Ship): InputFrame => {
+    const gameSettings = gameStateManager.getSettings();
     const isLeft = keysPressed.current.has(gameSettings.controls.left);
     const isRight = keysPressed.current.has(gameSettings.controls.right);
     
-    ship.setThrusting(isForward);
-    ship.setThrustingReverse(isBackward);
-    
-    // Handle rotation: A/D keys override mouse aiming
-    if (isLeft || isRight) {
-      // Keyboard rotation takes priority
-      ship.setRotating(isLeft ? -1 : isRight ? 1 : 0);
-    } else if (threeScene.mountRef.current && threeScene.sceneRefs.current) {
-      // Mouse aiming when no rotation keys pressed
+    // Mouse aiming when no rotation keys pressed
+    let targetRotation: number | null = null;
+    if (!isLeft && !isRight && threeScene.mountRef.current && threeScene.sceneRefs.current) {
       const rect = threeScene.mountRef.current.getBoundingClientRect();
       const normalizedX = (mousePos.current.x / rect.width) * 2 - 1;
       const normalizedY = -((mousePos.current.y / rect.height) * 2 - 1);
       const camera = threeScene.sceneRefs.current.camera;
       const worldX = normalizedX * (camera.right - camera.left) / 2 + camera.position.x;
       const worldY = normalizedY * (camera.top - camera.bottom) / 2 + camera.position.y;
-      const dx = worldX - ship.position.x;
-      const dy = worldY - ship.position.y;
-      ship.setTargetRotation(Math.atan2(dx, dy));
-      ship.setRotating(0);
+      targetRotation = Math.atan2(worldX - ship.position.x, worldY - ship.position.y);
     }
     
-    ship.update(deltaTime);
+    return {
+      thrust: keysPressed.current.has(gameSettings.controls.forward),
+      reverse: keysPressed.current.has(gameSettings.controls.backward),
+      rotate: isLeft ? -1 : isRight ? 1 : 0,
+      targetRotation,
+      fire: gameSettings.autofire ||
+            keysPressed.current.has(gameSettings.controls.shoot) ||
+            mousePressed.current.has(0) // Left click
+    };
+  };
+  
+  // Ship controls (shared by live play and replays)
+  const applyInput = (ship: Ship, input: InputFrame) => {
+    ship.setThrusting(input.thrust);
+    ship.setThrustingReverse(input.reverse);
+    
+    // Handle rotation: A/D keys override mouse aiming
+    if (input.rotate !== 0) {
+      // Keyboard rotation takes priority
+      ship.setRotating(input.rotate);
+    } else if (input.targetRotation !== null) {
+      ship.setTargetRotation(input.targetRotation);
+      ship.setRotating(0);
+    }
     
     // Update thruster sound
-    if (isForward && audioManager) {
+    if (input.thrust && audioManager) {
       // Would play thruster sound
     }
-  };
-  
-  // Shooting
-  const handleShooting = (ship: Ship, entityManager: EntityManager) => {
-    const isShooting = gameSettings.autofire || 
-                     keysPressed.current.has(gameSettings.controls.shoot) ||
-                     mousePressed.current.has(0); // Left click
-    
-    if (isShooting && ship.canShoot()) {
-      const bullet = ship.shoot();
-      if (bullet && entityManager) {
-        entityManager.addExistingEntity(bullet, 'bullets');
-        bullet.spawn(threeScene.sceneRefs.current!.scene);
-        console.log('[Complete Game] Bullet spawned:', bullet.position);
-        
-        // Update stats
-        gameStateManager.updateStats({
-          totalShots: gameStats.totalShots + 1
-        });
-        
-        // Play sound
-        audioManager?.playSound('ship.shoot');
-        
-        // Muzzle flash effect
-        particleSystem?.emit('muzzle_flash', ship.position.clone());
-      }
-    }
+    
+    // WeaponSystem fires whatever is in the slot while the trigger is held
+    ship.setTrigger(input.fire);
   };
   
   // Game state handlers
-  const handleStartGame = useCallback(() => {
+  const resetSystems = useCallback(() => {
+    entityManager?.clearAll();
+    entityManager?.getScheduler().clear();
+    entityManager?.getTimeScale().reset();
+    scoringSystem?.resetScore();
+    waveSystem?.reset();
+    // particleSystem?.clear(); // Method may not exist
+    vfxManager?.stopAllEffects();
+    debrisSystem?.clearAllDebris();
+    livesSystem?.reset();
+    droneSystem?.setOwner(null);
+    bossSystem?.reset();
+    setBossStatus(null);
+    setBossBanner(null);
+    
+    shipRef.current = null;
+  }, [entityManager, scoringSystem, waveSystem, livesSystem, droneSystem, bossSystem, vfxManager, debrisSystem]);
+  
+  const startRun = useCallback((seed: number, replay: ReplayData | null) => {
     console.log('[Complete Game] Starting game...');
     
     if (!systemsReady) {
@@ -424,16 +661,41 @@ export const Game: React.FC = () => {
       return;
     }
     
+    // Every run starts from the same clean state, whatever the last one left
+    // behind, so recordings and their replays begin identically
+    resetSystems();
+    
+    // Seed the run so the same seed always plays out the same way
+    entityManager.getRandom().reseed(seed);
+    runSeedRef.current = seed;
+    console.log('[Complete Game] Run seed:', seed);
+    
+    // Either watch a replay or record this run
+    if (replay) {
+      replayPlayerRef.current = new ReplayPlayer(replay);
+      recorderRef.current.cancel();
+      gameLoop.getTimestep().setFixedStep(replay.fixedStep);
+    } else {
+      replayPlayerRef.current = null;
+      gameLoop.getTimestep().setFixedStep(SIMULATION.fixedStep);
+      recorderRef.current.start(seed, SIMULATION.fixedStep, { autofire: gameSettings.autofire });
+    }
+    setIsReplaying(!!replay);
+    setReplayProgress(0);
+    
     // Create and spawn ship
     console.log('[Complete Game] Creating ship...');
     const newShip = new Ship();
-    newShip.spawn(threeScene.sceneRefs.current.scene);
+    newShip.spawn();
     entityManager.addExistingEntity(newShip, 'ships');
-    setShip(newShip);
+    shipRef.current = newShip;
+    droneSystem?.setCount(0); // Runs start without drones
+    droneSystem?.setOwner(newShip);
+    bossSystem?.reset();
     console.log('[Complete Game] Ship spawned:', newShip);
     
     // Set camera to follow ship
-    threeScene.setCameraFollow(newShip.mesh!);
+    threeScene.setCameraFollow(newShip.ensureMesh());
     console.log('[Complete Game] Camera following ship');
     
     // Start first wave
@@ -443,37 +705,222 @@ export const Game: React.FC = () => {
     // Set game state to playing
     console.log('[Complete Game] Setting state to playing...');
     gameStateManager.setState('playing');
-  }, [systemsReady, entityManager, threeScene.sceneRefs, waveSystem, gameStateManager]);
+    
+    // Fresh lives and hull
+    gameStateManager.updateStats({
+      lives: livesSystem?.getLives() ?? 3,
+      shipsLost: 0,
+      hull: newShip.getHull(),
+      shields: newShip.getShields(),
+      deathReason: undefined
+    });
+    updateMods(prev => ({
+      ...prev,
+      ...DEFAULT_WEAPON_MODS,
+      weapons: ['blaster'],
+      weapon: 'blaster',
+      shields: newShip.getShields(),
+      drones: 0
+    }));
+  }, [systemsReady, entityManager, threeScene.sceneRefs, waveSystem, livesSystem, droneSystem, bossSystem, gameStateManager, gameSettings.autofire, gameLoop, updateMods, resetSystems]);
+  
+  const handleStartGame = useCallback(() => {
+    const seedParam = new URLSearchParams(window.location.search).get('seed');
+    const seed = seedParam !== null && !isNaN(Number(seedParam)) ? Number(seedParam) : RandomSystem.generateSeed();
+    startRun(seed, null);
+  }, [startRun]);
   
   const handleRestart = useCallback(() => {
-    // Reset all systems
-    entityManager?.clearAll();
-    scoringSystem?.resetScore();
-    waveSystem?.reset();
-    // particleSystem?.clear(); // Method may not exist
-    vfxManager?.stopAllEffects();
-    debrisSystem?.clearAllDebris();
-    
-    setShip(null);
     handleStartGame();
-  }, [entityManager, scoringSystem, waveSystem, particleSystem, vfxManager, debrisSystem, handleStartGame]);
+  }, [handleStartGame]);
+  
+  const handleWatchReplay = useCallback((replay: ReplayData) => {
+    console.log('[Complete Game] Watching replay, seed:', replay.seed, 'ticks:', replay.ticks);
+    setLastReplay(replay);
+    startRun(replay.seed, replay);
+  }, [startRun]);
+  
+  // Called from the game loop when the recorded input runs out
+  const finishReplay = () => {
+    if (gameStateManager.getState() === 'gameOver') return;
+    gameStateManager.setState('gameOver');
+  };
+  
+  const handleExportReplay = useCallback(() => {
+    if (!lastReplay) return;
+    
+    const blob = new Blob([ReplaySystem.toJSON(lastReplay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = ReplaySystem.getFileName(lastReplay);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [lastReplay]);
+  
+  const handleImportReplay = useCallback((json: string): boolean => {
+    const replay = ReplaySystem.fromJSON(json);
+    if (!replay) return false;
+    
+    handleWatchReplay(replay);
+    return true;
+  }, [handleWatchReplay]);
   
   const handleMainMenu = useCallback(() => {
-    // Clear game state
-    entityManager?.clearAll();
-    setShip(null);
+    // Clear game state, including timers and time scale layers the run left
+    resetSystems();
+    recorderRef.current.cancel();
+    replayPlayerRef.current = null;
+    setIsReplaying(false);
     gameStateManager.setState('menu');
-  }, [entityManager, gameStateManager]);
+  }, [resetSystems, gameStateManager]);
+  
+  const handleSaveAndQuit = useCallback(() => {
+    if (!entityManager || !waveSystem || !scoringSystem) return;
+    
+    const saved = SaveSystem.save({
+      seed: runSeedRef.current,
+      entities: entityManager.serialize(),
+      waves: waveSystem.serialize(),
+      scoring: scoringSystem.serialize(),
+      stats: gameStateManager.getStats(),
+      currencies,
+      mods
+    });
+    setHasSavedRun(saved);
+    handleMainMenu();
+  }, [entityManager, waveSystem, scoringSystem, gameStateManager, currencies, mods, handleMainMenu]);
+  
+  const handleContinue = useCallback(() => {
+    const run = SaveSystem.load();
+    if (!run) {
+      setHasSavedRun(false);
+      return;
+    }
+    
+    if (!systemsReady || !entityManager || !waveSystem || !scoringSystem || !livesSystem || !threeScene.sceneRefs.current?.scene) {
+      console.warn('[Complete Game] Cannot continue - systems not ready');
+      return;
+    }
+    
+    // A save is consumed when continued
+    SaveSystem.clear();
+    setHasSavedRun(false);
+    console.log('[Complete Game] Continuing run, seed:', run.seed, 'wave:', run.waves.currentWave);
+    
+    resetSystems();
+    
+    // Resumed runs can't be replayed from the start, so don't record them
+    recorderRef.current.cancel();
+    replayPlayerRef.current = null;
+    setIsReplaying(false);
+    gameLoop.getTimestep().setFixedStep(SIMULATION.fixedStep);
+    runSeedRef.current = run.seed;
+    
+    entityManager.restore(run.entities);
+    waveSystem.restore(run.waves);
+    scoringSystem.restore(run.scoring);
+    setCurrencies(run.currencies);
+    updateMods(() => run.mods);
+    
+    livesSystem.reset(run.stats.lives);
+    
+    // Saved while waiting to respawn: launch the next ship straight away
+    const restoredShip = entityManager.entities.ships[0] ?? livesSystem.respawn();
+    shipRef.current = restoredShip;
+    droneSystem?.setCount(run.mods.drones);
+    droneSystem?.setOwner(restoredShip);
+    threeScene.setCameraFollow(restoredShip.ensureMesh());
+    
+    gameStateManager.setState('playing');
+    gameStateManager.updateStats(run.stats);
+    gameStateManager.updateStats({ hull: restoredShip.getHull(), shields: restoredShip.getShields() });
+    setBossStatus(bossSystem?.getStatus() ?? null);
+    
+    // Pending wave transitions aren't saved; pick the run back up with a wave
+    if (!waveSystem.isWaveActive()) {
+      waveSystem.startWave();
+    }
+  }, [systemsReady, entityManager, waveSystem, scoringSystem, livesSystem, droneSystem, bossSystem, threeScene, gameStateManager, resetSystems, gameLoop, updateMods]);
   
   const handleSettingsChange = useCallback((newSettings: Partial<GameSettings>) => {
     gameStateManager.updateSettings(newSettings);
   }, [gameStateManager]);
   
-  const handleExitHangar = useCallback(() => {
+  // Hangar actions, shared by the player's clicks and replay playback
+  const applyPurchase = useCallback((item: ShopUpgrade) => {
+    if (!entityManager) return;
+    
+    const costs = Object.entries(item.cost) as [keyof RunCurrencies, number][];
+    setCurrencies(prev => {
+      const next = { ...prev };
+      costs.forEach(([type, amount]) => { next[type] -= amount; });
+      return next;
+    });
+    entityManager.getEvents().emit('upgradeApplied', { upgrade: item });
+  }, [entityManager]);
+  
+  const applyEquipWeapon = useCallback((weapon: WeaponType) => {
+    updateMods(prev => ({ ...prev, weapon }));
+  }, [updateMods]);
+  
+  const applyExitHangar = useCallback(() => {
+    // Put this visit's purchases on the ship before the next wave's first tick
+    if (shipRef.current) equipShip(shipRef.current, modsRef.current);
+    droneSystem?.setCount(modsRef.current.drones);
+    
     // Exit hangar and start next wave
     gameStateManager.setState('playing');
     waveSystem?.startWave();
-  }, [gameStateManager, waveSystem]);
+  }, [gameStateManager, waveSystem, droneSystem]);
+  
+  // Replays ignore the viewer's clicks; the recording drives the hangar
+  const handlePurchase = useCallback((item: ShopUpgrade) => {
+    if (replayPlayerRef.current) return;
+    
+    const costs = Object.entries(item.cost) as [keyof RunCurrencies, number][];
+    if (!costs.every(([type, amount]) => currencies[type] >= amount)) return;
+    
+    recorderRef.current.recordEvent({ type: 'purchase', upgradeId: item.id });
+    applyPurchase(item);
+  }, [currencies, applyPurchase]);
+  
+  const handleEquipWeapon = useCallback((weapon: WeaponType) => {
+    if (replayPlayerRef.current) return;
+    
+    recorderRef.current.recordEvent({ type: 'equip', weapon });
+    applyEquipWeapon(weapon);
+  }, [applyEquipWeapon]);
+  
+  const handleExitHangar = useCallback(() => {
+    if (replayPlayerRef.current) return;
+    
+    recorderRef.current.recordEvent({ type: 'exitHangar' });
+    applyExitHangar();
+  }, [applyExitHangar]);
+  
+  // Play back what the recording did in the hangar (the simulation is paused
+  // there, so every action is due on the tick the hangar opened)
+  useEffect(() => {
+    const player = replayPlayerRef.current;
+    if (currentState !== 'hangar' || !player) return;
+    
+    player.takeEvents().forEach(action => {
+      switch (action.type) {
+        case 'purchase': {
+          const item = [...HANGAR_STOCK, ...WEAPON_STOCK].find(stock => stock.id === action.upgradeId);
+          if (item) applyPurchase(item);
+          break;
+        }
+        case 'equip':
+          applyEquipWeapon(action.weapon);
+          break;
+        case 'exitHangar':
+          applyExitHangar();
+          break;
+      }
+    });
+  }, [currentState, applyPurchase, applyEquipWeapon, applyExitHangar]);
   
   return (
     <div className="relative w-full h-full overflow-hidden bg-black">
@@ -490,6 +937,7 @@ export const Game: React.FC = () => {
             settings={gameSettings}
             systemsReady={systemsReady}
             onStartGame={handleStartGame}
+            onContinue={hasSavedRun ? handleContinue : undefined}
             onShowHighScores={() => console.log('Show high scores')}
             onShowSettings={() => console.log('Show settings')}
             onSettingsChange={handleSettingsChange}
@@ -515,6 +963,8 @@ export const Game: React.FC = () => {
               entityManager={entityManager || undefined}
               viewport={viewport}
               minimapOpacity={minimapOpacity}
+              boss={bossStatus}
+              bossBanner={bossBanner}
             />
           );
         })()}
@@ -546,21 +996,58 @@ export const Game: React.FC = () => {
             onResume={() => gameStateManager.setState('playing')}
             onRestart={handleRestart}
             onMainMenu={handleMainMenu}
+            onSaveAndQuit={isReplaying ? undefined : handleSaveAndQuit}
             onSettingsChange={handleSettingsChange}
           />
         )}
         
+        {/* Replay indicator */}
+        {isReplaying && (currentState === 'playing' || currentState === 'paused') && (
+          <div style={{
+            position: 'absolute',
+            top: '20px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            background: 'rgba(0,0,0,0.8)',
+            padding: '6px 14px',
+            borderRadius: '5px',
+            color: '#ff6688',
+            fontFamily: 'monospace',
+            fontSize: '12px'
+          }}>
+            ▶ REPLAY {replayProgress}%
+          </div>
+        )}
+        
         {currentState === 'gameOver' && (
           <GameOver
             stats={gameStats}
-            isNewHighScore={isNewHighScore}
+            isNewHighScore={isNewHighScore && !isReplaying}
             onRestart={handleRestart}
             onMainMenu={handleMainMenu}
+            onWatchReplay={lastReplay ? () => handleWatchReplay(lastReplay) : undefined}
+            onExportReplay={lastReplay ? handleExportReplay : undefined}
+            onImportReplay={handleImportReplay}
           />
         )}
         
         {currentState === 'hangar' && (
           <HangarScreen
+            currencies={currencies}
+            shopItems={[
+              // Temporal Distortion lasts the rest of the run, so it's bought once
+              ...HANGAR_STOCK.map(item => item.id === 'timeWarp'
+                ? { ...item, purchased: !!entityManager?.getTimeScale().hasSource('timeWarp') }
+                : item),
+              ...WEAPON_STOCK.map(item => ({
+                ...item,
+                purchased: (mods.weapons ?? []).includes(getWeaponForUpgrade(item.id)!)
+              }))
+            ]}
+            onPurchase={handlePurchase}
+            weapons={mods.weapons ?? ['blaster']}
+            equippedWeapon={mods.weapon ?? 'blaster'}
+            onEquipWeapon={handleEquipWeapon}
             onClose={handleExitHangar}
           />
         )}
@@ -1,18 +1,16 @@
-import { GameState } from '../hooks/useGameState';
-import { EntityManager } from '../systems/EntityManager';
-import { CollisionSystem } from '../systems/CollisionSystem';
-import { PhysicsSystem } from '../systems/PhysicsSystem';
+import { useEffect, useState } from 'react';
+import { FixedTimestep, FixedTimestepConfig } from './FixedTimestep';
+import { SystemPipeline } from './SystemPipeline';
 
-export interface GameLoopCallbacks {
-  onUpdate?: (dt: number) => void;
-  onRender?: (dt: number) => void;
-  onBeforeUpdate?: (dt: number) => void;
-  onAfterUpdate?: (dt: number) => void;
+export interface GameLoopOptions {
+  shouldUpdate?: () => boolean;       // Simulation runs only while this returns true (default: always)
+  timestep?: FixedTimestepConfig;
 }
 
 /**
  * Main game loop system
- * Handles timing, delta time calculation, and orchestrates game updates
+ * Handles timing and delta time, and drives a SystemPipeline: simulation phases
+ * in fixed ticks, then the vfx and render phases once per frame
  */
 export class GameLoop {
   // Timing
@@ -27,27 +25,17 @@ export class GameLoop {
   private currentFrameTime: number = 16.67;
   
   // System references
-  private entityManager: EntityManager;
-  private gameState: GameState;
-  private callbacks: GameLoopCallbacks;
-  private collisionSystem: CollisionSystem;
+  private pipeline: SystemPipeline;
+  private shouldUpdate: () => boolean;
+  private timestep: FixedTimestep;
 
   // Constants
-  private static readonly MAX_DELTA_TIME = 0.033; // 33ms cap (30 FPS minimum)
   private static readonly FPS_UPDATE_INTERVAL = 1.0; // Update FPS every second
 
-  constructor(
-    entityManager: EntityManager,
-    gameState: GameState,
-    callbacks: GameLoopCallbacks = {}
-  ) {
-    this.entityManager = entityManager;
-    this.gameState = gameState;
-    this.callbacks = callbacks;
-    this.collisionSystem = new CollisionSystem(entityManager);
-    
-    // Setup collision callbacks
-    this.setupCollisionCallbacks();
+  constructor(pipeline: SystemPipeline, options: GameLoopOptions = {}) {
+    this.pipeline = pipeline;
+    this.shouldUpdate = options.shouldUpdate ?? (() => true);
+    this.timestep = new FixedTimestep(options.timestep);
   }
 
   /**
@@ -60,8 +48,9 @@ export class GameLoop {
     this.lastTime = performance.now() / 1000;
     this.frameCount = 0;
     this.fpsUpdateTime = this.lastTime;
+    this.timestep.reset();
     
-    this.tick();
+    this.animationFrameId = requestAnimationFrame(this.tick);
   }
 
   /**
@@ -98,122 +87,38 @@ export class GameLoop {
   private tick = (): void => {
     if (!this.running) return;
     
-    // Calculate delta time
+    // Calculate frame time
     const now = performance.now() / 1000;
-    let dt = now - this.lastTime;
+    const frameDt = now - this.lastTime;
     this.lastTime = now;
     
-    // Clamp delta time to prevent spiral of death
-    dt = Math.min(dt, GameLoop.MAX_DELTA_TIME);
-    
     // Update performance metrics
-    this.updatePerformanceMetrics(now, dt);
+    this.updatePerformanceMetrics(now, frameDt);
     
-    // Only update if game conditions are met
+    // Only simulate if game conditions are met
+    let alpha = 1;
     if (this.shouldUpdate()) {
-      // Pre-update callback
-      this.callbacks.onBeforeUpdate?.(dt);
+      // Run the simulation in fixed ticks, carrying the remainder to the next frame
+      // (re-checked per tick: a tick can end the run or open the hangar)
+      alpha = this.timestep.advance(frameDt, (dt) => {
+        if (this.shouldUpdate()) {
+          this.pipeline.step(dt);
+        }
+      });
       
-      // Main update
-      this.update(dt);
-      
-      // Post-update callback
-      this.callbacks.onAfterUpdate?.(dt);
+      // Cosmetic systems follow the real frame time and freeze with the simulation
+      this.pipeline.runPhase('vfx', frameDt, alpha);
+    } else {
+      this.timestep.reset();
     }
     
-    // Render callback (always called for smooth animation)
-    this.callbacks.onRender?.(dt);
+    // Render phase always runs (background keeps animating while paused)
+    this.pipeline.runPhase('render', frameDt, alpha);
     
     // Schedule next frame
     this.animationFrameId = requestAnimationFrame(this.tick);
   };
 
-  /**
-   * Check if game should update based on current state
-   */
-  private shouldUpdate(): boolean {
-    return (
-      this.gameState.gamePhase === 'playing' &&
-      !this.gameState.overlay.show &&
-      !this.gameState.paused &&
-      !this.gameState.gameOver &&
-      !this.gameState.pausedForUpgrade
-    );
-  }
-
-  /**
-   * Setup collision system callbacks
-   */
-  private setupCollisionCallbacks(): void {
-    // Handle bullet-asteroid collisions
-    this.collisionSystem.onCollision('bullet-asteroid', (event) => {
-      const bullet = event.entityA;
-      const asteroid = event.entityB;
-      CollisionSystem.handleBulletAsteroidCollision(bullet as any, asteroid as any, this.entityManager);
-    });
-    
-    // Handle ship-asteroid collisions
-    this.collisionSystem.onCollision('ship-asteroid', (event) => {
-      const ship = event.entityA;
-      const asteroid = event.entityB;
-      CollisionSystem.handleShipAsteroidCollision(ship as any, asteroid as any);
-    });
-    
-    // Handle ship-bullet collisions (friendly fire)
-    this.collisionSystem.onCollision('ship-bullet', (event) => {
-      const ship = event.entityA;
-      const bullet = event.entityB;
-      CollisionSystem.handleShipBulletCollision(ship as any, bullet as any, this.entityManager);
-    });
-  }
-
-  /**
-   * Main game update logic
-   */
-  private update(dt: number): void {
-    // Custom update callback
-    this.callbacks.onUpdate?.(dt);
-    
-    // Update physics for all entities
-    const allEntities = [
-      ...this.entityManager.getActiveEntities('ships'),
-      ...this.entityManager.getActiveEntities('asteroids'),
-      ...this.entityManager.getActiveEntities('bullets')
-    ];
-    PhysicsSystem.updateEntities(allEntities, dt);
-    
-    // Update entity logic
-    this.entityManager.update(dt);
-    
-    // Check collisions
-    this.collisionSystem.update(dt);
-    
-    // Update game state timers
-    this.updateGameStateTimers(dt);
-  }
-
-  /**
-   * Update game state timing values
-   */
-  private updateGameStateTimers(dt: number): void {
-    // Update combo timer
-    if (this.gameState.comboTimer > 0) {
-      const newComboTimer = Math.max(0, this.gameState.comboTimer - dt);
-      if (newComboTimer === 0 && this.gameState.comboTimer > 0) {
-        // Combo expired - reset combo multiplier
-        // This would be handled by the useGameState hook's decrementComboTimer method
-      }
-    }
-    
-    // Update invulnerability timer
-    if (this.gameState.invuln > 0) {
-      // This would be handled by the useGameState hook's decrementInvuln method
-    }
-    
-    // Play time would be updated through gameState updates
-    // const newPlayTime = this.gameState.stats.playTime + dt;
-  }
-
   /**
    * Update performance tracking metrics
    */
@@ -247,45 +152,39 @@ export class GameLoop {
   }
 
   /**
-   * Update callbacks
+   * Replace the condition that gates the simulation
    */
-  public updateCallbacks(callbacks: GameLoopCallbacks): void {
-    this.callbacks = { ...this.callbacks, ...callbacks };
+  public setShouldUpdate(shouldUpdate: () => boolean): void {
+    this.shouldUpdate = shouldUpdate;
   }
 
   /**
-   * Get entity manager reference
+   * Get the fixed-step accumulator (step size and catch-up limits are tunable)
    */
-  public getEntityManager(): EntityManager {
-    return this.entityManager;
+  public getTimestep(): FixedTimestep {
+    return this.timestep;
   }
 
   /**
-   * Force update game state reference (useful when game state changes)
-   */
-  public updateGameState(gameState: GameState): void {
-    this.gameState = gameState;
-  }
-  
-  /**
-   * Get collision system reference
+   * Get the pipeline this loop drives
    */
-  public getCollisionSystem(): CollisionSystem {
-    return this.collisionSystem;
+  public getPipeline(): SystemPipeline {
+    return this.pipeline;
   }
 }
 
 /**
  * Hook to create and manage game loop
- * Integrates with React component lifecycle
+ * Integrates with React component lifecycle (the loop stops on unmount)
  */
 export const useGameLoop = (
-  entityManager: EntityManager,
-  gameState: GameState,
-  callbacks: GameLoopCallbacks = {}
+  pipeline: SystemPipeline,
+  options: GameLoopOptions = {}
 ) => {
-  // Create game loop instance (could be memoized in real implementation)
-  const gameLoop = new GameLoop(entityManager, gameState, callbacks);
+  // Create the loop once for the component's lifetime
+  const [gameLoop] = useState(() => new GameLoop(pipeline, options));
+  
+  useEffect(() => () => gameLoop.stop(), [gameLoop]);
   
   return {
     gameLoop,
@@ -295,7 +194,6 @@ export const useGameLoop = (
     resume: () => gameLoop.resume(),
     isRunning: () => gameLoop.isRunning(),
     getPerformanceMetrics: () => gameLoop.getPerformanceMetrics(),
-    updateCallbacks: (newCallbacks: GameLoopCallbacks) => gameLoop.updateCallbacks(newCallbacks),
-    getCollisionSystem: () => gameLoop.getCollisionSystem()
+    getTimings: () => pipeline.getTimings()
   };
 };
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { EntityManager } from '../systems/EntityManager';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { ScoringSystem } from '../systems/ScoringSystem';
+import { WaveSystem } from '../systems/WaveSystem';
+import { LivesSystem } from '../systems/LivesSystem';
+import { DroneSystem } from '../systems/DroneSystem';
+import { BossSystem } from '../systems/BossSystem';
+import { StatusEffectSystem } from '../systems/StatusEffectSystem';
+import { WeaponSystem } from '../systems/WeaponSystem';
+import { RandomSystem } from '../systems/RandomSystem';
+import { Ship } from '../entities/Ship';
+import { Asteroid } from '../entities/Asteroid';
+import { Enemy } from '../entities/Enemy';
+import { Boss } from '../entities/Boss';
+import { SIMULATION } from '../constants/gameConstants';
+import { SystemPipeline, registerGameplaySystems } from './SystemPipeline';
+
+export interface HeadlessSimulationOptions {
+  seed?: number;
+  fixedStep?: number;
+}
+
+/**
+ * Drives the player ship each tick (bots, replays, scripted tests)
+ */
+export type HeadlessController = (simulation: HeadlessSimulation, dt: number) => void;
+
+export interface HeadlessWaveResult {
+  completed: boolean;
+  gameOver: boolean;
+  wave: number;
+  time: number;
+  score: number;
+}
+
+/**
+ * Render-less game simulation
+ * Wires the gameplay systems together without a scene, audio or VFX so
+ * whole waves can run in Node (CI, balancing scripts, determinism checks)
+ */
+export class HeadlessSimulation {
+  public readonly entityManager: EntityManager;
+  public readonly collisionSystem: CollisionSystem;
+  public readonly scoringSystem: ScoringSystem;
+  public readonly waveSystem: WaveSystem;
+  public readonly livesSystem: LivesSystem;
+  public readonly droneSystem: DroneSystem;
+  public readonly bossSystem: BossSystem;
+  public readonly statusEffectSystem: StatusEffectSystem;
+  public readonly weaponSystem: WeaponSystem;
+  public readonly pipeline: SystemPipeline;
+
+  private ship: Ship | null = null;
+  private fixedStep: number;
+  private time: number = 0;
+  private deathReason: string | null = null;
+
+  constructor(options: HeadlessSimulationOptions = {}) {
+    this.fixedStep = options.fixedStep ?? SIMULATION.fixedStep;
+
+    const rng = new RandomSystem(options.seed);
+    this.entityManager = new EntityManager(null, rng);
+    this.collisionSystem = new CollisionSystem(this.entityManager);
+    this.scoringSystem = new ScoringSystem(undefined, this.entityManager.getEvents());
+    this.waveSystem = new WaveSystem(this.entityManager);
+    this.livesSystem = new LivesSystem(this.entityManager, this.collisionSystem);
+    this.droneSystem = new DroneSystem(this.entityManager, this.collisionSystem);
+    this.bossSystem = new BossSystem(this.entityManager);
+    this.statusEffectSystem = new StatusEffectSystem(this.entityManager);
+    this.weaponSystem = new WeaponSystem(this.entityManager, this.collisionSystem, this.bossSystem);
+    this.pipeline = new SystemPipeline();
+    registerGameplaySystems(this.pipeline, this);
+
+    this.entityManager.getEvents().on('entityDestroyed', ({ entity, kind, cause }) => {
+      if (kind === 'asteroids') {
+        this.scoringSystem.awardAsteroidPoints(entity as Asteroid);
+      } else if (kind === 'enemies' && cause !== 'detonation') {
+        this.scoringSystem.awardEnemyPoints(entity as Enemy);
+      } else if (kind === 'bosses') {
+        this.scoringSystem.awardBossPoints(entity as Boss);
+      }
+    });
+    
+    this.entityManager.getEvents().on('shipRespawned', ({ ship }) => {
+      this.ship = ship;
+    });
+    this.entityManager.getEvents().on('livesDepleted', ({ reason }) => {
+      this.deathReason = reason;
+    });
+  }
+
+  /**
+   * Spawn the player ship and start the first wave
+   */
+  public start(): void {
+    this.ship = this.entityManager.spawn('ships', 0, 0);
+    this.droneSystem.setOwner(this.ship);
+    this.waveSystem.startWave();
+  }
+
+  /**
+   * Advance the simulation by one tick
+   * @param controller Optional input driver for the ship
+   */
+  public step(controller?: HeadlessController): void {
+    const dt = this.fixedStep;
+
+    controller?.(this, dt);
+    this.pipeline.step(dt);
+
+    // The trigger is only held on ticks the controller calls fire()
+    this.ship?.setTrigger(false);
+
+    this.time += dt;
+  }
+
+  /**
+   * Run for a fixed amount of simulated time
+   * @param seconds Simulated seconds to run
+   * @param controller Optional input driver for the ship
+   */
+  public runFor(seconds: number, controller?: HeadlessController): void {
+    const steps = Math.round(seconds / this.fixedStep);
+    for (let i = 0; i < steps; i++) {
+      this.step(controller);
+    }
+  }
+
+  /**
+   * Run until the current wave completes, the player runs out of lives or the time limit is reached
+   * @param maxSeconds Simulated time limit
+   * @param controller Optional input driver for the ship
+   */
+  public runWave(maxSeconds: number = 300, controller?: HeadlessController): HeadlessWaveResult {
+    const maxSteps = Math.round(maxSeconds / this.fixedStep);
+    const wave = this.waveSystem.getWaveState().currentWave;
+
+    let completed = false;
+    for (let i = 0; i < maxSteps && !completed && !this.isGameOver(); i++) {
+      this.step(controller);
+      completed = this.waveSystem.getWaveState().waveComplete;
+    }
+
+    return {
+      completed,
+      gameOver: this.isGameOver(),
+      wave,
+      time: this.time,
+      score: this.scoringSystem.getScore()
+    };
+  }
+
+  /**
+   * Hold the trigger for the next tick (for controllers); WeaponSystem fires
+   * the equipped weapon once it is off cooldown. Stop calling it to let go
+   * of a charge cannon's charge.
+   */
+  public fire(): void {
+    if (!this.ship || !this.ship.active) return;
+
+    this.ship.setTrigger(true);
+  }
+
+  public getShip(): Ship | null {
+    return this.ship;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Check whether the player has run out of lives
+   */
+  public isGameOver(): boolean {
+    return this.deathReason !== null;
+  }
+
+  /**
+   * What destroyed the last ship, once the game is over
+   */
+  public getDeathReason(): string | null {
+    return this.deathReason;
+  }
+}
@@ -0,0 +1,259 @@
+import type { EntityManager } from '../systems/EntityManager';
+import type { CollisionSystem } from '../systems/CollisionSystem';
+import type { ScoringSystem } from '../systems/ScoringSystem';
+import type { WaveSystem } from '../systems/WaveSystem';
+import type { DroneSystem } from '../systems/DroneSystem';
+import type { BossSystem } from '../systems/BossSystem';
+import type { StatusEffectSystem } from '../systems/StatusEffectSystem';
+import type { WeaponSystem } from '../systems/WeaponSystem';
+
+/**
+ * Update phases, in the order they run
+ * Simulation phases run once per fixed tick; frame phases run once per
+ * rendered frame with the real frame time and the interpolation factor.
+ */
+export type SystemPhase =
+  | 'input'
+  | 'ai'
+  | 'physics'
+  | 'collision'
+  | 'scoring'
+  | 'waves'
+  | 'vfx'
+  | 'render';
+
+export const SIMULATION_PHASES: readonly SystemPhase[] = ['input', 'ai', 'physics', 'collision', 'scoring', 'waves'];
+export const FRAME_PHASES: readonly SystemPhase[] = ['vfx', 'render'];
+
+/**
+ * System update callback
+ * @param dt Fixed step for simulation phases, frame time for frame phases
+ * @param alpha Interpolation factor between the last two ticks (1 during simulation phases)
+ */
+export type SystemUpdate = (dt: number, alpha: number) => void;
+
+export interface SystemOptions {
+  order?: number;    // Lower runs first within a phase (default 0, ties keep registration order)
+  enabled?: boolean; // Start enabled (default true)
+}
+
+export interface SystemTiming {
+  name: string;
+  phase: SystemPhase;
+  enabled: boolean;
+  lastMs: number; // Duration of the most recent run
+  avgMs: number;  // Smoothed duration
+  calls: number;
+}
+
+interface RegisteredSystem {
+  name: string;
+  phase: SystemPhase;
+  order: number;
+  seq: number;
+  update: SystemUpdate;
+  enabled: boolean;
+  lastMs: number;
+  avgMs: number;
+  calls: number;
+}
+
+/**
+ * Ordered list of game systems, the single place a tick is defined
+ * Every loop (browser, test scenes, headless) runs the same pipeline, so each
+ * system updates exactly once per tick and always in the same order.
+ */
+export class SystemPipeline {
+  private systems: Map<string, RegisteredSystem> = new Map();
+  private phases: Map<SystemPhase, RegisteredSystem[]> = new Map();
+  private nextSeq: number = 0;
+
+  // Weight of the newest sample in the smoothed timings
+  private static readonly TIMING_SMOOTHING = 0.1;
+
+  /**
+   * Add a system to a phase
+   * @param name Unique system name (re-registering a name replaces it)
+   * @param phase Phase the system runs in
+   * @param update Update callback
+   * @param options Ordering within the phase and initial enabled state
+   * @returns Function that removes the system
+   */
+  public register(name: string, phase: SystemPhase, update: SystemUpdate, options: SystemOptions = {}): () => void {
+    this.unregister(name);
+
+    const system: RegisteredSystem = {
+      name,
+      phase,
+      order: options.order ?? 0,
+      seq: this.nextSeq++,
+      update,
+      enabled: options.enabled ?? true,
+      lastMs: 0,
+      avgMs: 0,
+      calls: 0
+    };
+
+    this.systems.set(name, system);
+
+    const list = [...(this.phases.get(phase) ?? []), system];
+    list.sort((a, b) => a.order - b.order || a.seq - b.seq);
+    this.phases.set(phase, list);
+
+    // Only remove this registration, not a later one under the same name
+    return () => {
+      if (this.systems.get(name) === system) {
+        this.unregister(name);
+      }
+    };
+  }
+
+  /**
+   * Remove a system
+   * @param name System name
+   */
+  public unregister(name: string): void {
+    const system = this.systems.get(name);
+    if (!system) return;
+
+    this.systems.delete(name);
+    const list = this.phases.get(system.phase) ?? [];
+    this.phases.set(system.phase, list.filter(entry => entry !== system));
+  }
+
+  /**
+   * Run one fixed simulation tick (every simulation phase, in order)
+   * @param dt Fixed step in seconds
+   */
+  public step(dt: number): void {
+    for (const phase of SIMULATION_PHASES) {
+      this.runPhase(phase, dt, 1);
+    }
+  }
+
+  /**
+   * Run every enabled system of a single phase
+   * @param phase Phase to run
+   * @param dt Delta time in seconds
+   * @param alpha Interpolation factor (0-1)
+   */
+  public runPhase(phase: SystemPhase, dt: number, alpha: number = 1): void {
+    const list = this.phases.get(phase);
+    if (!list) return;
+
+    for (const system of list) {
+      if (!system.enabled) continue;
+
+      const start = performance.now();
+      system.update(dt, alpha);
+      const elapsed = performance.now() - start;
+
+      system.lastMs = elapsed;
+      system.avgMs = system.calls === 0
+        ? elapsed
+        : system.avgMs + (elapsed - system.avgMs) * SystemPipeline.TIMING_SMOOTHING;
+      system.calls++;
+    }
+  }
+
+  /**
+   * Turn a system on or off without unregistering it
+   * @param name System name
+   * @param enabled Whether the system should run
+   */
+  public setEnabled(name: string, enabled: boolean): void {
+    const system = this.systems.get(name);
+    if (system) {
+      system.enabled = enabled;
+    }
+  }
+
+  public isEnabled(name: string): boolean {
+    return this.systems.get(name)?.enabled ?? false;
+  }
+
+  public has(name: string): boolean {
+    return this.systems.has(name);
+  }
+
+  /**
+   * Remove every system
+   */
+  public clear(): void {
+    this.systems.clear();
+    this.phases.clear();
+  }
+
+  /**
+   * Per-system timings in run order
+   */
+  public getTimings(): SystemTiming[] {
+    const timings: SystemTiming[] = [];
+    for (const phase of [...SIMULATION_PHASES, ...FRAME_PHASES]) {
+      for (const system of this.phases.get(phase) ?? []) {
+        timings.push({
+          name: system.name,
+          phase: system.phase,
+          enabled: system.enabled,
+          lastMs: system.lastMs,
+          avgMs: system.avgMs,
+          calls: system.calls
+        });
+      }
+    }
+    return timings;
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): Record<string, string[]> {
+    const info: Record<string, string[]> = {};
+    for (const phase of [...SIMULATION_PHASES, ...FRAME_PHASES]) {
+      info[phase] = (this.phases.get(phase) ?? []).map(system =>
+        system.enabled ? system.name : `${system.name} (disabled)`
+      );
+    }
+    return info;
+  }
+}
+
+export interface GameplaySystems {
+  entityManager: EntityManager;
+  collisionSystem: CollisionSystem;
+  scoringSystem: ScoringSystem;
+  waveSystem: WaveSystem;
+  droneSystem: DroneSystem;
+  bossSystem: BossSystem;
+  statusEffectSystem: StatusEffectSystem;
+  weaponSystem: WeaponSystem;
+}
+
+/**
+ * Register the core simulation systems shared by the browser game and the
+ * headless simulation, so both tick identically
+ * @returns Function that removes them again
+ */
+export const registerGameplaySystems = (pipeline: SystemPipeline, systems: GameplaySystems): (() => void) => {
+  const {
+    entityManager, collisionSystem, scoringSystem, waveSystem, droneSystem, bossSystem, statusEffectSystem, weaponSystem
+  } = systems;
+  const timeScale = entityManager.getTimeScale();
+
+  const unregister = [
+    // Hit-stop counts down in real simulation time, ahead of everything it freezes
+    pipeline.register('timeScale', 'input', (dt) => timeScale.update(dt), { order: -1 }),
+    pipeline.register('drones', 'ai', (dt) => droneSystem.update(dt)),
+    pipeline.register('weapons', 'ai', (dt) => weaponSystem.update(dt)),
+    pipeline.register('entities', 'physics', (dt) => entityManager.update(dt)),
+    pipeline.register('statusEffects', 'physics', (dt) => statusEffectSystem.update(dt), { order: 1 }),
+    pipeline.register('collision', 'collision', (dt) => collisionSystem.update(dt)),
+    pipeline.register('bosses', 'collision', (dt) => bossSystem.update(dt), { order: 1 }),
+    pipeline.register('weaponHits', 'collision', (dt) => weaponSystem.checkHits(dt), { order: 2 }),
+    pipeline.register('combo', 'scoring', (dt) => scoringSystem.updateCombo(timeScale.scale(dt))),
+    pipeline.register('waves', 'waves', (dt) => waveSystem.update(dt)),
+    pipeline.register('scheduler', 'waves', (dt) => entityManager.getScheduler().update(timeScale.scale(dt)), { order: 1 })
+  ];
+
+  return () => unregister.forEach(remove => remove());
+};
@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef } from 'react';
 import { CurrencyType, OverlayType, PierceType, SpreadType } from '../constants/gameConstants';
+import type { WeaponType } from '../data/weaponDefinitions';
 
 // Complete GameState interface matching vanilla implementation exactly
 export interface GameState {
@@ -37,13 +38,16 @@ export interface GameState {
   mods: {
     fireRateMul: number;      // default 1.0
     engineMul: number;         // default 1.0
-    spread: SpreadType;        // false | true | 'wide'
+    spread: SpreadType;        // false | 'twin' | true | 'wide'
     pierce: PierceType;        // false | true | 'super' | 'ultra'
     shields: number;           // default 0
     ricochet: number;          // 0, 1, or 2
     drones: number;            // 0 to 3
+    shrapnel?: boolean;        // Shrapnel Rounds: bullets explode on impact
     magnet?: number;
     magnetLvl?: number;
+    weapons?: WeaponType[];    // Owned weapon-slot archetypes (blaster when missing)
+    weapon?: WeaponType;       // Equipped archetype
   };
   
   // UI state
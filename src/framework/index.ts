@@ -14,6 +14,8 @@ export * from './components';
 export * from './entities';
 export { EntityManager } from './systems/EntityManager';
 export { GameLoop, useGameLoop } from './game/GameLoop';
+export { SystemPipeline, registerGameplaySystems } from './game/SystemPipeline';
+export { HeadlessSimulation } from './game/HeadlessSimulation';
 
 // Constants
 export {
@@ -34,6 +36,8 @@ export type {
 
 // Types
 export type { GameState } from './hooks/useGameState';
+export type { GameLoopOptions } from './game/GameLoop';
+export type { SystemPhase, SystemTiming, GameplaySystems } from './game/SystemPipeline';
 export type { EntityPoolHook } from './hooks/useEntityPool';
 
 // Test Components
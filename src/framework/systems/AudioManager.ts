@@ -45,13 +45,23 @@ export class AudioManager {
     'ship.shoot': { category: 'ship', volume: 0.5, loop: false, pitchVariation: 0.2, maxInstances: 3 },
     'ship.damage': { category: 'ship', volume: 0.7, loop: false, pitchVariation: 0.1, maxInstances: 2 },
     'ship.death': { category: 'ship', volume: 0.8, loop: false, pitchVariation: 0, maxInstances: 1 },
+    'ship.shield_break': { category: 'ship', volume: 0.6, loop: false, pitchVariation: 0.05, maxInstances: 2 },
     
     // Combat sounds
     'combat.explosion_large': { category: 'combat', volume: 0.8, loop: false, pitchVariation: 0.15, maxInstances: 5 },
     'combat.explosion_medium': { category: 'combat', volume: 0.6, loop: false, pitchVariation: 0.15, maxInstances: 8 },
     'combat.explosion_small': { category: 'combat', volume: 0.4, loop: false, pitchVariation: 0.2, maxInstances: 10 },
+    'combat.shrapnel': { category: 'combat', volume: 0.35, loop: false, pitchVariation: 0.25, maxInstances: 6 },
+    'combat.volatile_blast': { category: 'combat', volume: 0.9, loop: false, pitchVariation: 0.1, maxInstances: 3 },
     'combat.enemy_shoot': { category: 'combat', volume: 0.4, loop: false, pitchVariation: 0.25, maxInstances: 6 },
     'combat.bullet_hit': { category: 'combat', volume: 0.3, loop: false, pitchVariation: 0.3, maxInstances: 8 },
+    'combat.spawn_warning': { category: 'combat', volume: 0.5, loop: false, pitchVariation: 0.05, maxInstances: 3 },
+    
+    // Weapon archetypes
+    'weapon.laser': { category: 'combat', volume: 0.3, loop: false, pitchVariation: 0.1, maxInstances: 2 },
+    'weapon.missile': { category: 'combat', volume: 0.5, loop: false, pitchVariation: 0.15, maxInstances: 4 },
+    'weapon.mine': { category: 'combat', volume: 0.4, loop: false, pitchVariation: 0.1, maxInstances: 3 },
+    'weapon.charge': { category: 'combat', volume: 0.7, loop: false, pitchVariation: 0.05, maxInstances: 2 },
     
     // Pickup sounds
     'pickup.salvage': { category: 'pickup', volume: 0.5, loop: false, pitchVariation: 0.1, maxInstances: 3 },
@@ -64,6 +74,7 @@ export class AudioManager {
     'ui.wave_complete': { category: 'ui', volume: 0.9, loop: false, pitchVariation: 0, maxInstances: 1 },
     'ui.combo_up': { category: 'ui', volume: 0.6, loop: false, pitchVariation: 0.1, maxInstances: 1 },
     'ui.high_score': { category: 'ui', volume: 1.0, loop: false, pitchVariation: 0, maxInstances: 1 },
+    'ui.boss_warning': { category: 'ui', volume: 0.9, loop: false, pitchVariation: 0, maxInstances: 1 },
     
     // Ambient
     'ambient.music': { category: 'ambient', volume: 0.4, loop: true, pitchVariation: 0, maxInstances: 1 }
@@ -165,6 +176,18 @@ export class AudioManager {
         }
         break;
         
+      case 'ship.shield_break':
+        duration = 0.18;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Triangle tone at 440 Hz (vanilla shield sound)
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const phase = (t * 440) % 1;
+          data[i] = (4 * Math.abs(phase - 0.5) - 1) * Math.exp(-t * 12) * 0.4;
+        }
+        break;
+        
       case 'combat.explosion_large':
         duration = 1.2;
         buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
@@ -202,6 +225,34 @@ export class AudioManager {
         }
         break;
         
+      case 'combat.shrapnel':
+        duration = 0.3;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Sharp pop with a rattle of fragments after it
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const noise = (Math.random() - 0.5) * 2;
+          const pop = Math.sin(t * 160 * Math.PI) * Math.exp(-t * 25);
+          const rattle = Math.sin(t * 90 * Math.PI * 2) > 0.6 ? noise * Math.exp(-t * 10) : 0;
+          data[i] = (pop * 0.7 + rattle * 0.4 + noise * 0.1 * Math.exp(-t * 15)) * 0.5;
+        }
+        break;
+        
+      case 'combat.volatile_blast':
+        duration = 1.5;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Deep boom that cracks open first
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const noise = (Math.random() - 0.5) * 2;
+          const crack = noise * Math.exp(-t * 20);
+          const boom = Math.sin(t * 22 * Math.PI) * Math.exp(-t * 1.5);
+          data[i] = (crack * 0.4 + noise * 0.3 * Math.exp(-t * 2) + boom * 0.7) * 0.8;
+        }
+        break;
+        
       case 'pickup.salvage':
         duration = 0.3;
         buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
@@ -226,6 +277,82 @@ export class AudioManager {
         }
         break;
         
+      case 'combat.spawn_warning':
+        duration = 0.5;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Two rising square chirps
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const local = t % 0.25;
+          const freq = 600 + local * 1600;
+          const square = Math.sin(local * freq * Math.PI * 2) > 0 ? 1 : -1;
+          data[i] = square * (local < 0.15 ? 1 : 0) * Math.exp(-local * 10) * 0.25;
+        }
+        break;
+        
+      case 'weapon.laser':
+        duration = 0.12;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Thin high hum, played on each damage pulse
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          data[i] = (Math.sin(t * 1800 * Math.PI * 2) * 0.6 + Math.sin(t * 900 * Math.PI * 2) * 0.4) *
+                   Math.exp(-t * 20) * 0.3;
+        }
+        break;
+        
+      case 'weapon.missile':
+        duration = 0.35;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Noisy whoosh that rises as the motor lights
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const noise = (Math.random() - 0.5) * 2;
+          const freq = 200 + t * 900;
+          data[i] = (noise * 0.6 + Math.sin(t * freq * Math.PI * 2) * 0.4) * Math.exp(-t * 6) * 0.4;
+        }
+        break;
+        
+      case 'weapon.mine':
+        duration = 0.2;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Low metallic clunk
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          data[i] = (Math.sin(t * 180 * Math.PI * 2) + Math.sin(t * 470 * Math.PI * 2) * 0.5) *
+                   Math.exp(-t * 18) * 0.4;
+        }
+        break;
+        
+      case 'weapon.charge':
+        duration = 0.5;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Falling boom with a bright crack on top
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const freq = 1200 * Math.exp(-t * 6) + 80;
+          data[i] = Math.sin(t * freq * Math.PI * 2) * Math.exp(-t * 5) * 0.6;
+        }
+        break;
+        
+      case 'ui.boss_warning':
+        duration = 1.5;
+        buffer = this.audioContext.createBuffer(1, sampleRate * duration, sampleRate);
+        data = buffer.getChannelData(0);
+        // Three low sawtooth klaxon blasts
+        for (let i = 0; i < data.length; i++) {
+          const t = i / sampleRate;
+          const phase = (t * 110) % 1;
+          const gate = (t % 0.5) < 0.35 ? 1 : 0;
+          data[i] = (phase * 2 - 1) * gate * Math.exp(-(t % 0.5) * 3) * 0.4;
+        }
+        break;
+        
       default:
         // Generate generic beep
         duration = 0.1;
@@ -0,0 +1,323 @@
+import * as THREE from 'three';
+import { EntityManager } from './EntityManager';
+import { CollisionSystem } from './CollisionSystem';
+import { PhysicsSystem } from './PhysicsSystem';
+import { AudioManager } from './AudioManager';
+import { ParticleSystem } from './ParticleSystem';
+import { VFXManager } from './VFXManager';
+import { DebrisSystem } from './DebrisSystem';
+import { GameEventBus } from './GameEventBus';
+import { RandomStream } from './RandomSystem';
+import { BaseEntity } from '../entities/BaseEntity';
+import { Ship } from '../entities/Ship';
+import { Bullet } from '../entities/Bullet';
+import type { Boss, BossStatus, BossFireHandler } from '../entities/Boss';
+import '../entities/Boss'; // Registers the 'bosses' entity kind
+import { PickupType } from '../entities/Pickup';
+import { BOSS, ENEMY, INVULN_HIT, TIME_SCALE } from '../constants/gameConstants';
+
+/**
+ * Boss encounters
+ * Every few waves (BOSS.waveInterval) a boss joins the wave, using one of
+ * the bundled sprites without repeats until all have been seen. Handles
+ * hits against the boss (weak points vs armor), ramming, and the
+ * guaranteed rare-currency drops when it goes down. The wave doesn't
+ * complete while a boss is alive.
+ */
+export class BossSystem {
+  private entityManager: EntityManager;
+  private events: GameEventBus;
+  private rng: RandomStream;
+  private cadence: number;
+
+  // Shared by every boss: shots come from the enemy bullet pool
+  private fireHandler: BossFireHandler = (boss, direction, speed) => {
+    const bullet = this.entityManager.spawn('bullets', boss.position.x, boss.position.y);
+    bullet.launch(direction, speed, ENEMY.bulletLife);
+    bullet.setFaction('enemy', boss);
+    this.audioManager?.playSound('combat.enemy_shoot', 0.6);
+  };
+
+  // Sprites not used yet this run (refilled once all have been seen)
+  private spriteBag: number[] = [];
+
+  // Distance from the player the boss arrives at
+  private static readonly ARRIVAL_DISTANCE = 80;
+
+  // Audio and VFX systems (optional)
+  private audioManager?: AudioManager;
+  private particleSystem?: ParticleSystem;
+  private vfxManager?: VFXManager;
+  private debrisSystem?: DebrisSystem;
+
+  constructor(
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem,
+    cadence: number = BOSS.waveInterval
+  ) {
+    this.entityManager = entityManager;
+    this.events = entityManager.getEvents();
+    this.rng = entityManager.getRandom().stream('bosses');
+    this.cadence = cadence;
+    this.audioManager = audioManager;
+    this.particleSystem = particleSystem;
+    this.vfxManager = vfxManager;
+    this.debrisSystem = debrisSystem;
+
+    this.events.on('waveStarted', ({ wave }) => {
+      if (this.isBossWave(wave)) this.spawnBoss(wave);
+    });
+  }
+
+  /**
+   * Check whether a wave brings a boss
+   * @param wave Wave number
+   */
+  public isBossWave(wave: number): boolean {
+    return this.cadence > 0 && wave % this.cadence === 0;
+  }
+
+  /**
+   * Set how many waves apart bosses appear
+   * @param cadence Waves between bosses (0 turns bosses off)
+   */
+  public setCadence(cadence: number): void {
+    this.cadence = Math.max(0, Math.floor(cadence));
+  }
+
+  public getCadence(): number {
+    return this.cadence;
+  }
+
+  /**
+   * Bring in the boss for a wave
+   * @param wave Wave number (sets which boss of the run this is)
+   * @returns The spawned boss
+   */
+  public spawnBoss(wave: number): Boss {
+    const ship = this.getShip();
+    const angle = this.rng.range(0, Math.PI * 2);
+    const originX = ship?.position.x ?? 0;
+    const originY = ship?.position.y ?? 0;
+
+    const boss = this.entityManager.spawn(
+      'bosses',
+      originX + Math.sin(angle) * BossSystem.ARRIVAL_DISTANCE,
+      originY + Math.cos(angle) * BossSystem.ARRIVAL_DISTANCE
+    );
+    const bossNumber = Math.max(1, Math.floor(wave / Math.max(1, this.cadence)));
+    boss.configure(bossNumber, this.drawSprite(), this.rng.chance(0.5) ? 1 : -1);
+    this.link(boss);
+
+    this.audioManager?.playSound('ui.boss_warning');
+    this.vfxManager?.flash('damage_red');
+    this.vfxManager?.shakeScreen('medium_explosion');
+
+    this.events.emit('bossSpawned', { boss, wave });
+    return boss;
+  }
+
+  /**
+   * Take the next sprite from the bag
+   */
+  private drawSprite(): number {
+    if (this.spriteBag.length === 0) {
+      this.spriteBag = Array.from({ length: BOSS.spriteCount }, (_, i) => i);
+    }
+    return this.spriteBag.splice(this.rng.int(this.spriteBag.length), 1)[0];
+  }
+
+  /**
+   * Point a boss at the player and give it the bullet pool
+   * (also adopts bosses restored from a save)
+   */
+  private link(boss: Boss): void {
+    const ship = this.getShip();
+    if (boss.getTarget() !== ship) {
+      boss.setTarget(ship);
+    }
+
+    boss.setFireHandler(this.fireHandler);
+  }
+
+
+  /**
+   * Check hits and rams against the active boss (call from game loop)
+   * @param _dt Delta time in seconds (unused)
+   */
+  public update(_dt: number): void {
+    const boss = this.getBoss();
+    if (!boss) return;
+
+    this.link(boss);
+    this.checkBulletHits(boss);
+    if (boss.active) {
+      this.checkRam(boss);
+    }
+  }
+
+  /**
+   * Player bullets against the weak points first, then the armored hull
+   */
+  private checkBulletHits(boss: Boss): void {
+    const bullets = this.entityManager.getActiveEntities('bullets') as Bullet[];
+
+    for (const bullet of bullets) {
+      if (!bullet.active || bullet.isEnemyBullet() || bullet.hits.has(boss)) continue;
+
+      const onWeakPoint = boss.isWeakPointHit(bullet.position.x, bullet.position.y, bullet.radius);
+      if (!onWeakPoint && !PhysicsSystem.areColliding(bullet, boss)) continue;
+
+      const { x, y } = bullet.position;
+      CollisionSystem.resolveBulletHit(bullet, boss, this.entityManager, this.particleSystem);
+      if (this.damageBoss(boss, x, y, bullet.damage, bullet)) return;
+    }
+  }
+
+  /**
+   * Hit the boss with any player weapon (weak points take extra, the hull less)
+   * @param boss Boss that was hit
+   * @param x Hit position X
+   * @param y Hit position Y
+   * @param amount Damage before armor and weak points
+   * @param source What hit it (bullet, missile, beam...)
+   * @returns True if the hit defeated the boss
+   */
+  public damageBoss(boss: Boss, x: number, y: number, amount: number, source: BaseEntity): boolean {
+    const phase = boss.getPhase();
+    const { damage, weakPoint } = boss.hit(x, y, amount);
+
+    this.audioManager?.playSound('combat.bullet_hit', weakPoint ? 1.0 : 0.5);
+    this.particleSystem?.emit('sparks', new THREE.Vector3(x, y, 0));
+
+    this.events.emit('collision', { entityA: source, entityB: boss, type: 'bullet-boss' });
+    this.events.emit('bossDamaged', { boss, amount: damage, weakPoint });
+
+    if (boss.getPhase() !== phase) {
+      this.vfxManager?.shakeScreen('large_explosion');
+      this.particleSystem?.emit('explosion_medium', boss.position.clone());
+      this.events.emit('bossPhaseChanged', { boss, phase: boss.getPhase() });
+    }
+
+    if (!boss.isAlive()) {
+      this.defeat(boss);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Ramming the boss hurts a lot more than ramming an enemy
+   */
+  private checkRam(boss: Boss): void {
+    const ships = this.entityManager.getActiveEntities('ships') as Ship[];
+
+    for (const ship of ships) {
+      if (ship.isInvulnerable() || !PhysicsSystem.areColliding(ship, boss)) continue;
+
+      ship.setInvulnerable(INVULN_HIT);
+      const direction = PhysicsSystem.getDirection(boss, ship);
+      PhysicsSystem.applyImpulse(ship, direction.x * 60, direction.y * 60);
+
+      this.audioManager?.playSound('ship.damage', 1.0);
+      this.vfxManager?.shakeScreen('ship_hit');
+      this.vfxManager?.flash('damage_red');
+      this.particleSystem?.emit('sparks', ship.position.clone());
+
+      this.events.emit('collision', { entityA: ship, entityB: boss, type: 'ship-boss' });
+
+      CollisionSystem.damageShip(
+        ship,
+        BOSS.ramDamage,
+        `Rammed by ${boss.getName()}`,
+        this.entityManager,
+        this.audioManager,
+        this.particleSystem,
+        this.vfxManager,
+        this.debrisSystem
+      );
+    }
+  }
+
+  /**
+   * Destroy the boss and drop its guaranteed rare currency
+   */
+  private defeat(boss: Boss): void {
+    const position = boss.position.clone();
+
+    boss.despawn();
+    this.events.emit('entityDestroyed', { entity: boss, kind: 'bosses', cause: 'bullet-boss' });
+    this.entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopEnemy * 2);
+
+    // Destruction effects
+    this.audioManager?.playSound('combat.explosion_large');
+    this.vfxManager?.shakeScreen('large_explosion');
+    this.vfxManager?.flash('wave_complete');
+    this.particleSystem?.emit('explosion_large', position);
+    this.particleSystem?.emit('fireworks', position);
+    this.debrisSystem?.spawnDebris('enemy_fragments', position, boss.velocity.clone());
+
+    try {
+      this.spawnDrops(position);
+    } catch (e) {
+      console.warn('[BossSystem] Drop spawn failed:', e);
+    }
+
+    this.events.emit('bossDefeated', { boss });
+  }
+
+  /**
+   * Scatter the boss's rare currency around where it died
+   */
+  private spawnDrops(position: THREE.Vector3): void {
+    const drops = this.entityManager.getRandom().stream('drops');
+
+    for (const [type, count] of Object.entries(BOSS.drops) as [PickupType, number][]) {
+      for (let i = 0; i < count; i++) {
+        const pickup = this.entityManager.spawn('pickups', position.x, position.y, type);
+        const angle = drops.range(0, Math.PI * 2);
+        const speed = drops.range(6, 14);
+        pickup.velocity.set(Math.sin(angle) * speed, Math.cos(angle) * speed, 0);
+      }
+    }
+  }
+
+  /**
+   * Get the boss currently on the field, if any
+   */
+  public getBoss(): Boss | null {
+    return this.entityManager.entities.bosses.find(boss => boss.active) ?? null;
+  }
+
+  /**
+   * HUD info for the active boss, or null when there is none
+   */
+  public getStatus(): BossStatus | null {
+    return this.getBoss()?.getStatus() ?? null;
+  }
+
+  private getShip(): Ship | undefined {
+    return this.entityManager.entities.ships.find(ship => ship.active);
+  }
+
+  /**
+   * Start a new run (sprites can repeat again)
+   */
+  public reset(): void {
+    this.spriteBag = [];
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): any {
+    return {
+      cadence: this.cadence,
+      boss: this.getStatus(),
+      spritesLeft: this.spriteBag.length
+    };
+  }
+}
@@ -1,3 +1,4 @@
+import * as THREE from 'three';
 import { BaseEntity } from '../entities/BaseEntity';
 import { Ship } from '../entities/Ship';
 import { Asteroid } from '../entities/Asteroid';
@@ -5,16 +6,32 @@ import { Bullet } from '../entities/Bullet';
 import { Enemy } from '../entities/Enemy';
 import { Pickup } from '../entities/Pickup';
 import { EntityManager } from './EntityManager';
-import { PhysicsSystem } from './PhysicsSystem';
+import { PhysicsSystem, CollisionContact } from './PhysicsSystem';
 import { AudioManager } from './AudioManager';
 import { ParticleSystem } from './ParticleSystem';
 import { VFXManager } from './VFXManager';
 import { DebrisSystem } from './DebrisSystem';
+import { GameEventBus, DamageCause } from './GameEventBus';
+import { Explosion, ExplosionOptions } from './Explosion';
+import { CurrencyType, TIME_SCALE, HULL, INVULN_HIT, ASTEROID_HEALTH, RIGID_BODY, WEAPON } from '../constants/gameConstants';
+import { rollAsteroidDrops } from '../data/oreDefinitions';
+import type { StatusEffectType } from '../data/statusEffectDefinitions';
+import type { ExplosionType } from '../data/explosionDefinitions';
 
 export interface CollisionEvent {
   entityA: BaseEntity;
   entityB: BaseEntity;
-  type: 'ship-asteroid' | 'bullet-asteroid' | 'ship-bullet' | 'ship-enemy' | 'bullet-enemy' | 'ship-pickup' | 'enemy-bullet';
+  type: 'ship-asteroid' | 'bullet-asteroid' | 'ship-enemy' | 'bullet-enemy' | 'ship-pickup' | 'enemy-bullet'
+    | 'bullet-boss' | 'ship-boss' | 'asteroid-asteroid' | 'asteroid-enemy';
+}
+
+/**
+ * Nearest entity along a ray (see CollisionSystem.raycast)
+ */
+export interface RaycastHit {
+  entity: BaseEntity;
+  distance: number;      // Along the ray to the entity's edge
+  point: THREE.Vector3;  // Where the ray meets it
 }
 
 /**
@@ -23,44 +40,93 @@ export interface CollisionEvent {
  */
 export class CollisionSystem {
   private entityManager: EntityManager;
-  private collisionCallbacks: Map<string, (event: CollisionEvent) => void> = new Map();
+  private events: GameEventBus;
   
   // Performance optimization: spatial partitioning grid
   private gridSize = 100;
   private grid: Map<string, BaseEntity[]> = new Map();
   
+  // Optional rigid-body pass: asteroids bounce off each other and shove enemies
+  private rigidBodies: boolean = RIGID_BODY.enabled;
+  
   // Audio and VFX systems (optional)
   private audioManager?: AudioManager;
   private particleSystem?: ParticleSystem;
   private vfxManager?: VFXManager;
   private debrisSystem?: DebrisSystem;
   
-  // Currency collection callback
-  private onCurrencyCollected?: (type: string, amount: number) => void;
-  
   constructor(
     entityManager: EntityManager,
     audioManager?: AudioManager,
     particleSystem?: ParticleSystem,
     vfxManager?: VFXManager,
-    debrisSystem?: DebrisSystem,
-    onCurrencyCollected?: (type: string, amount: number) => void
+    debrisSystem?: DebrisSystem
   ) {
     this.entityManager = entityManager;
+    this.events = entityManager.getEvents();
     this.audioManager = audioManager;
     this.particleSystem = particleSystem;
     this.vfxManager = vfxManager;
     this.debrisSystem = debrisSystem;
-    this.onCurrencyCollected = onCurrencyCollected;
+    
+    // Volatile asteroids go off however they were destroyed
+    this.events.on('entityDestroyed', ({ entity }) => {
+      if (entity instanceof Asteroid && entity.volatile) {
+        this.explode('volatile', entity.position.clone());
+      }
+    });
   }
   
   /**
-   * Register collision callback for specific collision types
-   * @param type Collision type to listen for
+   * Set off an explosion with this system's grid and effects
+   * @param type Explosion definition to use
+   * @param origin Centre of the blast
+   * @param options Damage scale, spared target and status effects
+   * @returns Everything the blast hit
+   */
+  public explode(type: ExplosionType, origin: THREE.Vector3, options: ExplosionOptions = {}): BaseEntity[] {
+    return Explosion.detonate(
+      type,
+      origin,
+      this,
+      this.entityManager,
+      options,
+      this.audioManager,
+      this.particleSystem,
+      this.vfxManager,
+      this.debrisSystem
+    );
+  }
+  
+  /**
+   * Subscribe to collisions of one type (shorthand for the 'collision' event)
+   * @param type Collision type to listen for, or 'collision' for all of them
    * @param callback Function to call when collision occurs
+   * @param priority Higher runs earlier (default 0)
+   * @returns Function that removes the subscription
+   */
+  public onCollision(
+    type: CollisionEvent['type'] | 'collision',
+    callback: (event: CollisionEvent) => void,
+    priority: number = 0
+  ): () => void {
+    return this.events.on('collision', (event) => {
+      if (type === 'collision' || event.type === type) {
+        callback(event);
+      }
+    }, priority);
+  }
+  
+  /**
+   * Turn the asteroid/enemy rigid-body pass on or off
+   * @param enabled False lets asteroids pass through each other and enemies
    */
-  public onCollision(type: string, callback: (event: CollisionEvent) => void): void {
-    this.collisionCallbacks.set(type, callback);
+  public setRigidBodies(enabled: boolean): void {
+    this.rigidBodies = enabled;
+  }
+  
+  public hasRigidBodies(): boolean {
+    return this.rigidBodies;
   }
   
   /**
@@ -71,10 +137,17 @@ export class CollisionSystem {
     // Clear and rebuild spatial grid
     this.rebuildGrid();
     
+    // Bumps first, so the hit checks below see settled positions
+    if (this.rigidBodies) {
+      this.checkAsteroidAsteroidCollisions();
+      this.checkAsteroidEnemyCollisions();
+    }
+    
     // Check all collision pairs
     this.checkShipAsteroidCollisions();
     this.checkBulletAsteroidCollisions();
-    this.checkShipBulletCollisions();
+    this.checkEnemyBulletCollisions();
+    this.checkDetonations();
     this.checkShipEnemyCollisions();
     this.checkBulletEnemyCollisions();
     this.checkShipPickupCollisions();
@@ -167,8 +240,11 @@ export class CollisionSystem {
           CollisionSystem.handleShipAsteroidCollision(
             ship,
             entity,
+            this.entityManager,
             this.audioManager,
-            this.vfxManager
+            this.particleSystem,
+            this.vfxManager,
+            this.debrisSystem
           );
           
           this.triggerCollision({
@@ -176,11 +252,115 @@ export class CollisionSystem {
             entityB: entity,
             type: 'ship-asteroid'
           });
+          
+          // One hit per tick; the ship is now invulnerable (or destroyed)
+          break;
+        }
+      }
+    }
+  }
+  
+  /**
+   * Bounce asteroids off each other
+   */
+  private checkAsteroidAsteroidCollisions(): void {
+    const asteroids = this.entityManager.getActiveEntities('asteroids') as Asteroid[];
+    const resolved = new Set<Asteroid>();
+    
+    for (const asteroid of asteroids) {
+      resolved.add(asteroid);
+      
+      const gridKey = this.getGridKey(asteroid.position.x, asteroid.position.y);
+      const nearbyEntities = this.grid.get(gridKey) || [];
+      
+      for (const entity of nearbyEntities) {
+        if (!(entity instanceof Asteroid) || resolved.has(entity)) continue;
+        
+        const contact = PhysicsSystem.resolveCollision(asteroid, entity, RIGID_BODY.restitution);
+        if (!contact) continue;
+        
+        // Glancing blows set both rocks spinning, the lighter one faster
+        const spin = contact.tangentSpeed * RIGID_BODY.spinTransfer;
+        const totalMass = contact.massA + contact.massB;
+        asteroid.addSpin((spin / asteroid.radius) * (contact.massB / totalMass));
+        entity.addSpin((spin / entity.radius) * (contact.massA / totalMass));
+        
+        if (contact.impactSpeed >= RIGID_BODY.puffSpeed) {
+          this.spawnImpactDebris(contact, asteroid, entity);
+          this.triggerCollision({
+            entityA: asteroid,
+            entityB: entity,
+            type: 'asteroid-asteroid'
+          });
+        }
+      }
+    }
+  }
+  
+  /**
+   * Shove enemies out of asteroids, crushing any pinned between two heavy rocks
+   */
+  private checkAsteroidEnemyCollisions(): void {
+    const enemies = this.entityManager.getActiveEntities('enemies') as Enemy[];
+    
+    for (const enemy of [...enemies]) {
+      if (!enemy.isAlive()) continue;
+      
+      const gridKey = this.getGridKey(enemy.position.x, enemy.position.y);
+      const nearbyEntities = this.grid.get(gridKey) || [];
+      const heavyContacts: THREE.Vector3[] = [];
+      let crushed = false;
+      
+      for (const entity of nearbyEntities) {
+        if (!(entity instanceof Asteroid)) continue;
+        
+        const contact = PhysicsSystem.resolveCollision(entity, enemy, RIGID_BODY.enemyRestitution);
+        if (!contact) continue;
+        
+        if (contact.impactSpeed >= RIGID_BODY.puffSpeed) {
+          this.spawnImpactDebris(contact, entity, enemy);
+          this.triggerCollision({
+            entityA: entity,
+            entityB: enemy,
+            type: 'asteroid-enemy'
+          });
         }
+        
+        if (contact.massA < contact.massB * RIGID_BODY.crushMassRatio) continue;
+        
+        // Pinned: pushed from roughly opposite sides at once
+        if (heavyContacts.some(normal => normal.dot(contact.normal) <= RIGID_BODY.crushAngle)) {
+          crushed = true;
+          break;
+        }
+        heavyContacts.push(contact.normal);
+      }
+      
+      if (crushed) {
+        CollisionSystem.handleEnemyCrushed(
+          enemy,
+          this.entityManager,
+          this.audioManager,
+          this.particleSystem,
+          this.vfxManager,
+          this.debrisSystem
+        );
       }
     }
   }
   
+  /**
+   * Dust puff for a light knock, chipped-off chunks for a hard one
+   * @param contact Resolved contact
+   * @param entityA First entity in the contact
+   * @param entityB Second entity in the contact
+   */
+  private spawnImpactDebris(contact: CollisionContact, entityA: BaseEntity, entityB: BaseEntity): void {
+    const velocity = entityA.velocity.clone().add(entityB.velocity).multiplyScalar(0.5);
+    const preset = contact.impactSpeed >= RIGID_BODY.chunkSpeed ? 'asteroid_small' : 'impact_puff';
+    this.debrisSystem?.spawnDebris(preset, contact.point, velocity);
+  }
+  
   /**
    * Check collisions between bullets and asteroids
    */
@@ -192,7 +372,17 @@ export class CollisionSystem {
       const nearbyEntities = this.grid.get(gridKey) || [];
       
       for (const entity of nearbyEntities) {
-        if (entity instanceof Asteroid && PhysicsSystem.areColliding(bullet, entity)) {
+        if (!bullet.active) break;
+        if (entity instanceof Asteroid && entity.active && !bullet.hits.has(entity) && PhysicsSystem.areColliding(bullet, entity)) {
+          // Asteroids are cover: enemy fire breaks on them without splitting them
+          if (bullet.isEnemyBullet()) {
+            bullet.despawn();
+            this.particleSystem?.emit('sparks', bullet.position.clone());
+            break;
+          }
+          
+          const hitPosition = bullet.position.clone();
+          
           // Handle collision with integrated effects
           CollisionSystem.handleBulletAsteroidCollision(
             bullet,
@@ -203,21 +393,42 @@ export class CollisionSystem {
             this.vfxManager,
             this.debrisSystem
           );
+          this.burstShrapnel(bullet, entity, hitPosition);
           
           this.triggerCollision({
             entityA: bullet,
             entityB: entity,
             type: 'bullet-asteroid'
           });
+          
+          // One hit per tick; a bullet that carries on can hit again next tick
+          break;
         }
       }
     }
   }
   
   /**
-   * Check collisions between ships and bullets (friendly fire)
+   * Shrapnel rounds burst where they hit, sparing the target the round
+   * itself already damaged
+   * @param bullet The bullet (nothing happens unless it is explosive)
+   * @param target What it hit
+   * @param hitPosition Where it hit
+   */
+  private burstShrapnel(bullet: Bullet, target: BaseEntity, hitPosition: THREE.Vector3): void {
+    if (!bullet.explosive) return;
+    
+    this.explode('shrapnel', hitPosition, {
+      damageScale: bullet.damage,
+      exclude: target,
+      inflicts: bullet.inflicts
+    });
+  }
+  
+  /**
+   * Check collisions between ships and enemy bullets (player bullets never hit the player)
    */
-  private checkShipBulletCollisions(): void {
+  private checkEnemyBulletCollisions(): void {
     const ships = this.entityManager.getActiveEntities('ships') as Ship[];
     const bullets = this.entityManager.getActiveEntities('bullets') as Bullet[];
     
@@ -225,27 +436,52 @@ export class CollisionSystem {
       if (ship.isInvulnerable()) continue;
       
       for (const bullet of bullets) {
-        // Skip bullets fired by this ship (would need owner tracking)
-        if (PhysicsSystem.areColliding(ship, bullet)) {
+        if (bullet.active && bullet.isEnemyBullet() && PhysicsSystem.areColliding(ship, bullet)) {
           // Handle collision with integrated effects
-          CollisionSystem.handleShipBulletCollision(
-            ship,
+          CollisionSystem.handleEnemyBulletCollision(
             bullet,
+            ship,
             this.entityManager,
             this.audioManager,
-            this.particleSystem
+            this.particleSystem,
+            this.vfxManager,
+            this.debrisSystem
           );
           
           this.triggerCollision({
-            entityA: ship,
-            entityB: bullet,
-            type: 'ship-bullet'
+            entityA: bullet,
+            entityB: ship,
+            type: 'enemy-bullet'
           });
+          
+          // One hit per tick; the ship is now invulnerable (or destroyed)
+          break;
         }
       }
     }
   }
 
+  /**
+   * Detonate kamikazes that reached their target (before they can ram it)
+   */
+  private checkDetonations(): void {
+    const enemies = this.entityManager.getActiveEntities('enemies') as Enemy[];
+    
+    for (const enemy of [...enemies]) {
+      if (enemy.active && enemy.isPrimed()) {
+        CollisionSystem.detonateEnemy(
+          enemy,
+          this,
+          this.entityManager,
+          this.audioManager,
+          this.particleSystem,
+          this.vfxManager,
+          this.debrisSystem
+        );
+      }
+    }
+  }
+
   /**
    * Check collisions between ships and enemies
    */
@@ -276,6 +512,9 @@ export class CollisionSystem {
             entityB: entity,
             type: 'ship-enemy'
           });
+          
+          // One hit per tick; the ship is now invulnerable (or destroyed)
+          break;
         }
       }
     }
@@ -288,11 +527,20 @@ export class CollisionSystem {
     const bullets = this.entityManager.getActiveEntities('bullets') as Bullet[];
     
     for (const bullet of bullets) {
+      // Enemies don't shoot each other
+      if (bullet.isEnemyBullet()) continue;
+      
       const gridKey = this.getGridKey(bullet.position.x, bullet.position.y);
       const nearbyEntities = this.grid.get(gridKey) || [];
       
       for (const entity of nearbyEntities) {
-        if (entity instanceof Enemy && entity.isAlive() && PhysicsSystem.areColliding(bullet, entity)) {
+        if (!bullet.active) break;
+        if (
+          entity instanceof Enemy && entity.isAlive() && !bullet.hits.has(entity) &&
+          PhysicsSystem.areColliding(bullet, entity)
+        ) {
+          const hitPosition = bullet.position.clone();
+          
           // Handle collision with integrated effects
           CollisionSystem.handleBulletEnemyCollision(
             bullet,
@@ -303,6 +551,7 @@ export class CollisionSystem {
             this.vfxManager,
             this.debrisSystem
           );
+          this.burstShrapnel(bullet, entity, hitPosition);
           
           this.triggerCollision({
             entityA: bullet,
@@ -333,8 +582,7 @@ export class CollisionSystem {
             this.entityManager,
             this.audioManager,
             this.particleSystem,
-            this.vfxManager,
-            this.onCurrencyCollected
+            this.vfxManager
           );
           
           this.triggerCollision({
@@ -348,28 +596,19 @@ export class CollisionSystem {
   }
   
   /**
-   * Trigger collision event and call registered callbacks
+   * Publish a collision on the event bus
    * @param event Collision event data
    */
   private triggerCollision(event: CollisionEvent): void {
-    // Call type-specific callback
-    const callback = this.collisionCallbacks.get(event.type);
-    if (callback) {
-      callback(event);
-    }
-    
-    // Call generic collision callback
-    const genericCallback = this.collisionCallbacks.get('collision');
-    if (genericCallback) {
-      genericCallback(event);
-    }
+    this.events.emit('collision', event);
   }
   
   /**
-   * Handle bullet-asteroid collision with asteroid splitting
+   * Handle bullet-asteroid collision: chip the asteroid, splitting it at zero
+   * hit points (into extra pieces when the finishing hit overkills it)
    * @param bullet The bullet entity
    * @param asteroid The asteroid entity
-   * @param entityManager Entity manager for scene access
+   * @param entityManager Entity manager owning the collections
    * @param audioManager Optional audio manager for sound effects
    * @param particleSystem Optional particle system for explosion effects
    * @param vfxManager Optional VFX manager for screen shake
@@ -384,8 +623,131 @@ export class CollisionSystem {
     vfxManager?: VFXManager,
     debrisSystem?: DebrisSystem
   ): void {
-    const scene = entityManager.getScene();
+    const hitPosition = bullet.position.clone();
+    
+    // Pierce, ricochet or stop before the asteroid splits, so its pieces aren't retargeted
+    CollisionSystem.resolveBulletHit(bullet, asteroid, entityManager, particleSystem);
+    
+    CollisionSystem.damageAsteroid(
+      asteroid,
+      bullet.damage,
+      hitPosition,
+      'bullet-asteroid',
+      entityManager,
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
+  }
+  
+  /**
+   * What a player bullet does after hitting something: pierce on through
+   * first, then ricochet toward the next target, otherwise it is spent.
+   * Everything it hits is remembered so it never hits the same target twice.
+   * @param bullet The bullet
+   * @param target What it just hit
+   * @param entityManager Entity manager holding the ricochet candidates
+   * @param particleSystem Optional particle system for the ricochet spark
+   * @returns True if the bullet carries on
+   */
+  public static resolveBulletHit(
+    bullet: Bullet,
+    target: BaseEntity,
+    entityManager: EntityManager,
+    particleSystem?: ParticleSystem
+  ): boolean {
+    bullet.hits.add(target);
+    
+    if (bullet.pierceThrough()) {
+      return true;
+    }
+    
+    const next = bullet.ricochet > 0 ? CollisionSystem.findRicochetTarget(bullet, entityManager) : null;
+    if (bullet.ricochetOff(next, target)) {
+      particleSystem?.emit('ricochet_spark', bullet.position.clone());
+      return true;
+    }
+    
+    bullet.despawn();
+    return false;
+  }
+  
+  /**
+   * Nearest live asteroid or enemy a ricochet can turn toward: within
+   * WEAPON.ricochetRange, inside the cone around the bullet's heading, and
+   * not already hit by this bullet
+   * @param bullet The ricocheting bullet
+   * @param entityManager Entity manager holding the candidates
+   * @returns The target, or null if nothing is in the cone
+   */
+  public static findRicochetTarget(bullet: Bullet, entityManager: EntityManager): BaseEntity | null {
+    const heading = Math.atan2(bullet.velocity.x, bullet.velocity.y);
+    const candidates = [
+      ...entityManager.getActiveEntities('asteroids'),
+      ...(entityManager.getActiveEntities('enemies') as Enemy[]).filter(enemy => enemy.isAlive())
+    ];
+    
+    let nearest: BaseEntity | null = null;
+    let nearestDistance: number = WEAPON.ricochetRange;
+    
+    for (const candidate of candidates) {
+      if (!candidate.active || bullet.hits.has(candidate)) continue;
+      
+      const dx = candidate.position.x - bullet.position.x;
+      const dy = candidate.position.y - bullet.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > nearestDistance) continue;
+      
+      let off = Math.atan2(dx, dy) - heading;
+      while (off > Math.PI) off -= Math.PI * 2;
+      while (off < -Math.PI) off += Math.PI * 2;
+      if (Math.abs(off) > WEAPON.ricochetCone) continue;
+      
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+    
+    return nearest;
+  }
+  
+  /**
+   * Damage an asteroid from any weapon, splitting it at zero hit points
+   * (into extra pieces when the finishing hit overkills it)
+   * @param asteroid The asteroid entity
+   * @param damage Damage dealt
+   * @param hitPosition Where it was hit (for the chip sparks)
+   * @param cause Cause reported with 'entityDestroyed'
+   * @param entityManager Entity manager owning the collections
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for explosion effects
+   * @param vfxManager Optional VFX manager for screen shake
+   * @param debrisSystem Optional debris system for destruction particles
+   * @returns True if the asteroid was destroyed
+   */
+  public static damageAsteroid(
+    asteroid: Asteroid,
+    damage: number,
+    hitPosition: THREE.Vector3,
+    cause: DamageCause,
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): boolean {
     const position = asteroid.position.clone();
+    const healthBefore = asteroid.health;
+    
+    if (!asteroid.takeDamage(damage)) {
+      // Chipped but still in one piece
+      particleSystem?.emit('sparks', hitPosition);
+      audioManager?.playSound('combat.bullet_hit', 0.6);
+      return false;
+    }
+    
+    const overkill = damage - healthBefore;
+    const shattered = overkill >= asteroid.getMaxHealth() * ASTEROID_HEALTH.overkillRatio;
     
     // Determine explosion type based on asteroid size
     let explosionType: string;
@@ -397,6 +759,7 @@ export class CollisionSystem {
       debrisType = 'asteroid_large';
       shakePreset = 'large_explosion';
       audioManager?.playSound('combat.explosion_large');
+      entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopLarge);
     } else if (asteroid.radius >= 8) {
       explosionType = 'explosion_medium';
       debrisType = 'asteroid_medium';
@@ -409,17 +772,18 @@ export class CollisionSystem {
       audioManager?.playSound('combat.explosion_small');
     }
     
-    // Destroy the bullet
-    bullet.despawn(scene);
-    
     // Split the asteroid if possible
-    const pieces = asteroid.split();
-    asteroid.despawn(scene);
+    const pieces = asteroid.split(
+      entityManager.getRandom().stream('asteroids'),
+      shattered ? ASTEROID_HEALTH.shatterPieces : 0
+    );
+    asteroid.despawn();
+    entityManager.getEvents().emit('entityDestroyed', { entity: asteroid, kind: 'asteroids', cause });
     
     // Spawn asteroid pieces
     for (const piece of pieces) {
       entityManager.addExistingEntity(piece, 'asteroids');
-      piece.spawn(scene);
+      piece.spawn();
     }
     
     // Add visual and audio effects
@@ -427,31 +791,37 @@ export class CollisionSystem {
     vfxManager?.shakeScreen(shakePreset);
     debrisSystem?.spawnDebris(debrisType, position);
     
-    // Currency drops (weighted). Uses existing spawn helpers and magnet targeting.
+    // Drops from the asteroid's ore and size table (spawning handles magnet targeting)
     try {
-      const ships = entityManager.getActiveEntities('ships') as Ship[];
-      const dropCount = Math.random() < 0.7 ? 1 : 2; // 70% one, 30% two
-      for (let i = 0; i < dropCount; i++) {
-        const p = entityManager.spawnRandomPickup(position.x, position.y);
-        if (ships.length) p.setMagnetTarget(ships[0]);
+      const drops = rollAsteroidDrops(asteroid.ore, asteroid.sizeKey, entityManager.getRandom().stream('drops'));
+      for (const type of drops) {
+        entityManager.spawn('pickups', position.x, position.y, type);
       }
     } catch (e) {
       console.warn('[CollisionSystem] Pickup spawn failed:', e);
     }
+    
+    return true;
   }
   
   /**
    * Handle ship-asteroid collision
    * @param ship The ship entity
    * @param asteroid The asteroid entity
+   * @param entityManager Entity manager publishing the damage events
    * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for explosion effects
    * @param vfxManager Optional VFX manager for screen shake and flash
+   * @param debrisSystem Optional debris system for wreckage
    */
   public static handleShipAsteroidCollision(
     ship: Ship,
     asteroid: Asteroid,
+    entityManager: EntityManager,
     audioManager?: AudioManager,
-    vfxManager?: VFXManager
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
   ): void {
     // Make ship invulnerable temporarily
     ship.setInvulnerable(2.0);
@@ -464,39 +834,118 @@ export class CollisionSystem {
     audioManager?.playSound('ship.damage', 1.0);
     vfxManager?.shakeScreen('ship_hit');
     vfxManager?.flash('damage_red');
+    
+    CollisionSystem.damageShip(
+      ship,
+      HULL.asteroidDamage,
+      'Rammed by asteroid',
+      entityManager,
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
   }
   
   /**
-   * Handle ship-bullet collision (friendly fire)
+   * Apply damage to a ship: shield charges first, then hull (destroyed at zero)
    * @param ship The ship entity
-   * @param bullet The bullet entity
-   * @param entityManager Entity manager for scene access
+   * @param amount Hull points to remove
+   * @param reason What hit the ship (reported as the death reason)
+   * @param entityManager Entity manager publishing the damage events
    * @param audioManager Optional audio manager for sound effects
-   * @param particleSystem Optional particle system for hit effects
+   * @param particleSystem Optional particle system for explosion effects
+   * @param vfxManager Optional VFX manager for screen shake
+   * @param debrisSystem Optional debris system for wreckage
+   * @returns True if the ship was destroyed
    */
-  public static handleShipBulletCollision(
+  public static damageShip(
     ship: Ship,
+    amount: number,
+    reason: string,
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): boolean {
+    const events = entityManager.getEvents();
+    
+    // A shield charge absorbs the whole hit
+    if (ship.consumeShield()) {
+      events.emit('shieldsChanged', { ship, shields: ship.getShields() });
+      audioManager?.playSound('ship.shield_break');
+      particleSystem?.emit('shield_break', ship.position.clone());
+      return false;
+    }
+    
+    const destroyed = ship.takeDamage(amount);
+    events.emit('shipDamaged', { ship, amount, hull: ship.getHull(), reason });
+    
+    if (!destroyed) return false;
+    
+    const position = ship.position.clone();
+    ship.despawn();
+    events.emit('shipDestroyed', { ship, reason });
+    
+    // Destruction effects
+    audioManager?.playSound('ship.death');
+    vfxManager?.shakeScreen('large_explosion');
+    particleSystem?.emit('explosion_large', position);
+    debrisSystem?.spawnDebris('ship_wreckage', position, ship.velocity.clone());
+    
+    return true;
+  }
+  
+  /**
+   * Handle an enemy bullet hitting the player's ship
+   * @param bullet The enemy bullet
+   * @param ship The ship entity
+   * @param entityManager Entity manager publishing the damage events
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for hit effects
+   * @param vfxManager Optional VFX manager for screen shake and flash
+   * @param debrisSystem Optional debris system for wreckage
+   */
+  public static handleEnemyBulletCollision(
     bullet: Bullet,
+    ship: Ship,
     entityManager: EntityManager,
     audioManager?: AudioManager,
-    particleSystem?: ParticleSystem
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
   ): void {
-    // Only if friendly fire is enabled
-    bullet.despawn(entityManager.getScene());
+    // Read the shooter before despawning clears it
+    const shooter = bullet.owner;
+    const reason = shooter instanceof Enemy ? `Shot by ${shooter.enemyType}` : 'Shot down';
     
-    // Minor damage to ship
-    ship.setInvulnerable(1.0);
+    bullet.despawn();
+    ship.setInvulnerable(INVULN_HIT);
     
     // Audio and visual feedback
     audioManager?.playSound('combat.bullet_hit', 0.8);
+    vfxManager?.shakeScreen('ship_hit');
+    vfxManager?.flash('damage_red');
     particleSystem?.emit('sparks', bullet.position.clone());
+    
+    CollisionSystem.damageShip(
+      ship,
+      HULL.enemyShotDamage,
+      reason,
+      entityManager,
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
   }
 
   /**
    * Handle ship-enemy collision
    * @param ship The ship entity
    * @param enemy The enemy entity
-   * @param entityManager Entity manager for scene access
+   * @param entityManager Entity manager publishing the destruction event
    * @param audioManager Optional audio manager for sound effects
    * @param particleSystem Optional particle system for collision effects
    * @param vfxManager Optional VFX manager for screen shake
@@ -511,7 +960,6 @@ export class CollisionSystem {
     vfxManager?: VFXManager,
     debrisSystem?: DebrisSystem
   ): void {
-    const scene = entityManager.getScene();
     const collisionPoint = enemy.position.clone();
     
     // Both ship and enemy take damage
@@ -523,14 +971,30 @@ export class CollisionSystem {
     vfxManager?.flash('damage_red');
     particleSystem?.emit('sparks', collisionPoint);
     
+    CollisionSystem.damageShip(
+      ship,
+      HULL.enemyRamDamage,
+      `Rammed by ${enemy.enemyType}`,
+      entityManager,
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
+    
     if (enemy.takeDamage(1)) {
       // Enemy destroyed
-      enemy.despawn(scene);
+      enemy.despawn();
+      entityManager.getEvents().emit('entityDestroyed', { entity: enemy, kind: 'enemies', cause: 'ship-enemy' });
+      entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopEnemy);
       
       // Add destruction effects
       audioManager?.playSound('combat.explosion_medium');
       particleSystem?.emit('explosion_medium', collisionPoint);
       debrisSystem?.spawnDebris('enemy_fragments', collisionPoint);
+    } else {
+      // Reeling from the impact
+      enemy.effects.apply('slow');
     }
     
     // Apply knockback to both
@@ -539,11 +1003,85 @@ export class CollisionSystem {
     PhysicsSystem.applyImpulse(enemy, -direction.x * 20, -direction.y * 20);
   }
 
+  /**
+   * Destroy an enemy crushed between two heavy asteroids
+   * @param enemy The enemy entity
+   * @param entityManager Entity manager publishing the destruction event
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for explosion effects
+   * @param vfxManager Optional VFX manager for screen shake
+   * @param debrisSystem Optional debris system for destruction particles
+   */
+  public static handleEnemyCrushed(
+    enemy: Enemy,
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): void {
+    const position = enemy.position.clone();
+    
+    enemy.health = 0;
+    enemy.despawn();
+    entityManager.getEvents().emit('entityDestroyed', { entity: enemy, kind: 'enemies', cause: 'asteroid-enemy' });
+    entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopEnemy);
+    
+    // Destruction effects
+    audioManager?.playSound('combat.explosion_medium');
+    vfxManager?.shakeScreen('medium_explosion');
+    particleSystem?.emit('explosion_medium', position);
+    debrisSystem?.spawnDebris('enemy_fragments', position);
+  }
+
+  /**
+   * Blow up an enemy with a blast (kamikazes), setting off its explosion
+   * @param enemy The enemy entity (its definition names the explosion)
+   * @param collisionSystem Collision system whose grid supplies the blast's targets
+   * @param entityManager Entity manager publishing the destruction and damage events
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for explosion effects
+   * @param vfxManager Optional VFX manager for screen shake and flash
+   * @param debrisSystem Optional debris system for destruction particles
+   */
+  public static detonateEnemy(
+    enemy: Enemy,
+    collisionSystem: CollisionSystem,
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): void {
+    const blast = enemy.getDefinition().blast;
+    if (!blast) return;
+    
+    const position = enemy.position.clone();
+    
+    enemy.health = 0;
+    enemy.despawn();
+    entityManager.getEvents().emit('entityDestroyed', { entity: enemy, kind: 'enemies', cause: 'detonation' });
+    
+    debrisSystem?.spawnDebris('enemy_fragments', position, enemy.velocity.clone());
+    
+    Explosion.detonate(
+      blast.explosion,
+      position,
+      collisionSystem,
+      entityManager,
+      {},
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
+  }
+
   /**
    * Handle bullet-enemy collision
    * @param bullet The bullet entity
    * @param enemy The enemy entity
-   * @param entityManager Entity manager for scene access
+   * @param entityManager Entity manager owning the collections
    * @param audioManager Optional audio manager for sound effects
    * @param particleSystem Optional particle system for hit/explosion effects
    * @param vfxManager Optional VFX manager for screen shake
@@ -558,20 +1096,57 @@ export class CollisionSystem {
     vfxManager?: VFXManager,
     debrisSystem?: DebrisSystem
   ): void {
-    const scene = entityManager.getScene();
-    const hitPosition = enemy.position.clone();
+    CollisionSystem.resolveBulletHit(bullet, enemy, entityManager, particleSystem);
     
-    // Destroy bullet
-    bullet.despawn(scene);
+    CollisionSystem.damageEnemy(
+      enemy,
+      bullet.damage,
+      bullet.inflicts,
+      'bullet-enemy',
+      entityManager,
+      audioManager,
+      particleSystem,
+      vfxManager,
+      debrisSystem
+    );
+  }
+
+  /**
+   * Damage an enemy from any weapon, destroying it at zero health
+   * @param enemy The enemy entity
+   * @param damage Damage dealt
+   * @param inflicts Status effects applied if it survives
+   * @param cause Cause reported with 'entityDestroyed'
+   * @param entityManager Entity manager owning the collections
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for hit/explosion effects
+   * @param vfxManager Optional VFX manager for screen shake
+   * @param debrisSystem Optional debris system for destruction particles
+   * @returns True if the enemy was destroyed
+   */
+  public static damageEnemy(
+    enemy: Enemy,
+    damage: number,
+    inflicts: readonly StatusEffectType[],
+    cause: DamageCause,
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): boolean {
+    const hitPosition = enemy.position.clone();
     
     // Hit sound effect
     audioManager?.playSound('combat.bullet_hit', 0.8);
     particleSystem?.emit('sparks', hitPosition);
     
     // Damage enemy
-    if (enemy.takeDamage(bullet.damage)) {
+    if (enemy.takeDamage(damage)) {
       // Enemy destroyed
-      enemy.despawn(scene);
+      enemy.despawn();
+      entityManager.getEvents().emit('entityDestroyed', { entity: enemy, kind: 'enemies', cause });
+      entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopEnemy);
       
       // Destruction effects
       audioManager?.playSound('combat.explosion_medium');
@@ -580,23 +1155,30 @@ export class CollisionSystem {
       debrisSystem?.spawnDebris('enemy_fragments', hitPosition, enemy.velocity.clone());
       
       // Chance to spawn pickup
-      if (Math.random() < 0.15) { // 15% chance
-        const pickup = Pickup.createRandom(enemy.position.x, enemy.position.y);
+      const drops = entityManager.getRandom().stream('drops');
+      if (drops.chance(0.15)) { // 15% chance
+        const pickup = Pickup.createRandom(enemy.position.x, enemy.position.y, drops, entityManager.getRandom().stream('vfx'));
         entityManager.addExistingEntity(pickup, 'pickups');
-        pickup.spawn(scene);
+        pickup.spawn();
       }
+      return true;
+    }
+    
+    // Effects the shot carries (Overcharge rounds set enemies burning)
+    for (const type of inflicts) {
+      enemy.effects.apply(type);
     }
+    return false;
   }
 
   /**
    * Handle ship-pickup collision
    * @param ship The ship entity
    * @param pickup The pickup entity
-   * @param entityManager Entity manager for scene access
+   * @param entityManager Entity manager publishing the collection events
    * @param audioManager Optional audio manager for sound effects
    * @param particleSystem Optional particle system for collection effects
    * @param vfxManager Optional VFX manager for visual feedback
-   * @param onCurrencyCollected Optional callback for currency collection
    */
   public static handleShipPickupCollision(
     ship: Ship,
@@ -604,16 +1186,24 @@ export class CollisionSystem {
     entityManager: EntityManager,
     audioManager?: AudioManager,
     particleSystem?: ParticleSystem,
-    vfxManager?: VFXManager,
-    onCurrencyCollected?: (type: string, amount: number) => void
+    vfxManager?: VFXManager
   ): void {
     const pickupPosition = pickup.position.clone();
     const pickupType = pickup.pickupType; // Use the pickupType property
+    const events = entityManager.getEvents();
     
     // Apply pickup effect
-    if (pickup.applyToShip(ship, onCurrencyCollected)) {
+    const consumed = pickup.applyToShip(ship, (type, amount) => {
+      events.emit('currencyCollected', { type: type as CurrencyType, amount });
+    });
+    
+    if (consumed) {
       // Remove pickup if it was consumed
-      pickup.despawn(entityManager.getScene());
+      pickup.despawn();
+      events.emit('pickupCollected', { pickup, ship });
+      if (pickupType === 'shield') {
+        events.emit('shieldsChanged', { ship, shields: ship.getShields() });
+      }
       
       // Audio and visual feedback based on pickup type
       switch (pickupType) {
@@ -678,20 +1268,121 @@ export class CollisionSystem {
     return result;
   }
   
+  /**
+   * Find the nearest entity along a ray (laser beams)
+   * Only the grid cells the ray passes through are searched; the grid is
+   * rebuilt once per tick, so inactive entities are skipped.
+   * @param x Ray origin X
+   * @param y Ray origin Y
+   * @param angle Ray direction (radians, 0 = +Y)
+   * @param length Ray length
+   * @param filter Which entities can stop the ray
+   * @returns The nearest hit, or null if the ray is clear
+   */
+  public raycast(
+    x: number,
+    y: number,
+    angle: number,
+    length: number,
+    filter: (entity: BaseEntity) => boolean
+  ): RaycastHit | null {
+    const dirX = Math.sin(angle);
+    const dirY = Math.cos(angle);
+    
+    // Every entity is also filed in its neighbouring cells, so sampling the
+    // cells under the ray is enough
+    const gridKeys = new Set<string>();
+    const samples = Math.max(1, Math.ceil(length / (this.gridSize / 2)));
+    for (let i = 0; i <= samples; i++) {
+      const distance = (length * i) / samples;
+      gridKeys.add(this.getGridKey(x + dirX * distance, y + dirY * distance));
+    }
+    
+    const checkedEntities = new Set<BaseEntity>();
+    let nearest: BaseEntity | null = null;
+    let nearestDistance = Infinity;
+    
+    for (const key of gridKeys) {
+      for (const entity of this.grid.get(key) || []) {
+        if (checkedEntities.has(entity)) continue;
+        checkedEntities.add(entity);
+        if (!entity.active || !filter(entity)) continue;
+        
+        const distance = CollisionSystem.rayCircleDistance(
+          x, y, dirX, dirY, length,
+          entity.position.x, entity.position.y, entity.radius
+        );
+        if (distance !== null && distance < nearestDistance) {
+          nearest = entity;
+          nearestDistance = distance;
+        }
+      }
+    }
+    
+    if (!nearest) return null;
+    
+    return {
+      entity: nearest,
+      distance: nearestDistance,
+      point: new THREE.Vector3(x + dirX * nearestDistance, y + dirY * nearestDistance, 0)
+    };
+  }
+  
+  /**
+   * Distance along a ray to where it enters a circle
+   * @param x Ray origin X
+   * @param y Ray origin Y
+   * @param dirX Ray direction X (unit length)
+   * @param dirY Ray direction Y (unit length)
+   * @param length Ray length
+   * @param cx Circle centre X
+   * @param cy Circle centre Y
+   * @param radius Circle radius
+   * @returns Distance (0 if the origin is inside), or null if the ray misses
+   */
+  public static rayCircleDistance(
+    x: number,
+    y: number,
+    dirX: number,
+    dirY: number,
+    length: number,
+    cx: number,
+    cy: number,
+    radius: number
+  ): number | null {
+    const toX = cx - x;
+    const toY = cy - y;
+    const along = toX * dirX + toY * dirY;
+    const missSq = toX * toX + toY * toY - along * along;
+    if (missSq > radius * radius) return null;
+    
+    const distance = along - Math.sqrt(radius * radius - missSq);
+    if (distance > length || along + radius < 0) return null;
+    
+    return Math.max(0, distance);
+  }
+  
   /**
    * Check if a circular area is clear of entities
    * @param x Center X coordinate
    * @param y Center Y coordinate
    * @param radius Check radius
-   * @param excludeTypes Entity types to exclude from check
+   * @param excludeTypes Entity classes to exclude from check (matched with instanceof)
    * @returns True if area is clear
    */
-  public isAreaClear(x: number, y: number, radius: number, excludeTypes: string[] = []): boolean {
+  public isAreaClear(
+    x: number,
+    y: number,
+    radius: number,
+    excludeTypes: ReadonlyArray<new (...args: any[]) => BaseEntity> = []
+  ): boolean {
     const entities = this.getEntitiesInRadius(x, y, radius);
     
     for (const entity of entities) {
-      const entityType = entity.constructor.name.toLowerCase();
-      if (!excludeTypes.includes(entityType)) {
+      // The grid is rebuilt once per tick, so skip anything despawned since
+      if (!entity.active) continue;
+      
+      if (!excludeTypes.some(type => entity instanceof type)) {
         return false;
       }
     }
@@ -707,7 +1398,7 @@ export class CollisionSystem {
     return {
       gridCells: this.grid.size,
       totalEntitiesInGrid: Array.from(this.grid.values()).reduce((sum, entities) => sum + entities.length, 0),
-      callbacks: this.collisionCallbacks.size,
+      listeners: this.events.listenerCount('collision'),
       gridSize: this.gridSize
     };
   }
@@ -88,6 +88,20 @@ export class DebrisSystem {
       }
     },
     
+    impact_puff: {
+      count: 2,
+      sizeRange: { min: 0.2, max: 0.5 },
+      speedRange: { min: 2, max: 8 },
+      lifetime: 0.8,
+      material: null as any,
+      geometry: null as any,
+      physics: {
+        drag: 0.9,
+        gravity: new THREE.Vector3(0, 0, 0),
+        bounce: 0.2
+      }
+    },
+    
     ship_wreckage: {
       count: 6,
       sizeRange: { min: 0.8, max: 2.0 },
@@ -212,6 +226,9 @@ export class DebrisSystem {
     DebrisSystem.DEBRIS_PRESETS.asteroid_small.geometry = this.asteroidChunkGeometry!;
     DebrisSystem.DEBRIS_PRESETS.asteroid_small.material = this.asteroidMaterial!;
     
+    DebrisSystem.DEBRIS_PRESETS.impact_puff.geometry = this.asteroidChunkGeometry!;
+    DebrisSystem.DEBRIS_PRESETS.impact_puff.material = this.asteroidMaterial!;
+    
     // Ship and enemy debris
     DebrisSystem.DEBRIS_PRESETS.ship_wreckage.geometry = this.shipWreckageGeometry!;
     DebrisSystem.DEBRIS_PRESETS.ship_wreckage.material = this.metalMaterial!;
@@ -0,0 +1,154 @@
+import { EntityManager } from './EntityManager';
+import { CollisionSystem } from './CollisionSystem';
+import { AudioManager } from './AudioManager';
+import { ParticleSystem } from './ParticleSystem';
+import { BaseEntity } from '../entities/BaseEntity';
+import { Ship } from '../entities/Ship';
+import type { Drone } from '../entities/Drone';
+import '../entities/Drone'; // Registers the 'drones' entity kind
+import { Asteroid } from '../entities/Asteroid';
+import { Enemy } from '../entities/Enemy';
+import { DRONE } from '../constants/gameConstants';
+
+/**
+ * Keeps the player's drone companions in line with the drone count
+ * (mods.drones) and fires them at the nearest target. Drones go down with
+ * their ship and launch again with the next one.
+ */
+export class DroneSystem {
+  private entityManager: EntityManager;
+  private collisionSystem: CollisionSystem;
+  private owner: Ship | null = null;
+  private count: number = 0;
+
+  // Audio and VFX systems (optional)
+  private audioManager?: AudioManager;
+  private particleSystem?: ParticleSystem;
+
+  constructor(
+    entityManager: EntityManager,
+    collisionSystem: CollisionSystem,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem
+  ) {
+    this.entityManager = entityManager;
+    this.collisionSystem = collisionSystem;
+    this.audioManager = audioManager;
+    this.particleSystem = particleSystem;
+
+    const events = entityManager.getEvents();
+    events.on('shipRespawned', ({ ship }) => this.setOwner(ship));
+    events.on('shipDestroyed', ({ ship }) => {
+      if (ship === this.owner) this.sync();
+    });
+  }
+
+  /**
+   * Set how many drones the player should have
+   * @param count Drone count (capped at DRONE.maxCount)
+   */
+  public setCount(count: number): void {
+    this.count = Math.max(0, Math.min(count, DRONE.maxCount));
+    this.sync();
+  }
+
+  /**
+   * Set the ship the drones orbit (adopts drones restored from a save)
+   * @param ship Player ship, or null to ground every drone
+   */
+  public setOwner(ship: Ship | null): void {
+    this.owner = ship;
+    this.sync();
+  }
+
+  /**
+   * Spawn or remove drones until they match the count and owner
+   */
+  private sync(): void {
+    const drones = this.getDrones();
+    const wanted = this.owner?.active ? this.count : 0;
+
+    while (drones.length > wanted) {
+      drones.pop()!.despawn();
+    }
+
+    drones.forEach((drone, slot) => drone.setOwner(this.owner!, slot));
+
+    for (let slot = drones.length; slot < wanted; slot++) {
+      const drone = this.entityManager.spawn('drones', this.owner!.position.x, this.owner!.position.y);
+      drone.setOwner(this.owner!, slot, (slot * Math.PI * 2) / DRONE.maxCount);
+    }
+  }
+
+  /**
+   * Fire every ready drone at its nearest target
+   * @param _dt Delta time in seconds (unused; cooldowns run on the drones)
+   */
+  public update(_dt: number): void {
+    for (const drone of this.getDrones()) {
+      if (!drone.canFire()) continue;
+
+      const target = this.acquireTarget(drone);
+      if (!target) continue;
+
+      const bullet = drone.fireAt(target);
+      if (!bullet) continue;
+
+      bullet.damage = DRONE.damage;
+      this.entityManager.addExistingEntity(bullet, 'bullets');
+      bullet.spawn();
+
+      this.audioManager?.playSound('ship.shoot', 0.4);
+      this.particleSystem?.emit('muzzle_flash', drone.position.clone());
+    }
+  }
+
+  /**
+   * Nearest enemy in range, otherwise the nearest asteroid in range
+   * @param drone Drone looking for a target
+   */
+  private acquireTarget(drone: Drone): BaseEntity | null {
+    let enemy: BaseEntity | null = null;
+    let asteroid: BaseEntity | null = null;
+    let enemyDistance = Infinity;
+    let asteroidDistance = Infinity;
+
+    const nearby = this.collisionSystem.getEntitiesInRadius(drone.position.x, drone.position.y, DRONE.targetRange);
+    for (const entity of nearby) {
+      if (!entity.active) continue;
+
+      const distance = drone.distanceTo(entity);
+      if (entity instanceof Enemy && distance < enemyDistance) {
+        enemy = entity;
+        enemyDistance = distance;
+      } else if (entity instanceof Asteroid && distance < asteroidDistance) {
+        asteroid = entity;
+        asteroidDistance = distance;
+      }
+    }
+
+    return enemy ?? asteroid;
+  }
+
+  /**
+   * Active drones in slot order
+   */
+  public getDrones(): Drone[] {
+    return this.entityManager.entities.drones.filter(drone => drone.active);
+  }
+
+  public getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): any {
+    return {
+      count: this.count,
+      active: this.getDrones().length,
+      hasOwner: !!this.owner?.active
+    };
+  }
+}
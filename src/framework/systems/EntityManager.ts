@@ -1,112 +1,121 @@
 import * as THREE from 'three';
-import { BaseEntity } from '../entities/BaseEntity';
-import { Ship } from '../entities/Ship';
-import { Asteroid, AsteroidSize } from '../entities/Asteroid';
-import { Bullet } from '../entities/Bullet';
-import { Enemy, EnemyType } from '../entities/Enemy';
-import { Pickup, PickupType } from '../entities/Pickup';
-import { POOL_SIZES, BULLET } from '../constants/gameConstants';
+import { BaseEntity, EntitySnapshot } from '../entities/BaseEntity';
+import { RandomSystem, RandomSnapshot } from './RandomSystem';
+import { EntityView } from './EntityView';
+import { GameEventBus } from './GameEventBus';
+import { Scheduler } from './Scheduler';
+import { TimeScaleSystem, TimeScaleSnapshot } from './TimeScaleSystem';
+import { EntityRegistry, EntityKind, EntityOf, EntityTypeDefinition, SnapshotOf, VariantOf } from './EntityRegistry';
 
-export interface EntityCollections {
-  ships: Ship[];
-  asteroids: Asteroid[];
-  bullets: Bullet[];
-  enemies: Enemy[];
-  pickups: Pickup[];
-  // Additional entity types for future expansion
-  // drones: Drone[];
-}
+/**
+ * Active entities by collection key
+ * Every entity kind, built-in or not, extends this interface via declaration
+ * merging and registers with EntityRegistry (see EntityRegistry for an example)
+ */
+export interface EntityCollections {}
+
+/**
+ * Variants fixed when an entity is built (asteroid size, enemy type), by
+ * collection key; kinds with variants extend this next to EntityCollections
+ */
+export interface EntityVariants {}
+
+/**
+ * Serialized state of every active entity plus the run's random streams
+ */
+export type EntityManagerSnapshot = {
+  random: RandomSnapshot;
+  timeScale?: TimeScaleSnapshot; // Absent in saves made before time scaling
+} & {
+  [K in EntityKind]?: SnapshotOf<K>[];
+};
 
 /**
  * Central entity management system
  * Handles entity lifecycle, updates, and collections
+ * Runs headless (no meshes) when constructed without a scene
  */
 export class EntityManager {
   // Entity collections
   public entities: EntityCollections;
   
-  // Three.js scene reference
-  private scene: THREE.Scene;
+  // View layer mirroring entities into the scene (absent when headless)
+  private view?: EntityView;
+  
+  // Seeded randomness shared by every gameplay system of this run
+  private rng: RandomSystem;
+  
+  // Event bus shared by every gameplay system of this run
+  private events: GameEventBus;
+  
+  // Game-time scheduler for delayed gameplay actions (pauses with the sim)
+  private scheduler: Scheduler;
   
-  // Entity pools for performance (using simple arrays for now)
-  private shipPool: Ship[] = [];
-  private asteroidPool: Asteroid[] = [];
-  private bulletPool: Bullet[] = [];
-  private enemyPool: Enemy[] = [];
-  private pickupPool: Pickup[] = [];
+  // Global and per-group time scales (slow motion, hit-stop)
+  private timeScale: TimeScaleSystem;
+  
+  // Entity pools for performance, one per registered kind
+  private pools: Map<EntityKind, BaseEntity[]> = new Map();
+  
+  // Registered kinds captured at construction, in update order
+  private kinds: readonly EntityTypeDefinition[];
   
 
-  constructor(scene: THREE.Scene) {
-    this.scene = scene;
+  constructor(
+    scene: THREE.Scene | null = null,
+    rng: RandomSystem = new RandomSystem(),
+    events: GameEventBus = new GameEventBus(),
+    scheduler: Scheduler = new Scheduler(),
+    timeScale: TimeScaleSystem = new TimeScaleSystem()
+  ) {
+    this.view = scene ? new EntityView(scene) : undefined;
+    this.rng = rng;
+    this.events = events;
+    this.scheduler = scheduler;
+    this.timeScale = timeScale;
     
-    // Initialize entity collections
-    this.entities = {
-      ships: [],
-      asteroids: [],
-      bullets: [],
-      enemies: [],
-      pickups: []
-    };
+    // Initialize a collection for every registered kind
+    this.kinds = EntityRegistry.getAll() as readonly EntityTypeDefinition[];
+    const entities: Partial<Record<EntityKind, BaseEntity[]>> = {};
+    this.kinds.forEach(kind => { entities[kind.key] = []; });
+    this.entities = entities as EntityCollections;
     
     // Pre-populate pools
     this.initializePools();
   }
 
   private initializePools(): void {
-    // Create ship pool
-    for (let i = 0; i < POOL_SIZES.ships; i++) {
-      const ship = new Ship();
-      this.shipPool.push(ship);
-    }
-    
-    // Create asteroid pool with various sizes
-    for (let i = 0; i < POOL_SIZES.asteroids; i++) {
-      const size: AsteroidSize = i % 3 === 0 ? 'large' : i % 3 === 1 ? 'medium' : 'small';
-      const asteroid = new Asteroid(size);
-      this.asteroidPool.push(asteroid);
-    }
-    
-    // Create bullet pool
-    for (let i = 0; i < POOL_SIZES.bullets; i++) {
-      const bullet = new Bullet();
-      this.bulletPool.push(bullet);
-    }
-    
-    // Create enemy pool
-    for (let i = 0; i < POOL_SIZES.enemies; i++) {
-      const enemyType: EnemyType = i % 3 === 0 ? 'hunter' : i % 3 === 1 ? 'sniper' : 'kamikaze';
-      const enemy = new Enemy(enemyType);
-      this.enemyPool.push(enemy);
-    }
-    
-    // Create pickup pool
-    for (let i = 0; i < POOL_SIZES.pickups; i++) {
-      const pickupType: PickupType = i % 6 === 0 ? 'salvage' : 
-                                    i % 6 === 1 ? 'health' : 
-                                    i % 6 === 2 ? 'shield' :
-                                    i % 6 === 3 ? 'rapidfire' :
-                                    i % 6 === 4 ? 'pierce' : 'damage';
-      const pickup = new Pickup(pickupType);
-      this.pickupPool.push(pickup);
-    }
+    this.kinds.forEach(kind => {
+      const pool: BaseEntity[] = [];
+      for (let i = 0; i < kind.poolSize; i++) {
+        pool.push(kind.create(this, i));
+      }
+      this.pools.set(kind.key, pool);
+    });
   }
 
   /**
    * Update all active entities
-   * @param dt Delta time in seconds
+   * @param dt Unscaled delta time in seconds (each group reads its own scaled dt)
    */
   public update(dt: number): void {
-    // Update all active entities
-    this.updateEntityCollection(this.entities.ships, dt);
-    this.updateEntityCollection(this.entities.asteroids, dt);
-    this.updateEntityCollection(this.entities.bullets, dt);
-    this.updateEntityCollection(this.entities.enemies, dt);
-    this.updateEntityCollection(this.entities.pickups, dt);
+    // Update all active entities, kind by kind in registry order
+    this.kinds.forEach(kind => {
+      this.updateEntityCollection(this.collection(kind.key), this.timeScale.scale(dt, kind.timeGroup));
+    });
     
     // Clean up inactive entities
     this.cleanupInactiveEntities();
   }
 
+  /**
+   * Sync the view layer with the simulation state (no-op when headless)
+   * @param alpha Interpolation factor between the last two ticks (0-1)
+   */
+  public render(alpha: number): void {
+    this.view?.sync(this.kinds.map(kind => this.collection(kind.key)), alpha);
+  }
+
   private updateEntityCollection<T extends BaseEntity>(entities: T[], dt: number): void {
     for (let i = entities.length - 1; i >= 0; i--) {
       const entity = entities[i];
@@ -122,14 +131,12 @@ export class EntityManager {
 
   private cleanupInactiveEntities(): void {
     // Remove inactive entities and return them to pools
-    this.cleanupCollection(this.entities.ships, this.shipPool, 'ships');
-    this.cleanupCollection(this.entities.asteroids, this.asteroidPool, 'asteroids');
-    this.cleanupCollection(this.entities.bullets, this.bulletPool, 'bullets');
-    this.cleanupCollection(this.entities.enemies, this.enemyPool, 'enemies');
-    this.cleanupCollection(this.entities.pickups, this.pickupPool, 'pickups');
+    this.kinds.forEach(kind => {
+      this.cleanupCollection(this.collection(kind.key), this.pool(kind.key), kind.poolSize);
+    });
   }
 
-  private cleanupCollection<T extends BaseEntity>(entities: T[], pool: T[], kind: keyof EntityCollections): void {
+  private cleanupCollection(entities: BaseEntity[], pool: BaseEntity[], poolSize: number): void {
     for (let i = entities.length - 1; i >= 0; i--) {
       const entity = entities[i];
       if (!entity.active) {
@@ -137,7 +144,7 @@ export class EntityManager {
         entities.splice(i, 1);
         
         // Return to pool if there's space
-        if (pool.length < POOL_SIZES[kind]) {
+        if (pool.length < poolSize) {
           pool.push(entity);
         }
       }
@@ -145,188 +152,86 @@ export class EntityManager {
   }
 
   /**
-   * Spawn a ship at specified position
+   * Spawn any registered kind at a position (pooled when possible)
+   * The kind's setup hook runs before the entity spawns; callers configure
+   * the rest (velocity, payload) on the returned entity
+   * @param kind Collection key
    * @param x X position
    * @param y Y position
-   * @returns Spawned ship instance
+   * @param variant Variant to spawn, for kinds that have them (any pooled one if omitted)
+   * @returns Spawned entity
    */
-  public spawnShip(x: number, y: number): Ship {
-    let ship = this.getFromPool(this.shipPool);
-    if (!ship) {
-      ship = new Ship(x, y);
-    } else {
-      ship.reset(x, y);
+  public spawn<K extends EntityKind>(kind: K, x: number, y: number, variant?: VariantOf<K>): EntityOf<K> {
+    const definition = EntityRegistry.get(kind);
+    if (!definition) {
+      throw new Error(`[EntityManager] Unknown entity kind: ${String(kind)}`);
     }
     
-    ship.spawn(this.scene);
-    this.entities.ships.push(ship);
-    
-    return ship;
-  }
-
-  /**
-   * Spawn an asteroid at specified position
-   * @param size Size of asteroid
-   * @param x X position
-   * @param y Y position
-   * @param vx X velocity
-   * @param vy Y velocity
-   * @returns Spawned asteroid instance
-   */
-  public spawnAsteroid(size: AsteroidSize, x: number, y: number, vx: number, vy: number): Asteroid {
-    let asteroid = this.getFromPool(this.asteroidPool);
-    if (!asteroid) {
-      asteroid = new Asteroid(size, x, y, vx, vy);
-    } else {
-      // Reset asteroid with new properties
-      asteroid.reset(x, y, vx, vy);
-      // Note: We'd need to modify reset to handle size changes, or use a different approach
+    const variantOf = definition.variantOf;
+    let entity = this.acquire(kind, variant !== undefined && variantOf ? e => variantOf(e) === variant : undefined);
+    if (!entity) {
+      entity = definition.create(this, 0, variant);
     }
     
-    asteroid.spawn(this.scene);
-    this.entities.asteroids.push(asteroid);
+    entity.reset(x, y);
+    definition.setup?.(this, entity);
+    entity.spawn();
+    this.collection(kind).push(entity);
     
-    return asteroid;
+    return entity;
   }
 
   /**
-   * Spawn a bullet at specified position and direction
-   * @param x X position
-   * @param y Y position
-   * @param direction Direction angle in radians
-   * @param inheritVx Inherited velocity X
-   * @param inheritVy Inherited velocity Y
-   * @param pierce Pierce count
-   * @param ricochet Ricochet count
-   * @param damage Damage multiplier
-   * @returns Spawned bullet instance
+   * Deactivate entity (the view layer drops its mesh)
+   * @param entity Entity to remove
    */
-  public spawnBullet(
-    x: number, 
-    y: number, 
-    direction: number, 
-    inheritVx = 0, 
-    inheritVy = 0,
-    pierce = 0,
-    ricochet = 0,
-    damage = 1.0
-  ): Bullet {
-    let bullet = this.getFromPool(this.bulletPool);
-    if (!bullet) {
-      bullet = Bullet.createWithMods(x, y, direction, inheritVx, inheritVy, pierce, ricochet, damage);
-    } else {
-      bullet.reset(x, y);
-      // Set bullet direction and properties
-      bullet.velocity.x = Math.cos(direction) * BULLET.speed + inheritVx;
-      bullet.velocity.y = Math.sin(direction) * BULLET.speed + inheritVy;
-      bullet.pierce = pierce;
-      bullet.ricochet = ricochet;
-      bullet.damage = damage;
-    }
-    
-    bullet.spawn(this.scene);
-    this.entities.bullets.push(bullet);
-    
-    return bullet;
+  private removeEntity(entity: BaseEntity): void {
+    entity.despawn();
   }
 
   /**
-   * Spawn an enemy at specified position
-   * @param type Enemy type
-   * @param x X position
-   * @param y Y position
-   * @param speedMultiplier Speed multiplier for this wave
-   * @returns Spawned enemy instance
+   * Take an entity from a kind's pool if available
+   * @param kind Collection key
+   * @param matches Optional filter for variants that can't be changed on reset (size, type)
+   * @returns Entity instance or undefined if no suitable pooled entity
    */
-  public spawnEnemy(type: EnemyType, x: number, y: number, speedMultiplier: number = 1.0): Enemy {
-    let enemy = this.getFromPool(this.enemyPool);
-    if (!enemy) {
-      enemy = new Enemy(type, x, y);
-    } else {
-      enemy.reset(x, y);
-    }
-    
-    // Apply speed multiplier to enemy velocity if needed
-    if (speedMultiplier !== 1.0) {
-      enemy.velocity.multiplyScalar(speedMultiplier);
-    }
+  private acquire<K extends EntityKind>(kind: K, matches?: (entity: EntityOf<K>) => boolean): EntityOf<K> | undefined {
+    const pool = this.pool(kind) as EntityOf<K>[];
+    if (!matches) return pool.pop();
     
-    // Set target to first ship if available
-    const ships = this.entities.ships;
-    if (ships.length > 0) {
-      enemy.setTarget(ships[0]);
+    for (let i = pool.length - 1; i >= 0; i--) {
+      if (matches(pool[i])) {
+        return pool.splice(i, 1)[0];
+      }
     }
-    
-    enemy.spawn(this.scene);
-    this.entities.enemies.push(enemy);
-    
-    return enemy;
+    return undefined;
   }
 
   /**
-   * Spawn a pickup at specified position
-   * @param type Pickup type
-   * @param x X position
-   * @param y Y position
-   * @returns Spawned pickup instance
+   * Active collection for a kind (created on demand for kinds registered late)
    */
-  public spawnPickup(type: PickupType, x: number, y: number): Pickup {
-    let pickup = this.getFromPool(this.pickupPool);
-    if (!pickup) {
-      pickup = new Pickup(type, x, y);
-    } else {
-      pickup.reset(x, y);
-      // TODO: Handle pickup type changes when reset supports it
+  private collection<K extends EntityKind>(kind: K): EntityOf<K>[] {
+    const entities = this.entities as unknown as Record<EntityKind, BaseEntity[]>;
+    if (!entities[kind]) {
+      entities[kind] = [];
     }
-    
-    // Set magnet target to first ship if available
-    const ships = this.entities.ships;
-    if (ships.length > 0) {
-      pickup.setMagnetTarget(ships[0]);
-    }
-    
-    pickup.spawn(this.scene);
-    this.entities.pickups.push(pickup);
-    
-    return pickup;
+    return entities[kind] as EntityOf<K>[];
   }
 
-  /**
-   * Spawn a random pickup at specified position
-   * @param x X position
-   * @param y Y position
-   * @returns Spawned pickup instance
-   */
-  public spawnRandomPickup(x: number, y: number): Pickup {
-    const pickup = Pickup.createRandom(x, y);
-    
-    // Set magnet target to first ship if available
-    const ships = this.entities.ships;
-    if (ships.length > 0) {
-      pickup.setMagnetTarget(ships[0]);
+  private pool(kind: EntityKind): BaseEntity[] {
+    let pool = this.pools.get(kind);
+    if (!pool) {
+      pool = [];
+      this.pools.set(kind, pool);
     }
-    
-    pickup.spawn(this.scene);
-    this.entities.pickups.push(pickup);
-    
-    return pickup;
+    return pool;
   }
 
   /**
-   * Remove entity from scene and deactivate
-   * @param entity Entity to remove
+   * Every active entity across all kinds
    */
-  private removeEntity(entity: BaseEntity): void {
-    entity.despawn(this.scene);
-  }
-
-  /**
-   * Get entity from pool if available
-   * @param pool Pool to get from
-   * @returns Entity instance or undefined if pool empty
-   */
-  private getFromPool<T extends BaseEntity>(pool: T[]): T | undefined {
-    return pool.pop();
+  private allEntities(): BaseEntity[] {
+    return this.kinds.flatMap(kind => this.collection(kind.key) as BaseEntity[]);
   }
 
   /**
@@ -335,15 +240,7 @@ export class EntityManager {
    * @returns Array of active entities
    */
   public getEntitiesOfType<T extends BaseEntity>(type: new (...args: any[]) => T): T[] {
-    const allEntities: BaseEntity[] = [
-      ...this.entities.ships,
-      ...this.entities.asteroids,
-      ...this.entities.bullets,
-      ...this.entities.enemies,
-      ...this.entities.pickups
-    ];
-    
-    return allEntities.filter(entity => entity instanceof type) as T[];
+    return this.allEntities().filter(entity => entity instanceof type) as T[];
   }
 
   /**
@@ -352,23 +249,7 @@ export class EntityManager {
    * @param type Entity collection type
    */
   public addExistingEntity(entity: BaseEntity, type: keyof EntityCollections): void {
-    switch (type) {
-      case 'ships':
-        this.entities.ships.push(entity as Ship);
-        break;
-      case 'asteroids':
-        this.entities.asteroids.push(entity as Asteroid);
-        break;
-      case 'bullets':
-        this.entities.bullets.push(entity as Bullet);
-        break;
-      case 'enemies':
-        this.entities.enemies.push(entity as Enemy);
-        break;
-      case 'pickups':
-        this.entities.pickups.push(entity as Pickup);
-        break;
-    }
+    (this.collection(type) as BaseEntity[]).push(entity);
   }
 
   /**
@@ -377,66 +258,136 @@ export class EntityManager {
    * @returns Array of active entities
    */
   public getActiveEntities(type: keyof EntityCollections): BaseEntity[] {
-    return this.entities[type] as BaseEntity[];
+    return this.collection(type) as BaseEntity[];
+  }
+
+  /**
+   * Get the run's random service so systems can pull their named streams
+   */
+  public getRandom(): RandomSystem {
+    return this.rng;
+  }
+
+  /**
+   * Get the run's event bus so systems can publish and subscribe
+   */
+  public getEvents(): GameEventBus {
+    return this.events;
+  }
+
+  /**
+   * Get the run's scheduler so systems can delay actions in game time
+   */
+  public getScheduler(): Scheduler {
+    return this.scheduler;
+  }
+
+  /**
+   * Get the run's time-scale service
+   */
+  public getTimeScale(): TimeScaleSystem {
+    return this.timeScale;
   }
 
   /**
-   * Get scene reference for collision system
+   * Get the view layer, if this manager renders to a scene
    */
-  public getScene(): THREE.Scene {
-    return this.scene;
+  public getView(): EntityView | undefined {
+    return this.view;
+  }
+
+  /**
+   * Check if this manager runs without a scene
+   */
+  public isHeadless(): boolean {
+    return !this.view;
   }
 
   /**
    * Get total count of active entities
    */
   public getActiveEntityCount(): number {
-    return this.entities.ships.length + 
-           this.entities.asteroids.length + 
-           this.entities.bullets.length +
-           this.entities.enemies.length +
-           this.entities.pickups.length;
+    return this.kinds.reduce((total, kind) => total + this.collection(kind.key).length, 0);
   }
 
   /**
    * Clear all entities from scene and collections
    */
   public clearAll(): void {
-    // Remove all entities from scene
-    [...this.entities.ships, ...this.entities.asteroids, ...this.entities.bullets, ...this.entities.enemies, ...this.entities.pickups]
-      .forEach(entity => this.removeEntity(entity));
+    // Deactivate all entities
+    this.allEntities().forEach(entity => this.removeEntity(entity));
+    
+    // Drop meshes right away; the render loop may not run again soon
+    this.view?.clear();
     
     // Clear collections
-    this.entities.ships.length = 0;
-    this.entities.asteroids.length = 0;
-    this.entities.bullets.length = 0;
-    this.entities.enemies.length = 0;
-    this.entities.pickups.length = 0;
+    this.kinds.forEach(kind => { this.collection(kind.key).length = 0; });
+  }
+
+  /**
+   * Capture all active entities, random streams and time scales
+   */
+  public serialize(): EntityManagerSnapshot {
+    const snapshot: EntityManagerSnapshot = {
+      random: this.rng.serialize(),
+      timeScale: this.timeScale.serialize()
+    };
+    
+    const collections = snapshot as Record<string, unknown>;
+    this.kinds.forEach(kind => {
+      collections[kind.key] = this.collection(kind.key)
+        .filter(entity => entity.active)
+        .map(entity => entity.serialize());
+    });
+    
+    return snapshot;
+  }
+
+  /**
+   * Replace all entities with a snapshot taken by serialize()
+   * Kinds restore in update order, so ships come back before the enemies
+   * and pickups that re-link to the player
+   * @param snapshot Saved entity state
+   */
+  public restore(snapshot: EntityManagerSnapshot): void {
+    this.clearAll();
+    
+    this.kinds.forEach(kind => {
+      const saved = (snapshot[kind.key] ?? []) as EntitySnapshot[];
+      saved.forEach(s => {
+        const spawnFromSnapshot = kind.spawnFromSnapshot as ((manager: EntityManager, snapshot: EntitySnapshot) => BaseEntity) | undefined;
+        const entity = spawnFromSnapshot ? spawnFromSnapshot(this, s) : this.spawn(kind.key, s.x, s.y);
+        entity.restore(s);
+      });
+    });
+    
+    // Spawning rolls on the streams, so restore them last
+    this.rng.restore(snapshot.random);
+    
+    if (snapshot.timeScale) {
+      this.timeScale.restore(snapshot.timeScale);
+    } else {
+      this.timeScale.reset();
+    }
   }
 
   /**
    * Get debug information about entity pools and active counts
    */
   public getDebugInfo(): {
-    active: { ships: number; asteroids: number; bullets: number; enemies: number; pickups: number; total: number };
-    pools: { ships: number; asteroids: number; bullets: number; enemies: number; pickups: number };
+    active: Record<string, number> & { total: number };
+    pools: Record<string, number>;
   } {
+    const active: Record<string, number> = {};
+    const pools: Record<string, number> = {};
+    this.kinds.forEach(kind => {
+      active[kind.key] = this.collection(kind.key).length;
+      pools[kind.key] = this.pool(kind.key).length;
+    });
+    
     return {
-      active: {
-        ships: this.entities.ships.length,
-        asteroids: this.entities.asteroids.length,
-        bullets: this.entities.bullets.length,
-        enemies: this.entities.enemies.length,
-        pickups: this.entities.pickups.length,
-        total: this.getActiveEntityCount()
-      },
-      pools: {
-        ships: this.shipPool.length,
-        asteroids: this.asteroidPool.length,
-        bullets: this.bulletPool.length,
-        enemies: this.enemyPool.length,
-        pickups: this.pickupPool.length
-      }
+      active: { ...active, total: this.getActiveEntityCount() },
+      pools
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import type { EntityManager, EntityCollections, EntityVariants } from './EntityManager';
+import type { TimeGroup } from './TimeScaleSystem';
+
+export type EntityKind = keyof EntityCollections;
+export type EntityOf<K extends EntityKind> = EntityCollections[K][number];
+export type SnapshotOf<K extends EntityKind> = ReturnType<EntityOf<K>['serialize']>;
+export type VariantOf<K extends EntityKind> = K extends keyof EntityVariants ? EntityVariants[K] : never;
+
+/**
+ * Everything EntityManager needs to run one kind of entity
+ */
+export interface EntityTypeDefinition<K extends EntityKind = EntityKind> {
+  key: K;
+  poolSize: number;
+  updateOrder: number;   // Lower updates first (and is restored first from saves)
+  timeGroup?: TimeGroup; // Time-scale group (global scale only if omitted)
+  /**
+   * Build a new instance (pool pre-fill and pool misses)
+   * @param index Position in the pool, for spreading variants across it
+   * @param variant Variant a spawn asked for (omitted when pre-filling)
+   */
+  create: (manager: EntityManager, index: number, variant?: VariantOf<K>) => EntityOf<K>;
+  /**
+   * Which variant an instance was built as, so spawns can pool by variant
+   */
+  variantOf?: (entity: EntityOf<K>) => VariantOf<K>;
+  /**
+   * Link a freshly reset entity to the run before it spawns (targets,
+   * rolls on named streams)
+   */
+  setup?: (manager: EntityManager, entity: EntityOf<K>) => void;
+  /**
+   * Spawn the entity a snapshot will be restored onto (default: spawn at the snapshot position)
+   */
+  spawnFromSnapshot?: (manager: EntityManager, snapshot: SnapshotOf<K>) => EntityOf<K>;
+}
+
+type AnyEntityTypeDefinition = { [K in EntityKind]: EntityTypeDefinition<K> }[EntityKind];
+
+/**
+ * Registry of entity kinds managed by EntityManager
+ * A new kind augments EntityCollections and registers itself before the
+ * manager is created; EntityManager itself needs no edits:
+ *
+ *   declare module '../systems/EntityManager' {
+ *     interface EntityCollections { drones: Drone[] }
+ *   }
+ *   EntityRegistry.register({ key: 'drones', poolSize: 8, updateOrder: 15, create: () => new Drone() });
+ */
+export class EntityRegistry {
+  private static definitions: Map<EntityKind, AnyEntityTypeDefinition> = new Map();
+  private static ordered: AnyEntityTypeDefinition[] = [];
+
+  /**
+   * Register (or replace) an entity kind
+   * @param definition Collection key, pool size, factory and update order
+   */
+  public static register<K extends EntityKind>(definition: EntityTypeDefinition<K>): void {
+    EntityRegistry.definitions.set(definition.key, definition as unknown as AnyEntityTypeDefinition);
+    EntityRegistry.sort();
+  }
+
+  /**
+   * Remove an entity kind (managers created afterwards won't track it)
+   */
+  public static unregister(key: EntityKind): void {
+    EntityRegistry.definitions.delete(key);
+    EntityRegistry.sort();
+  }
+
+  public static get<K extends EntityKind>(key: K): EntityTypeDefinition<K> | undefined {
+    return EntityRegistry.definitions.get(key) as EntityTypeDefinition<K> | undefined;
+  }
+
+  public static has(key: EntityKind): boolean {
+    return EntityRegistry.definitions.has(key);
+  }
+
+  /**
+   * Every registered kind in update order
+   */
+  public static getAll(): readonly AnyEntityTypeDefinition[] {
+    return EntityRegistry.ordered;
+  }
+
+  private static sort(): void {
+    // Map keeps registration order, so equal update orders stay stable
+    EntityRegistry.ordered = [...EntityRegistry.definitions.values()]
+      .sort((a, b) => a.updateOrder - b.updateOrder);
+  }
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { BaseEntity } from '../entities/BaseEntity';
+
+/**
+ * View layer that mirrors simulation entities into a Three.js scene
+ * Entities only carry simulation state; meshes are created here on first
+ * render and removed once the entity leaves its collection
+ */
+export class EntityView {
+  private scene: THREE.Scene;
+
+  // Entities with a mesh in the scene, and the frame they were last seen
+  private attached: Map<BaseEntity, number> = new Map();
+  private frame: number = 0;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Attach new entities, drop departed ones, and sync transforms
+   * @param collections Entity collections to mirror
+   * @param alpha Interpolation factor between the last two ticks (0-1)
+   */
+  public sync(collections: BaseEntity[][], alpha: number): void {
+    this.frame++;
+
+    for (const entities of collections) {
+      for (const entity of entities) {
+        if (!entity.active) continue;
+
+        if (!this.attached.has(entity)) {
+          this.scene.add(entity.ensureMesh());
+        }
+        this.attached.set(entity, this.frame);
+        entity.syncMesh(alpha);
+      }
+    }
+
+    // Anything not seen this frame was despawned
+    this.attached.forEach((lastSeen, entity) => {
+      if (lastSeen !== this.frame) {
+        this.detach(entity);
+      }
+    });
+  }
+
+  /**
+   * Remove every entity mesh from the scene
+   */
+  public clear(): void {
+    this.attached.forEach((_lastSeen, entity) => this.detach(entity));
+  }
+
+  private detach(entity: BaseEntity): void {
+    if (entity.mesh) {
+      this.scene.remove(entity.mesh);
+    }
+    this.attached.delete(entity);
+  }
+
+  public getScene(): THREE.Scene {
+    return this.scene;
+  }
+
+  /**
+   * Number of entity meshes currently in the scene
+   */
+  public getAttachedCount(): number {
+    return this.attached.size;
+  }
+}
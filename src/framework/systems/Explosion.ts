@@ -0,0 +1,218 @@
+import * as THREE from 'three';
+import { EntityManager } from './EntityManager';
+import { CollisionSystem } from './CollisionSystem';
+import { PhysicsSystem } from './PhysicsSystem';
+import { AudioManager } from './AudioManager';
+import { ParticleSystem } from './ParticleSystem';
+import { VFXManager } from './VFXManager';
+import { DebrisSystem } from './DebrisSystem';
+import { BaseEntity } from '../entities/BaseEntity';
+import { Ship } from '../entities/Ship';
+import { Asteroid } from '../entities/Asteroid';
+import { Enemy } from '../entities/Enemy';
+import { EXPLOSION_DEFINITIONS, ExplosionDefinition, ExplosionType } from '../data/explosionDefinitions';
+import type { StatusEffectType } from '../data/statusEffectDefinitions';
+import { INVULN_HIT } from '../constants/gameConstants';
+
+export interface ExplosionOptions {
+  damageScale?: number;                      // Multiplies the blast and fragment damage (default 1)
+  exclude?: BaseEntity | null;               // Spared, e.g. what a shrapnel round hit directly
+  inflicts?: readonly StatusEffectType[];    // Status effects applied to enemies that survive
+}
+
+/**
+ * Area damage from a point: shrapnel rounds, kamikazes and volatile asteroids
+ * Everything in range takes damage falling off from the centre to the edge
+ * (measured to the target's edge), pieces of asteroids it splits that land
+ * inside the radius are caught again, and fragments can be thrown out in a
+ * ring as player bullets. Targets come from the collision grid, so call it
+ * during the collision phase.
+ */
+export class Explosion {
+  // Biggest target radius, so grid queries catch targets whose edge is in range
+  private static readonly REACH = 20;
+
+  /**
+   * Set off an explosion
+   * @param type Explosion definition to use
+   * @param origin Centre of the blast
+   * @param collisionSystem Collision system whose grid supplies the targets
+   * @param entityManager Entity manager owning the collections
+   * @param options Damage scale, spared target and status effects
+   * @param audioManager Optional audio manager for sound effects
+   * @param particleSystem Optional particle system for the blast
+   * @param vfxManager Optional VFX manager for screen shake and flash
+   * @param debrisSystem Optional debris system for destruction particles
+   * @returns Everything the blast hit
+   */
+  public static detonate(
+    type: ExplosionType,
+    origin: THREE.Vector3,
+    collisionSystem: CollisionSystem,
+    entityManager: EntityManager,
+    options: ExplosionOptions = {},
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): BaseEntity[] {
+    const definition = EXPLOSION_DEFINITIONS[type];
+    const scale = options.damageScale ?? 1;
+    const caught = new Set<BaseEntity>();
+    if (options.exclude) caught.add(options.exclude);
+
+    particleSystem?.emit(definition.particle, origin.clone());
+    vfxManager?.shakeScreen(definition.shake);
+    audioManager?.playSound(definition.sound);
+
+    // Pieces split off by each pass are pushed onto the live asteroid collection
+    const asteroids = entityManager.getActiveEntities('asteroids') as Asteroid[];
+    let targets = collisionSystem
+      .getEntitiesInRadius(origin.x, origin.y, definition.radius + Explosion.REACH)
+      .filter(entity => Explosion.canHit(definition, entity) && Explosion.edgeDistance(origin, entity) <= definition.radius);
+
+    for (let depth = 0; targets.length > 0; depth++) {
+      const firstPiece = asteroids.length;
+
+      for (const target of targets) {
+        if (!target.active || caught.has(target)) continue;
+        caught.add(target);
+        Explosion.hit(
+          definition, target, origin, scale, options.inflicts ?? [], entityManager,
+          audioManager, particleSystem, vfxManager, debrisSystem
+        );
+      }
+
+      if (depth >= definition.chainDepth) break;
+      targets = asteroids
+        .slice(firstPiece)
+        .filter(piece => piece.active && !caught.has(piece) && Explosion.edgeDistance(origin, piece) <= definition.radius);
+    }
+
+    if (definition.shrapnel) {
+      Explosion.throwShrapnel(definition, origin, scale, caught, entityManager);
+    }
+
+    if (options.exclude) caught.delete(options.exclude);
+    return [...caught];
+  }
+
+  /**
+   * Damage at a distance from the centre, before the caller's scale
+   * @param definition Explosion definition
+   * @param damage Damage at the centre
+   * @param distance Distance from the centre to the target's edge
+   */
+  public static falloff(definition: ExplosionDefinition, damage: number, distance: number): number {
+    const t = Math.min(1, Math.max(0, distance / definition.radius));
+    return damage * (1 - t * (1 - definition.edgeDamage));
+  }
+
+  private static canHit(definition: ExplosionDefinition, entity: BaseEntity): boolean {
+    if (entity instanceof Asteroid) return definition.hits.asteroids;
+    if (entity instanceof Enemy) return definition.hits.enemies && entity.isAlive();
+    if (entity instanceof Ship) return definition.ships !== undefined;
+    return false;
+  }
+
+  /**
+   * Deal one target its share of the blast and push it away from the centre
+   */
+  private static hit(
+    definition: ExplosionDefinition,
+    target: BaseEntity,
+    origin: THREE.Vector3,
+    scale: number,
+    inflicts: readonly StatusEffectType[],
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ): void {
+    const distance = Explosion.edgeDistance(origin, target);
+    const direction = new THREE.Vector3(target.position.x - origin.x, target.position.y - origin.y, 0).normalize();
+    const push = Explosion.falloff(definition, definition.knockback, distance);
+
+    if (target instanceof Ship) {
+      if (target.isInvulnerable()) return;
+
+      target.setInvulnerable(INVULN_HIT);
+      vfxManager?.flash('damage_red');
+      PhysicsSystem.applyImpulse(target, direction.x * push, direction.y * push);
+
+      CollisionSystem.damageShip(
+        target,
+        Explosion.falloff(definition, definition.ships!.damage, distance),
+        definition.ships!.reason,
+        entityManager,
+        audioManager,
+        particleSystem,
+        vfxManager,
+        debrisSystem
+      );
+      return;
+    }
+
+    const damage = Explosion.falloff(definition, definition.damage, distance) * scale;
+
+    if (target instanceof Asteroid) {
+      const destroyed = CollisionSystem.damageAsteroid(
+        target,
+        damage,
+        target.position.clone(),
+        definition.type,
+        entityManager,
+        audioManager,
+        particleSystem,
+        vfxManager,
+        debrisSystem
+      );
+      if (!destroyed) PhysicsSystem.applyImpulse(target, direction.x * push, direction.y * push);
+    } else if (target instanceof Enemy) {
+      const destroyed = CollisionSystem.damageEnemy(
+        target,
+        damage,
+        inflicts,
+        definition.type,
+        entityManager,
+        audioManager,
+        particleSystem,
+        vfxManager,
+        debrisSystem
+      );
+      if (!destroyed) PhysicsSystem.applyImpulse(target, direction.x * push, direction.y * push);
+    }
+  }
+
+  /**
+   * Throw fragments out in an evenly spaced ring; they never hit anything
+   * the blast already caught
+   */
+  private static throwShrapnel(
+    definition: ExplosionDefinition,
+    origin: THREE.Vector3,
+    scale: number,
+    caught: Set<BaseEntity>,
+    entityManager: EntityManager
+  ): void {
+    const { count, damage, speed, lifetime } = definition.shrapnel!;
+    const start = entityManager.getRandom().stream('explosions').angle();
+
+    for (let i = 0; i < count; i++) {
+      const angle = start + (i / count) * Math.PI * 2;
+      const fragment = entityManager.spawn('bullets', origin.x, origin.y);
+      fragment.damage = damage * scale;
+      fragment.launch(angle, speed, lifetime);
+      caught.forEach(entity => fragment.hits.add(entity));
+    }
+  }
+
+  /**
+   * Distance from a point to the edge of an entity (0 inside it)
+   */
+  private static edgeDistance(position: THREE.Vector3, entity: BaseEntity): number {
+    const distance = Math.hypot(entity.position.x - position.x, entity.position.y - position.y);
+    return Math.max(0, distance - entity.radius);
+  }
+}
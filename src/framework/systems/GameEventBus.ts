@@ -0,0 +1,178 @@
+import type { BaseEntity } from '../entities/BaseEntity';
+import type { Ship } from '../entities/Ship';
+import type { Pickup } from '../entities/Pickup';
+import type { Boss, BossPhase } from '../entities/Boss';
+import type { UpgradeDefinition } from '../components/cards/UpgradeCard';
+import type { CurrencyType } from '../constants/gameConstants';
+import type { CollisionEvent } from './CollisionSystem';
+import type { EntityCollections } from './EntityManager';
+import type { WaveState } from './WaveSystem';
+import type { ComboData, ScoreEvent } from './ScoringSystem';
+import type { ActiveStatusEffect } from './StatusEffects';
+import type { StatusEffectType } from '../data/statusEffectDefinitions';
+import type { WeaponType } from '../data/weaponDefinitions';
+import type { ExplosionType } from '../data/explosionDefinitions';
+
+/**
+ * What destroyed an entity: the collision pair, a blast, damage over time,
+ * one of the player's weapon archetypes or an explosion
+ */
+export type DamageCause = CollisionEvent['type'] | 'detonation' | 'burn' | WeaponType | ExplosionType;
+
+/**
+ * Payloads for every gameplay event, keyed by event name
+ */
+export interface GameEventMap {
+  collision: CollisionEvent;
+  entityDestroyed: {
+    entity: BaseEntity;
+    kind: keyof EntityCollections;
+    cause: DamageCause;
+  };
+  waveStarted: { wave: number };
+  waveCompleted: { wave: number; perfect: boolean };
+  waveStateChanged: WaveState;
+  hangarOpened: { wave: number };
+  scoreChanged: { score: number; delta: number };
+  scoreAwarded: ScoreEvent;
+  comboChanged: ComboData;
+  highScore: { highScore: number };
+  pickupCollected: { pickup: Pickup; ship: Ship };
+  currencyCollected: { type: CurrencyType; amount: number };
+  upgradeApplied: { upgrade: UpgradeDefinition };
+  shieldsChanged: { ship: Ship; shields: number };
+  shipDamaged: { ship: Ship; amount: number; hull: number; reason: string };
+  shipDestroyed: { ship: Ship; reason: string };
+  lifeLost: { lives: number; reason: string };
+  shipRespawned: { ship: Ship };
+  livesDepleted: { reason: string };
+  bossSpawned: { boss: Boss; wave: number };
+  bossDamaged: { boss: Boss; amount: number; weakPoint: boolean };
+  bossPhaseChanged: { boss: Boss; phase: BossPhase };
+  bossDefeated: { boss: Boss };
+  statusEffectStarted: { entity: BaseEntity; effect: ActiveStatusEffect };
+  statusEffectExpired: { entity: BaseEntity; type: StatusEffectType };
+  weaponFired: { ship: Ship; weapon: WeaponType; count: number };
+}
+
+export type GameEventType = keyof GameEventMap;
+export type GameEventHandler<K extends GameEventType> = (payload: GameEventMap[K]) => void;
+
+interface Subscription<K extends GameEventType> {
+  handler: GameEventHandler<K>;
+  priority: number;
+  once: boolean;
+}
+
+/**
+ * Typed publish/subscribe hub shared by the gameplay systems
+ * Any number of listeners per event; higher priority runs first, ties run
+ * in subscription order. A failing listener never stops the others.
+ */
+export class GameEventBus {
+  private listeners: { [K in GameEventType]?: Subscription<K>[] } = {};
+
+  /**
+   * Subscribe to an event
+   * @param type Event name
+   * @param handler Listener
+   * @param priority Higher runs earlier (default 0)
+   * @returns Function that removes this subscription
+   */
+  public on<K extends GameEventType>(type: K, handler: GameEventHandler<K>, priority: number = 0): () => void {
+    return this.add(type, { handler, priority, once: false });
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @param type Event name
+   * @param handler Listener
+   * @param priority Higher runs earlier (default 0)
+   * @returns Function that removes this subscription
+   */
+  public once<K extends GameEventType>(type: K, handler: GameEventHandler<K>, priority: number = 0): () => void {
+    return this.add(type, { handler, priority, once: true });
+  }
+
+  /**
+   * Remove a listener
+   * @param type Event name
+   * @param handler Listener passed to on()/once()
+   */
+  public off<K extends GameEventType>(type: K, handler: GameEventHandler<K>): void {
+    const subscriptions = this.listeners[type] as Subscription<K>[] | undefined;
+    if (!subscriptions) return;
+
+    const index = subscriptions.findIndex(subscription => subscription.handler === handler);
+    if (index !== -1) {
+      subscriptions.splice(index, 1);
+    }
+  }
+
+  /**
+   * Publish an event to every listener
+   * @param type Event name
+   * @param payload Event data
+   */
+  public emit<K extends GameEventType>(type: K, payload: GameEventMap[K]): void {
+    const subscriptions = this.listeners[type] as Subscription<K>[] | undefined;
+    if (!subscriptions || subscriptions.length === 0) return;
+
+    // Iterate a copy so listeners can (un)subscribe while handling
+    for (const subscription of [...subscriptions]) {
+      if (subscription.once) {
+        this.off(type, subscription.handler);
+      }
+
+      try {
+        subscription.handler(payload);
+      } catch (error) {
+        console.warn(`[GameEventBus] Listener for '${type}' failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Remove all listeners for one event, or for every event
+   * @param type Optional event name
+   */
+  public clear(type?: GameEventType): void {
+    if (type) {
+      delete this.listeners[type];
+    } else {
+      this.listeners = {};
+    }
+  }
+
+  /**
+   * Number of listeners for an event
+   */
+  public listenerCount(type: GameEventType): number {
+    return this.listeners[type]?.length ?? 0;
+  }
+
+  private add<K extends GameEventType>(type: K, subscription: Subscription<K>): () => void {
+    const subscriptions = (this.listeners[type] ?? []) as Subscription<K>[];
+
+    // Insert after every listener of equal or higher priority
+    let index = subscriptions.length;
+    while (index > 0 && subscriptions[index - 1].priority < subscription.priority) {
+      index--;
+    }
+    subscriptions.splice(index, 0, subscription);
+    (this.listeners as Record<K, Subscription<K>[]>)[type] = subscriptions;
+
+    return () => this.off(type, subscription.handler);
+  }
+
+  /**
+   * Get debug information about registered listeners
+   */
+  public getDebugInfo(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    (Object.keys(this.listeners) as GameEventType[]).forEach(type => {
+      counts[type] = this.listenerCount(type);
+    });
+    return counts;
+  }
+}
@@ -1,3 +1,5 @@
+import { HULL } from '../constants/gameConstants';
+
 export type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'settings' | 'highScores' | 'hangar';
 
 export interface GameStats {
@@ -5,6 +7,10 @@ export interface GameStats {
   highScore: number;
   wave: number;
   lives: number;
+  shipsLost: number;
+  hull: number; // Current ship's hull points
+  shields: number; // Current ship's shield charges
+  deathReason?: string; // What destroyed the last ship (set on game over)
   accuracy: number; // 0-1 percentage
   enemiesDestroyed: number;
   asteroidsDestroyed: number;
@@ -100,6 +106,9 @@ export class GameStateManager {
       highScore: this.loadHighScore(),
       wave: 1,
       lives: 3,
+      shipsLost: 0,
+      hull: HULL.max,
+      shields: 0,
       accuracy: 0,
       enemiesDestroyed: 0,
       asteroidsDestroyed: 0,
@@ -225,6 +234,17 @@ export class GameStateManager {
     this.data.totalPausedTime = 0;
   }
   
+  /**
+   * End the run because the player ran out of lives
+   * @param deathReason What destroyed the last ship (e.g. "Rammed by asteroid")
+   */
+  public triggerGameOver(deathReason: string): void {
+    if (this.data.currentState !== 'playing') return;
+    
+    this.data.stats.deathReason = deathReason;
+    this.setState('gameOver');
+  }
+  
   /**
    * Update game statistics
    * @param statUpdates Partial stats to update
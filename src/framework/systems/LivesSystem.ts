@@ -0,0 +1,139 @@
+import { EntityManager } from './EntityManager';
+import { CollisionSystem } from './CollisionSystem';
+import { GameEventBus } from './GameEventBus';
+import { TimerHandle } from './Scheduler';
+import { Ship } from '../entities/Ship';
+import { Bullet } from '../entities/Bullet';
+import { Pickup } from '../entities/Pickup';
+import { WORLD, HULL, INVULN_SPAWN } from '../constants/gameConstants';
+
+/**
+ * Player lives and the death/respawn flow
+ * Takes a life whenever a ship is destroyed, then (after a short delay on
+ * game time) launches a new ship at a clear spot, or publishes
+ * 'livesDepleted' with the reason for the last death once none are left.
+ */
+export class LivesSystem {
+  private entityManager: EntityManager;
+  private collisionSystem: CollisionSystem;
+  private events: GameEventBus;
+  private lives: number;
+  private pendingRespawn: TimerHandle | null = null;
+
+  // Safe-spawn search: rings of candidate points around the world centre
+  private static readonly SEARCH_RINGS = 6;
+  private static readonly POINTS_PER_RING = 8;
+
+  // Things that don't make a spawn point unsafe
+  private static readonly IGNORED_TYPES = [Ship, Bullet, Pickup];
+
+  constructor(entityManager: EntityManager, collisionSystem: CollisionSystem, lives: number = 3) {
+    this.entityManager = entityManager;
+    this.collisionSystem = collisionSystem;
+    this.events = entityManager.getEvents();
+    this.lives = lives;
+
+    this.events.on('shipDestroyed', ({ reason }) => this.loseLife(reason));
+  }
+
+  /**
+   * Take a life and schedule the respawn (or the game over)
+   * @param reason What destroyed the ship
+   */
+  private loseLife(reason: string): void {
+    this.lives = Math.max(0, this.lives - 1);
+    this.events.emit('lifeLost', { lives: this.lives, reason });
+
+    this.pendingRespawn?.cancel();
+    this.pendingRespawn = this.entityManager.getScheduler().after(HULL.respawnDelay, () => {
+      this.pendingRespawn = null;
+
+      if (this.lives > 0) {
+        this.respawn();
+      } else {
+        this.events.emit('livesDepleted', { reason });
+      }
+    });
+  }
+
+  /**
+   * Launch a new ship at the nearest safe point, with spawn invulnerability
+   * @returns The new ship
+   */
+  public respawn(): Ship {
+    const { x, y } = this.findSafeSpawn();
+    const ship = this.entityManager.spawn('ships', x, y);
+    ship.setInvulnerable(INVULN_SPAWN);
+
+    // Enemies still on the field go after the new ship
+    this.entityManager.entities.enemies.forEach(enemy => enemy.setTarget(ship));
+
+    this.events.emit('shipRespawned', { ship });
+    return ship;
+  }
+
+  /**
+   * Find a spawn point clear of asteroids and enemies
+   * Tries the world centre first, then rings further out. The search is
+   * deterministic (no random draws) so replays stay in sync.
+   * @param radius Clearance required around the point
+   * @returns Spawn position (the centre if nowhere is clear)
+   */
+  public findSafeSpawn(radius: number = HULL.safeRadius): { x: number; y: number } {
+    const isClear = (x: number, y: number) =>
+      this.collisionSystem.isAreaClear(x, y, radius, LivesSystem.IGNORED_TYPES);
+
+    if (isClear(0, 0)) return { x: 0, y: 0 };
+
+    const maxDistance = Math.min(WORLD.width, WORLD.height) / 2 - radius;
+    const rings = LivesSystem.SEARCH_RINGS;
+    const points = LivesSystem.POINTS_PER_RING;
+
+    for (let ring = 1; ring <= rings; ring++) {
+      const distance = (maxDistance * ring) / rings;
+
+      for (let i = 0; i < points; i++) {
+        // Stagger alternate rings so the candidates don't line up
+        const angle = ((i + (ring % 2) * 0.5) / points) * Math.PI * 2;
+        const x = Math.sin(angle) * distance;
+        const y = Math.cos(angle) * distance;
+
+        if (isClear(x, y)) return { x, y };
+      }
+    }
+
+    // Nowhere is clear; spawn invulnerability has to cover it
+    return { x: 0, y: 0 };
+  }
+
+  /**
+   * Start a new run with a full set of lives
+   * @param lives Lives for the run (default 3)
+   */
+  public reset(lives: number = 3): void {
+    this.pendingRespawn?.cancel();
+    this.pendingRespawn = null;
+    this.lives = lives;
+  }
+
+  public getLives(): number {
+    return this.lives;
+  }
+
+  /**
+   * Check whether a ship is waiting to respawn
+   */
+  public isRespawnPending(): boolean {
+    return this.pendingRespawn?.isActive() ?? false;
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): any {
+    return {
+      lives: this.lives,
+      respawnPending: this.isRespawnPending()
+    };
+  }
+}
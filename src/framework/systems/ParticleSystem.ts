@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { MATERIAL_COLORS } from '../constants/gameConstants';
 
 export type ParticleType = 'explosion' | 'muzzle_flash' | 'thrust' | 'sparkle' | 'debris' | 'score_popup' | 'trail';
 
@@ -249,6 +250,25 @@ export class ParticleSystem {
       burst: true
     },
     
+    shield_break: {
+      type: 'sparkle',
+      count: 24,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-40, -40, 0),
+        max: new THREE.Vector3(40, 40, 0)
+      },
+      size: { min: 0.6, max: 2.4 },
+      life: { min: 0.2, max: 0.5 },
+      color: {
+        start: new THREE.Color(MATERIAL_COLORS.shield),
+        end: new THREE.Color(0.2, 0.5, 1)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.92,
+      burst: true
+    },
+    
     fireworks: {
       type: 'explosion',
       count: 18,
@@ -266,6 +286,140 @@ export class ParticleSystem {
       gravity: new THREE.Vector3(0, -5, 0),
       drag: 0.98,
       burst: true
+    },
+    
+    ricochet_spark: {
+      type: 'sparkle',
+      count: 6,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-25, -25, 0),
+        max: new THREE.Vector3(25, 25, 0)
+      },
+      size: { min: 0.5, max: 1.8 },
+      life: { min: 0.1, max: 0.3 },
+      color: {
+        start: new THREE.Color(1, 1, 0.8),
+        end: new THREE.Color(1, 0.8, 0.3)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.9,
+      burst: true
+    },
+    
+    // Weapon archetypes
+    missile_trail: {
+      type: 'trail',
+      count: 2,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-3, -3, 0),
+        max: new THREE.Vector3(3, 3, 0)
+      },
+      size: { min: 0.8, max: 1.8 },
+      life: { min: 0.25, max: 0.5 },
+      color: {
+        start: new THREE.Color(1, 0.6, 0.3),
+        end: new THREE.Color(0.4, 0.4, 0.4)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.9,
+      burst: true
+    },
+    
+    laser_burn: {
+      type: 'sparkle',
+      count: 4,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-15, -15, 0),
+        max: new THREE.Vector3(15, 15, 0)
+      },
+      size: { min: 0.5, max: 1.6 },
+      life: { min: 0.1, max: 0.3 },
+      color: {
+        start: new THREE.Color(0.7, 1, 1),
+        end: new THREE.Color(0.2, 0.9, 0.8)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.9,
+      burst: true
+    },
+    
+    mine_blast: {
+      type: 'explosion',
+      count: 30,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-55, -55, 0),
+        max: new THREE.Vector3(55, 55, 0)
+      },
+      size: { min: 2, max: 5 },
+      life: { min: 0.4, max: 1.0 },
+      color: {
+        start: new THREE.Color(1, 0.95, 0.5),
+        end: new THREE.Color(1, 0.4, 0.1)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.9,
+      burst: true
+    },
+    
+    charge_burst: {
+      type: 'sparkle',
+      count: 16,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-35, -35, 0),
+        max: new THREE.Vector3(35, 35, 0)
+      },
+      size: { min: 1, max: 3 },
+      life: { min: 0.2, max: 0.5 },
+      color: {
+        start: new THREE.Color(0.9, 0.8, 1),
+        end: new THREE.Color(0.5, 0.3, 1)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.92,
+      burst: true
+    },
+    
+    shrapnel_burst: {
+      type: 'explosion',
+      count: 14,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-45, -45, 0),
+        max: new THREE.Vector3(45, 45, 0)
+      },
+      size: { min: 0.8, max: 2.5 },
+      life: { min: 0.2, max: 0.6 },
+      color: {
+        start: new THREE.Color(1, 0.9, 0.6),
+        end: new THREE.Color(0.8, 0.35, 0.1)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.88,
+      burst: true
+    },
+    
+    volatile_blast: {
+      type: 'explosion',
+      count: 40,
+      position: new THREE.Vector3(),
+      velocity: {
+        min: new THREE.Vector3(-70, -70, 0),
+        max: new THREE.Vector3(70, 70, 0)
+      },
+      size: { min: 2, max: 7 },
+      life: { min: 0.6, max: 1.6 },
+      color: {
+        start: new THREE.Color(1, 0.75, 0.3),
+        end: new THREE.Color(0.9, 0.2, 0.05)
+      },
+      gravity: new THREE.Vector3(0, 0, 0),
+      drag: 0.95,
+      burst: true
     }
   };
   
@@ -1,6 +1,16 @@
 import * as THREE from 'three';
 import { BaseEntity } from '../entities/BaseEntity';
-import { WORLD } from '../constants/gameConstants';
+import { WORLD, RIGID_BODY } from '../constants/gameConstants';
+import { RandomStream } from './RandomSystem';
+
+export interface CollisionContact {
+  normal: THREE.Vector3;      // Unit vector from A towards B
+  point: THREE.Vector3;       // Where the surfaces meet
+  impactSpeed: number;        // Closing speed along the normal (0 if already separating)
+  tangentSpeed: number;       // B's sliding speed across A at the contact
+  massA: number;
+  massB: number;
+}
 
 /**
  * Physics system for managing entity movement, world wrapping, and physics calculations
@@ -158,46 +168,73 @@ export class PhysicsSystem {
   }
   
   /**
-   * Resolve collision between two entities with elastic collision response
+   * Mass of an entity for collision response (scales with its area)
+   * @param entity Entity to weigh
+   * @returns Mass in arbitrary units
+   */
+  public static getMass(entity: BaseEntity): number {
+    return RIGID_BODY.density * entity.radius * entity.radius;
+  }
+  
+  /**
+   * Resolve collision between two entities with a mass-weighted impulse response
    * @param entityA First entity
    * @param entityB Second entity
+   * @param restitution Coefficient of restitution (1 = perfectly elastic)
+   * @returns Contact details, or null if the entities are not touching
    */
-  public static resolveCollision(entityA: BaseEntity, entityB: BaseEntity): void {
+  public static resolveCollision(
+    entityA: BaseEntity,
+    entityB: BaseEntity,
+    restitution: number = RIGID_BODY.restitution
+  ): CollisionContact | null {
     const distance = this.getDistance(entityA, entityB);
     const minDistance = entityA.radius + entityB.radius;
     
-    if (distance >= minDistance) return; // No collision
+    if (distance >= minDistance) return null; // No collision
     
-    // Calculate collision normal
-    const normal = this.getDirection(entityA, entityB);
+    // Calculate collision normal (any direction will do for exactly stacked entities)
+    const normal = distance > 0 ? this.getDirection(entityA, entityB) : new THREE.Vector3(1, 0, 0);
+    const tangent = new THREE.Vector3(-normal.y, normal.x, 0);
     
-    // Separate entities
+    // Separate entities, the lighter one moving further
+    const massA = this.getMass(entityA);
+    const massB = this.getMass(entityB);
+    const totalMass = massA + massB;
     const overlap = minDistance - distance;
-    const separation = overlap / 2;
     
-    entityA.position.x -= normal.x * separation;
-    entityA.position.y -= normal.y * separation;
-    entityB.position.x += normal.x * separation;
-    entityB.position.y += normal.y * separation;
+    entityA.position.x -= normal.x * overlap * (massB / totalMass);
+    entityA.position.y -= normal.y * overlap * (massB / totalMass);
+    entityB.position.x += normal.x * overlap * (massA / totalMass);
+    entityB.position.y += normal.y * overlap * (massA / totalMass);
     
     // Calculate relative velocity
     const relativeVelocity = new THREE.Vector3();
     relativeVelocity.subVectors(entityB.velocity, entityA.velocity);
     
-    // Calculate relative velocity along collision normal
+    // Calculate relative velocity along collision normal and across it
     const velocityAlongNormal = relativeVelocity.dot(normal);
+    const contact: CollisionContact = {
+      normal,
+      point: entityA.position.clone().addScaledVector(normal, entityA.radius),
+      impactSpeed: 0,
+      tangentSpeed: relativeVelocity.dot(tangent),
+      massA,
+      massB
+    };
     
     // Objects are separating, no need to resolve
-    if (velocityAlongNormal > 0) return;
+    if (velocityAlongNormal > 0) return contact;
     
-    // Calculate impulse magnitude (assuming equal mass for simplicity)
-    const restitution = 0.8; // Coefficient of restitution
-    const impulseMagnitude = -(1 + restitution) * velocityAlongNormal / 2;
+    // Impulse magnitude for the two masses
+    const impulseMagnitude = -(1 + restitution) * velocityAlongNormal / (1 / massA + 1 / massB);
     
     // Apply impulse
-    const impulse = normal.clone().multiplyScalar(impulseMagnitude);
-    entityA.velocity.sub(impulse);
-    entityB.velocity.add(impulse);
+    entityA.velocity.addScaledVector(normal, -impulseMagnitude / massA);
+    entityB.velocity.addScaledVector(normal, impulseMagnitude / massB);
+    
+    contact.impactSpeed = -velocityAlongNormal;
+    return contact;
   }
   
   /**
@@ -219,15 +256,16 @@ export class PhysicsSystem {
   /**
    * Get a random position within world bounds
    * @param margin Margin from edges (default: 50)
+   * @param rng Random stream to draw from
    * @returns Random position vector
    */
-  public static getRandomPosition(margin: number = 50): THREE.Vector3 {
+  public static getRandomPosition(margin: number = 50, rng: RandomStream = RandomStream.fallback()): THREE.Vector3 {
     const halfWidth = this.WORLD_WIDTH / 2 - margin;
     const halfHeight = this.WORLD_HEIGHT / 2 - margin;
     
     return new THREE.Vector3(
-      (Math.random() - 0.5) * 2 * halfWidth,
-      (Math.random() - 0.5) * 2 * halfHeight,
+      rng.range(-1, 1) * halfWidth,
+      rng.range(-1, 1) * halfHeight,
       0
     );
   }
@@ -236,11 +274,12 @@ export class PhysicsSystem {
    * Get a random velocity vector
    * @param minSpeed Minimum speed
    * @param maxSpeed Maximum speed
+   * @param rng Random stream to draw from
    * @returns Random velocity vector
    */
-  public static getRandomVelocity(minSpeed: number, maxSpeed: number): THREE.Vector3 {
-    const angle = Math.random() * Math.PI * 2;
-    const speed = minSpeed + Math.random() * (maxSpeed - minSpeed);
+  public static getRandomVelocity(minSpeed: number, maxSpeed: number, rng: RandomStream = RandomStream.fallback()): THREE.Vector3 {
+    const angle = rng.angle();
+    const speed = rng.range(minSpeed, maxSpeed);
     
     return new THREE.Vector3(
       Math.cos(angle) * speed,
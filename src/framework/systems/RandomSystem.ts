@@ -0,0 +1,188 @@
+/**
+ * Deterministic pseudo-random stream (mulberry32)
+ * Each stream owns its own state so consumers never disturb each other's sequence
+ */
+export class RandomStream {
+  private state: number;
+
+  // Unseeded fallback for code paths that are not wired to a RandomSystem
+  private static fallbackStream?: RandomStream;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Shared time-seeded stream used when no stream is injected
+   */
+  public static fallback(): RandomStream {
+    if (!this.fallbackStream) {
+      this.fallbackStream = new RandomStream(RandomSystem.generateSeed());
+    }
+    return this.fallbackStream;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * True with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random sign, -1 or 1
+   */
+  public sign(): number {
+    return this.next() < 0.5 ? -1 : 1;
+  }
+
+  /**
+   * Random angle in radians [0, 2π)
+   */
+  public angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export interface RandomSnapshot {
+  seed: number;
+  streams: Record<string, number>;
+}
+
+/**
+ * Central seedable random number service
+ * Hands out named substreams so that adding a roll in one system never shifts
+ * the sequence seen by another. Same seed => same run.
+ */
+export class RandomSystem {
+  private seed: number;
+  private streams: Map<string, RandomStream> = new Map();
+
+  constructor(seed: number = RandomSystem.generateSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Create a fresh seed from the clock and Math.random
+   */
+  public static generateSeed(): number {
+    return (Date.now() ^ Math.floor(Math.random() * 0xFFFFFFFF)) >>> 0;
+  }
+
+  /**
+   * Get (or lazily create) the named substream
+   * @param name Stream name, e.g. 'waves', 'drops', 'enemies'
+   */
+  public stream(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(RandomSystem.deriveSeed(this.seed, name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Reseed every stream in place. Existing stream references stay valid,
+   * so pooled entities holding a stream pick up the new sequence.
+   * @param seed New run seed
+   */
+  public reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.streams.forEach((stream, name) => {
+      stream.setState(RandomSystem.deriveSeed(this.seed, name));
+    });
+    console.log(`[RandomSystem] Reseeded with ${this.seed}`);
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Capture the seed and the position of every stream
+   */
+  public serialize(): RandomSnapshot {
+    const streams: Record<string, number> = {};
+    this.streams.forEach((stream, name) => {
+      streams[name] = stream.getState();
+    });
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Continue every stream from a snapshot (references stay valid, as with reseed)
+   * @param snapshot Saved random state
+   */
+  public restore(snapshot: RandomSnapshot): void {
+    this.seed = snapshot.seed >>> 0;
+    this.streams.forEach((stream, name) => {
+      stream.setState(RandomSystem.deriveSeed(this.seed, name));
+    });
+    Object.keys(snapshot.streams).forEach(name => {
+      this.stream(name).setState(snapshot.streams[name]);
+    });
+  }
+
+  /**
+   * Hash the run seed with a stream name (FNV-1a) into a substream seed
+   */
+  private static deriveSeed(seed: number, name: string): number {
+    let hash = 0x811C9DC5 ^ seed;
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Get debug information about active streams
+   */
+  public getDebugInfo(): { seed: number; streams: string[] } {
+    return {
+      seed: this.seed,
+      streams: Array.from(this.streams.keys())
+    };
+  }
+}
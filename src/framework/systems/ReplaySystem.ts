@@ -0,0 +1,322 @@
+import type { WeaponType } from '../data/weaponDefinitions';
+
+/**
+ * Player input for a single simulation tick
+ */
+export interface InputFrame {
+  thrust: boolean;
+  reverse: boolean;
+  rotate: number;                // -1 left, 0 none, 1 right (keyboard turning)
+  targetRotation: number | null; // Mouse aim angle, used when not turning by key
+  fire: boolean;
+}
+
+export interface ReplaySettings {
+  autofire: boolean;
+}
+
+/**
+ * Run-length encoded input: [tickCount, flags, targetRotation]
+ */
+export type ReplayRun = [number, number, number | null];
+
+/**
+ * Something the player did in the hangar (the simulation is paused there)
+ */
+export type HangarAction =
+  | { type: 'purchase'; upgradeId: string }
+  | { type: 'equip'; weapon: WeaponType }
+  | { type: 'exitHangar' };
+
+/**
+ * A hangar action and the tick it happened after
+ */
+export interface ReplayEvent {
+  tick: number;
+  action: HangarAction;
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  fixedStep: number;
+  settings: ReplaySettings;
+  recordedAt: string;
+  ticks: number;
+  score?: number;
+  wave?: number;
+  runs: ReplayRun[];
+  events: ReplayEvent[];
+}
+
+// Input flag bits
+const FLAG_THRUST = 1;
+const FLAG_REVERSE = 2;
+const FLAG_FIRE = 4;
+const FLAG_ROTATE_LEFT = 8;
+const FLAG_ROTATE_RIGHT = 16;
+
+// Aim is stored to 1/10000 rad so recorded and replayed input are identical
+const ROTATION_PRECISION = 10000;
+
+export const REPLAY_VERSION = 2;
+
+/**
+ * Records per-tick player input into a compact replay
+ */
+export class ReplayRecorder {
+  private seed: number = 0;
+  private fixedStep: number = 0;
+  private settings: ReplaySettings = { autofire: false };
+  private runs: ReplayRun[] = [];
+  private events: ReplayEvent[] = [];
+  private ticks: number = 0;
+  private recording: boolean = false;
+
+  /**
+   * Begin a new recording
+   * @param seed Run seed
+   * @param fixedStep Simulation tick length in seconds
+   * @param settings Settings that affect simulation input
+   */
+  public start(seed: number, fixedStep: number, settings: ReplaySettings): void {
+    this.seed = seed;
+    this.fixedStep = fixedStep;
+    this.settings = { ...settings };
+    this.runs = [];
+    this.events = [];
+    this.ticks = 0;
+    this.recording = true;
+  }
+
+  /**
+   * Record one tick of input
+   * @param frame Raw input sampled this tick
+   * @returns The normalized frame - apply this one so live play matches playback exactly
+   */
+  public record(frame: InputFrame): InputFrame {
+    const normalized = ReplaySystem.normalize(frame);
+    if (!this.recording) return normalized;
+
+    const flags = ReplaySystem.encodeFlags(normalized);
+    const rotation = normalized.targetRotation === null
+      ? null
+      : Math.round(normalized.targetRotation * ROTATION_PRECISION);
+
+    const last = this.runs[this.runs.length - 1];
+    if (last && last[1] === flags && last[2] === rotation) {
+      last[0]++;
+    } else {
+      this.runs.push([1, flags, rotation]);
+    }
+
+    this.ticks++;
+    return normalized;
+  }
+
+  /**
+   * Record a hangar action, stamped with the ticks recorded so far
+   * @param action What the player did
+   */
+  public recordEvent(action: HangarAction): void {
+    if (!this.recording) return;
+    this.events.push({ tick: this.ticks, action: { ...action } });
+  }
+
+  /**
+   * Stop recording and build the replay
+   * @param summary Optional end-of-run info shown when browsing replays
+   */
+  public finish(summary: { score?: number; wave?: number } = {}): ReplayData | null {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      fixedStep: this.fixedStep,
+      settings: { ...this.settings },
+      recordedAt: new Date().toISOString(),
+      ticks: this.ticks,
+      score: summary.score,
+      wave: summary.wave,
+      runs: this.runs.map(run => [...run] as ReplayRun),
+      events: this.events.map(event => ({ tick: event.tick, action: { ...event.action } }))
+    };
+  }
+
+  /**
+   * Drop the current recording without producing a replay
+   */
+  public cancel(): void {
+    this.recording = false;
+    this.runs = [];
+    this.events = [];
+    this.ticks = 0;
+  }
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+}
+
+/**
+ * Feeds recorded input back one tick at a time
+ */
+export class ReplayPlayer {
+  private data: ReplayData;
+  private runIndex: number = 0;
+  private runTick: number = 0;
+  private eventIndex: number = 0;
+  private tick: number = 0;
+
+  constructor(data: ReplayData) {
+    this.data = data;
+  }
+
+  /**
+   * Input for the next tick, or null once the replay has ended
+   */
+  public next(): InputFrame | null {
+    const run = this.data.runs[this.runIndex];
+    if (!run) return null;
+
+    const frame = ReplaySystem.decodeRun(run);
+
+    this.tick++;
+    this.runTick++;
+    if (this.runTick >= run[0]) {
+      this.runIndex++;
+      this.runTick = 0;
+    }
+
+    return frame;
+  }
+
+  /**
+   * Hangar actions recorded at or before the current tick that haven't been
+   * taken yet, in the order they happened
+   */
+  public takeEvents(): HangarAction[] {
+    const due: HangarAction[] = [];
+    const events = this.data.events;
+    while (this.eventIndex < events.length && events[this.eventIndex].tick <= this.tick) {
+      due.push(events[this.eventIndex].action);
+      this.eventIndex++;
+    }
+    return due;
+  }
+
+  public isFinished(): boolean {
+    return this.runIndex >= this.data.runs.length;
+  }
+
+  /**
+   * Playback progress (0-1)
+   */
+  public getProgress(): number {
+    return this.data.ticks > 0 ? Math.min(1, this.tick / this.data.ticks) : 1;
+  }
+
+  public getData(): ReplayData {
+    return this.data;
+  }
+}
+
+/**
+ * Replay encoding and JSON import/export helpers
+ */
+export class ReplaySystem {
+  /**
+   * Canonical form of an input frame (quantized aim, clamped turn)
+   */
+  public static normalize(frame: InputFrame): InputFrame {
+    const rotate = frame.rotate < 0 ? -1 : frame.rotate > 0 ? 1 : 0;
+    return {
+      thrust: frame.thrust,
+      reverse: frame.reverse,
+      rotate,
+      targetRotation: rotate !== 0 || frame.targetRotation === null
+        ? null
+        : Math.round(frame.targetRotation * ROTATION_PRECISION) / ROTATION_PRECISION,
+      fire: frame.fire
+    };
+  }
+
+  public static encodeFlags(frame: InputFrame): number {
+    let flags = 0;
+    if (frame.thrust) flags |= FLAG_THRUST;
+    if (frame.reverse) flags |= FLAG_REVERSE;
+    if (frame.fire) flags |= FLAG_FIRE;
+    if (frame.rotate < 0) flags |= FLAG_ROTATE_LEFT;
+    if (frame.rotate > 0) flags |= FLAG_ROTATE_RIGHT;
+    return flags;
+  }
+
+  public static decodeRun(run: ReplayRun): InputFrame {
+    const flags = run[1];
+    return {
+      thrust: (flags & FLAG_THRUST) !== 0,
+      reverse: (flags & FLAG_REVERSE) !== 0,
+      rotate: (flags & FLAG_ROTATE_LEFT) !== 0 ? -1 : (flags & FLAG_ROTATE_RIGHT) !== 0 ? 1 : 0,
+      targetRotation: run[2] === null ? null : run[2] / ROTATION_PRECISION,
+      fire: (flags & FLAG_FIRE) !== 0
+    };
+  }
+
+  /**
+   * Serialize a replay to JSON text
+   */
+  public static toJSON(data: ReplayData): string {
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Parse and validate replay JSON
+   * @returns Replay data, or null if the text is not a valid replay
+   */
+  public static fromJSON(text: string): ReplayData | null {
+    try {
+      const data = JSON.parse(text) as ReplayData;
+
+      if (data.version !== REPLAY_VERSION) {
+        console.warn('[ReplaySystem] Unsupported replay version:', data.version);
+        return null;
+      }
+
+      const valid = typeof data.seed === 'number' &&
+        typeof data.fixedStep === 'number' && data.fixedStep > 0 &&
+        typeof data.ticks === 'number' &&
+        typeof data.settings?.autofire === 'boolean' &&
+        Array.isArray(data.runs) &&
+        data.runs.every(run =>
+          Array.isArray(run) && run.length === 3 &&
+          typeof run[0] === 'number' && run[0] > 0 &&
+          typeof run[1] === 'number' &&
+          (run[2] === null || typeof run[2] === 'number')
+        ) &&
+        Array.isArray(data.events) &&
+        data.events.every(event =>
+          typeof event?.tick === 'number' && event.tick >= 0 &&
+          typeof event.action?.type === 'string'
+        );
+
+      if (!valid) {
+        console.warn('[ReplaySystem] Malformed replay data');
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.warn('[ReplaySystem] Failed to parse replay:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Suggested download file name for a replay
+   */
+  public static getFileName(data: ReplayData): string {
+    return `asteroids-replay-${data.seed}-${data.recordedAt.replace(/[:.]/g, '-')}.json`;
+  }
+}
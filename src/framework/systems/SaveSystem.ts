@@ -0,0 +1,107 @@
+import { EntityManagerSnapshot } from './EntityManager';
+import { WaveSnapshot } from './WaveSystem';
+import { ScoringSnapshot } from './ScoringSystem';
+import { GameStats } from './GameStateManager';
+import { CurrencyType } from '../constants/gameConstants';
+import type { GameState } from '../hooks/useGameState';
+
+export type RunCurrencies = Record<CurrencyType, number>;
+export type RunMods = GameState['mods'];
+
+/**
+ * Everything needed to resume a run mid-wave
+ */
+export interface SavedRun {
+  version: number;
+  savedAt: string;
+  seed: number;
+  entities: EntityManagerSnapshot;
+  waves: WaveSnapshot;
+  scoring: ScoringSnapshot;
+  stats: GameStats;
+  currencies: RunCurrencies;
+  mods: RunMods;
+}
+
+export const SAVE_VERSION = 1;
+
+/**
+ * Persists a single suspended run in localStorage (Save & Quit / Continue)
+ */
+export class SaveSystem {
+  private static readonly STORAGE_KEY = 'asteroids-saved-run';
+
+  /**
+   * Store a run, replacing any previous save
+   * @returns True if the run was written
+   */
+  public static save(run: Omit<SavedRun, 'version' | 'savedAt'>): boolean {
+    if (typeof localStorage === 'undefined') return false;
+
+    const data: SavedRun = {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      ...run
+    };
+
+    try {
+      localStorage.setItem(SaveSystem.STORAGE_KEY, JSON.stringify(data));
+      console.log(`[SaveSystem] Saved run (wave ${data.waves.currentWave}, score ${data.scoring.score})`);
+      return true;
+    } catch (error) {
+      console.warn('[SaveSystem] Failed to save run:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Read the saved run
+   * @returns Saved run, or null if there is none or it is unreadable
+   */
+  public static load(): SavedRun | null {
+    if (typeof localStorage === 'undefined') return null;
+
+    try {
+      const saved = localStorage.getItem(SaveSystem.STORAGE_KEY);
+      if (!saved) return null;
+
+      const data = JSON.parse(saved) as SavedRun;
+      if (data.version !== SAVE_VERSION || !data.entities || !data.waves || !data.scoring) {
+        console.warn('[SaveSystem] Discarding incompatible save, version:', data.version);
+        SaveSystem.clear();
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.warn('[SaveSystem] Failed to load run:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if a run is waiting to be continued
+   */
+  public static hasSave(): boolean {
+    if (typeof localStorage === 'undefined') return false;
+
+    try {
+      return localStorage.getItem(SaveSystem.STORAGE_KEY) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Delete the saved run
+   */
+  public static clear(): void {
+    if (typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.removeItem(SaveSystem.STORAGE_KEY);
+    } catch (error) {
+      console.warn('[SaveSystem] Failed to clear saved run:', error);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Handle for a scheduled task
+ */
+export interface TimerHandle {
+  readonly id: number;
+  cancel(): void;
+  isActive(): boolean;
+}
+
+export interface RepeatOptions {
+  times?: number;      // Stop after this many runs (default: until cancelled)
+  immediate?: boolean; // Run once right away, then every interval
+}
+
+interface ScheduledTask {
+  id: number;
+  dueAt: number;
+  interval: number | null;
+  remaining: number;
+  callback: () => void;
+  active: boolean;
+}
+
+/**
+ * Simulation-clock scheduler
+ * Delays count game time, advanced by the game loop each tick, so pausing the
+ * game (or sitting in the hangar) also pauses every pending task. Tasks due on
+ * the same tick run in the order they were scheduled.
+ */
+export class Scheduler {
+  private time: number = 0;
+  private nextId: number = 1;
+  private tasks: ScheduledTask[] = [];
+
+  /**
+   * Run a callback once after a delay
+   * @param seconds Delay in game seconds
+   * @param callback Task to run
+   */
+  public after(seconds: number, callback: () => void): TimerHandle {
+    return this.add(seconds, null, 1, callback);
+  }
+
+  /**
+   * Run a callback repeatedly
+   * @param seconds Interval in game seconds
+   * @param callback Task to run
+   * @param options Repeat count and whether to run immediately
+   */
+  public every(seconds: number, callback: () => void, options: RepeatOptions = {}): TimerHandle {
+    let remaining = options.times ?? Infinity;
+
+    if (options.immediate && remaining > 0) {
+      callback();
+      remaining--;
+    }
+
+    return this.add(seconds, Math.max(seconds, 0.0001), remaining, callback);
+  }
+
+  /**
+   * Advance the clock and run every task that has come due
+   * @param dt Delta time in seconds
+   */
+  public update(dt: number): void {
+    this.time += dt;
+
+    // Tasks scheduled while running wait for the next tick
+    const due = this.tasks
+      .filter(task => task.active && task.dueAt <= this.time)
+      .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id);
+
+    for (const task of due) {
+      if (!task.active) continue; // Cancelled by an earlier task this tick
+
+      task.remaining--;
+      if (task.interval === null || task.remaining <= 0) {
+        task.active = false;
+      } else {
+        task.dueAt += task.interval;
+      }
+
+      try {
+        task.callback();
+      } catch (error) {
+        console.warn('[Scheduler] Task failed:', error);
+      }
+    }
+
+    this.tasks = this.tasks.filter(task => task.active);
+  }
+
+  /**
+   * Cancel every pending task and restart the clock
+   */
+  public clear(): void {
+    this.tasks.forEach(task => { task.active = false; });
+    this.tasks = [];
+    this.time = 0;
+  }
+
+  /**
+   * Game seconds elapsed since the last clear
+   */
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Number of tasks still waiting to run
+   */
+  public getPendingCount(): number {
+    return this.tasks.filter(task => task.active).length;
+  }
+
+  private add(seconds: number, interval: number | null, remaining: number, callback: () => void): TimerHandle {
+    const task: ScheduledTask = {
+      id: this.nextId++,
+      dueAt: this.time + Math.max(0, seconds),
+      interval,
+      remaining,
+      callback,
+      active: remaining > 0
+    };
+
+    if (task.active) {
+      this.tasks.push(task);
+    }
+
+    return {
+      id: task.id,
+      cancel: () => { task.active = false; },
+      isActive: () => task.active
+    };
+  }
+}
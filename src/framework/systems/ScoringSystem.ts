@@ -1,13 +1,17 @@
 import { BaseEntity } from '../entities/BaseEntity';
 import { Asteroid } from '../entities/Asteroid';
+import { Enemy, EnemyType } from '../entities/Enemy';
+import type { Boss } from '../entities/Boss';
+import { BOSS } from '../constants/gameConstants';
 import { ParticleSystem } from './ParticleSystem';
+import { GameEventBus } from './GameEventBus';
 import * as THREE from 'three';
 
 export interface ScoreEvent {
   points: number;
   position: { x: number; y: number };
   entity: BaseEntity;
-  reason: 'asteroid' | 'enemy' | 'bonus';
+  reason: 'asteroid' | 'enemy' | 'boss' | 'bonus';
   size?: string;
 }
 
@@ -18,6 +22,11 @@ export interface ComboData {
   maxTimer: number;
 }
 
+export interface ScoringSnapshot {
+  score: number;
+  combo: ComboData;
+}
+
 /**
  * Scoring system with combo mechanics and persistent high scores
  * Handles point calculation, combo multipliers, and score events
@@ -44,7 +53,6 @@ export class ScoringSystem {
       medium: 50,
       small: 100
     },
-    enemy: 150,
     bonus: {
       pickup: 10,
       wave_complete: 100,
@@ -55,43 +63,45 @@ export class ScoringSystem {
   // Combo thresholds
   private static readonly COMBO_THRESHOLDS = [1, 2, 3, 5, 8, 12, 20, 30];
   
-  // Event callbacks
-  private onScoreChange?: (score: number, delta: number) => void;
-  private onComboChange?: (combo: ComboData) => void;
-  private onHighScore?: (newHighScore: number) => void;
-  private onScoreEvent?: (event: ScoreEvent) => void;
+  // Publishes score, combo and high score events
+  private events: GameEventBus;
   
-  constructor(particleSystem?: ParticleSystem) {
+  constructor(particleSystem?: ParticleSystem, events: GameEventBus = new GameEventBus()) {
     this.particleSystem = particleSystem;
+    this.events = events;
     this.loadHighScore();
   }
   
   /**
-   * Register callback for score changes
+   * Subscribe to score changes (shorthand for the 'scoreChanged' event)
+   * @returns Function that removes the subscription
    */
-  public onScore(callback: (score: number, delta: number) => void): void {
-    this.onScoreChange = callback;
+  public onScore(callback: (score: number, delta: number) => void): () => void {
+    return this.events.on('scoreChanged', ({ score, delta }) => callback(score, delta));
   }
   
   /**
-   * Register callback for combo changes
+   * Subscribe to combo changes (shorthand for the 'comboChanged' event)
+   * @returns Function that removes the subscription
    */
-  public onCombo(callback: (combo: ComboData) => void): void {
-    this.onComboChange = callback;
+  public onCombo(callback: (combo: ComboData) => void): () => void {
+    return this.events.on('comboChanged', callback);
   }
   
   /**
-   * Register callback for new high scores
+   * Subscribe to new high scores (shorthand for the 'highScore' event)
+   * @returns Function that removes the subscription
    */
-  public onNewHighScore(callback: (newHighScore: number) => void): void {
-    this.onHighScore = callback;
+  public onNewHighScore(callback: (newHighScore: number) => void): () => void {
+    return this.events.on('highScore', ({ highScore }) => callback(highScore));
   }
   
   /**
-   * Register callback for score events (for visual indicators)
+   * Subscribe to score events for visual indicators (shorthand for the 'scoreAwarded' event)
+   * @returns Function that removes the subscription
    */
-  public onScoreEventCallback(callback: (event: ScoreEvent) => void): void {
-    this.onScoreEvent = callback;
+  public onScoreEventCallback(callback: (event: ScoreEvent) => void): () => void {
+    return this.events.on('scoreAwarded', callback);
   }
   
   /**
@@ -106,14 +116,22 @@ export class ScoringSystem {
   }
   
   /**
-   * Award points for enemy destruction
+   * Award points for enemy destruction (each enemy type has its own value)
    * @param enemy The destroyed enemy
    */
-  public awardEnemyPoints(enemy: BaseEntity): void {
-    const basePoints = ScoringSystem.SCORE_VALUES.enemy;
+  public awardEnemyPoints(enemy: Enemy): void {
+    const basePoints = enemy.getScoreValue();
     this.awardPoints(basePoints, enemy.position, enemy, 'enemy');
   }
   
+  /**
+   * Award points for defeating a boss
+   * @param boss The defeated boss
+   */
+  public awardBossPoints(boss: Boss): void {
+    this.awardPoints(BOSS.score, boss.position, boss, 'boss');
+  }
+  
   /**
    * Award bonus points
    * @param bonusType Type of bonus
@@ -149,14 +167,14 @@ export class ScoringSystem {
     if (this.score > this.highScore) {
       this.highScore = this.score;
       this.saveHighScore();
-      this.onHighScore?.(this.highScore);
+      this.events.emit('highScore', { highScore: this.highScore });
     }
     
     // Update combo
     this.incrementCombo();
     
     // Fire callbacks
-    this.onScoreChange?.(this.score, finalPoints);
+    this.events.emit('scoreChanged', { score: this.score, delta: finalPoints });
     
     if (entity) {
       const scoreEvent: ScoreEvent = {
@@ -166,7 +184,7 @@ export class ScoringSystem {
         reason,
         size
       };
-      this.onScoreEvent?.(scoreEvent);
+      this.events.emit('scoreAwarded', scoreEvent);
       
       // Create visual score popup particle
       this.createScorePopup(finalPoints, position, this.combo.multiplier, reason);
@@ -190,7 +208,7 @@ export class ScoringSystem {
     }
     
     this.combo.multiplier = newMultiplier;
-    this.onComboChange?.(this.combo);
+    this.events.emit('comboChanged', this.combo);
   }
   
   /**
@@ -206,7 +224,7 @@ export class ScoringSystem {
         this.combo.count = 0;
         this.combo.multiplier = 1;
         this.combo.timer = 0;
-        this.onComboChange?.(this.combo);
+        this.events.emit('comboChanged', this.combo);
       }
     }
   }
@@ -218,7 +236,7 @@ export class ScoringSystem {
     this.combo.count = 0;
     this.combo.multiplier = 1;
     this.combo.timer = 0;
-    this.onComboChange?.(this.combo);
+    this.events.emit('comboChanged', this.combo);
   }
   
   /**
@@ -227,7 +245,25 @@ export class ScoringSystem {
   public resetScore(): void {
     this.score = 0;
     this.resetCombo();
-    this.onScoreChange?.(this.score, 0);
+    this.events.emit('scoreChanged', { score: this.score, delta: 0 });
+  }
+  
+  /**
+   * Capture score and combo for save games
+   */
+  public serialize(): ScoringSnapshot {
+    return { score: this.score, combo: { ...this.combo } };
+  }
+  
+  /**
+   * Continue from a saved score and combo
+   * @param snapshot Scoring state taken with serialize()
+   */
+  public restore(snapshot: ScoringSnapshot): void {
+    this.score = snapshot.score;
+    this.combo = { ...snapshot.combo };
+    this.events.emit('scoreChanged', { score: this.score, delta: 0 });
+    this.events.emit('comboChanged', this.combo);
   }
   
   /**
@@ -255,6 +291,8 @@ export class ScoringSystem {
    * Load high score from localStorage
    */
   private loadHighScore(): void {
+    if (typeof localStorage === 'undefined') return; // Headless runs
+    
     try {
       const saved = localStorage.getItem('asteroids-high-score');
       if (saved) {
@@ -270,6 +308,8 @@ export class ScoringSystem {
    * Save high score to localStorage
    */
   private saveHighScore(): void {
+    if (typeof localStorage === 'undefined') return; // Headless runs
+    
     try {
       localStorage.setItem('asteroids-high-score', this.highScore.toString());
     } catch (error) {
@@ -297,9 +337,10 @@ export class ScoringSystem {
   
   /**
    * Get enemy points
+   * @param type Enemy type (default hunter)
    */
-  public static getEnemyPoints(): number {
-    return ScoringSystem.SCORE_VALUES.enemy;
+  public static getEnemyPoints(type: EnemyType = 'hunter'): number {
+    return Enemy.getScoreValue(type);
   }
   
   /**
@@ -0,0 +1,90 @@
+import { EntityManager } from './EntityManager';
+import { GameEventBus } from './GameEventBus';
+import { AudioManager } from './AudioManager';
+import { ParticleSystem } from './ParticleSystem';
+import { DebrisSystem } from './DebrisSystem';
+import type { Ship } from '../entities/Ship';
+import type { Enemy } from '../entities/Enemy';
+import { TIME_SCALE } from '../constants/gameConstants';
+
+/**
+ * Ticks the status effects on ships and enemies, announces starts and
+ * expiries, and deals damage over time. Damage over time only hurts enemies.
+ */
+export class StatusEffectSystem {
+  private entityManager: EntityManager;
+  private events: GameEventBus;
+
+  // Audio and VFX systems (optional)
+  private audioManager?: AudioManager;
+  private particleSystem?: ParticleSystem;
+  private debrisSystem?: DebrisSystem;
+
+  constructor(
+    entityManager: EntityManager,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    debrisSystem?: DebrisSystem
+  ) {
+    this.entityManager = entityManager;
+    this.events = entityManager.getEvents();
+    this.audioManager = audioManager;
+    this.particleSystem = particleSystem;
+    this.debrisSystem = debrisSystem;
+  }
+
+  /**
+   * Update every ship's and enemy's effects on their own time group's clock
+   * @param dt Delta time in seconds
+   */
+  public update(dt: number): void {
+    const timeScale = this.entityManager.getTimeScale();
+
+    for (const ship of this.entityManager.getActiveEntities('ships') as Ship[]) {
+      this.updateEffects(ship, timeScale.scale(dt, 'player'));
+    }
+
+    for (const enemy of [...this.entityManager.getActiveEntities('enemies')] as Enemy[]) {
+      const enemyDt = timeScale.scale(dt, 'enemies');
+      this.updateEffects(enemy, enemyDt);
+      this.applyDamageOverTime(enemy, enemyDt);
+    }
+  }
+
+  /**
+   * Tick one entity's effects and publish what changed
+   * @param entity Ship or enemy
+   * @param dt Scaled delta time in seconds
+   */
+  private updateEffects(entity: Ship | Enemy, dt: number): void {
+    const { started, expired } = entity.effects.update(dt);
+
+    for (const effect of started) {
+      this.events.emit('statusEffectStarted', { entity, effect });
+    }
+    for (const type of expired) {
+      this.events.emit('statusEffectExpired', { entity, type });
+    }
+  }
+
+  /**
+   * Burn an enemy, destroying it if the damage finishes it off
+   * @param enemy Enemy to hurt
+   * @param dt Scaled delta time in seconds
+   */
+  private applyDamageOverTime(enemy: Enemy, dt: number): void {
+    const damage = enemy.effects.getDamagePerSecond() * dt;
+    if (damage <= 0 || !enemy.isAlive() || !enemy.takeDamage(damage)) return;
+
+    const position = enemy.position.clone();
+
+    enemy.despawn();
+    this.events.emit('entityDestroyed', { entity: enemy, kind: 'enemies', cause: 'burn' });
+    this.entityManager.getTimeScale().hitStop(TIME_SCALE.hitStopEnemy);
+
+    // Destruction effects
+    this.audioManager?.playSound('combat.explosion_medium');
+    this.particleSystem?.emit('explosion_medium', position);
+    this.debrisSystem?.spawnDebris('enemy_fragments', position, enemy.velocity.clone());
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  STATUS_EFFECT_DEFINITIONS,
+  NO_MODIFIERS,
+  StatModifiers,
+  StatusEffectType
+} from '../data/statusEffectDefinitions';
+
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  stacks: number;
+  timeLeft: number;
+  duration: number;  // Length of the current run, for countdown displays
+}
+
+/**
+ * Timed effects on one entity (ships and enemies carry one each)
+ * Applying an effect that is already running refreshes it, and stacking
+ * effects gain a stack. Starts are queued until StatusEffectSystem publishes
+ * them, so entities and pickups can apply effects without the event bus.
+ */
+export class StatusEffects {
+  private effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+  private started: ActiveStatusEffect[] = [];
+
+  /**
+   * Start an effect, or refresh (and stack) it if it is already running
+   * @param type Effect to apply
+   * @param duration Seconds it lasts (default from its definition)
+   * @returns The running effect
+   */
+  public apply(type: StatusEffectType, duration: number = STATUS_EFFECT_DEFINITIONS[type].duration): ActiveStatusEffect {
+    const definition = STATUS_EFFECT_DEFINITIONS[type];
+    let effect = this.effects.get(type);
+
+    if (effect) {
+      if (definition.stacking === 'stack') {
+        effect.stacks = Math.min(effect.stacks + 1, definition.maxStacks);
+      }
+      effect.duration = Math.max(effect.timeLeft, duration);
+      effect.timeLeft = effect.duration;
+    } else {
+      effect = { type, stacks: 1, timeLeft: duration, duration };
+      this.effects.set(type, effect);
+    }
+
+    this.started.push({ ...effect });
+    return effect;
+  }
+
+  /**
+   * End an effect early
+   * @param type Effect to remove
+   * @returns True if it was running
+   */
+  public remove(type: StatusEffectType): boolean {
+    return this.effects.delete(type);
+  }
+
+  public has(type: StatusEffectType): boolean {
+    return this.effects.has(type);
+  }
+
+  public getStacks(type: StatusEffectType): number {
+    return this.effects.get(type)?.stacks ?? 0;
+  }
+
+  /**
+   * Running effects in the order they started
+   */
+  public getActive(): ActiveStatusEffect[] {
+    return [...this.effects.values()];
+  }
+
+  /**
+   * Stat changes from every running effect (multipliers multiply, pierce adds)
+   */
+  public getModifiers(): StatModifiers {
+    const modifiers = { ...NO_MODIFIERS };
+
+    for (const effect of this.effects.values()) {
+      const perStack = STATUS_EFFECT_DEFINITIONS[effect.type].modifiers;
+      modifiers.fireRate *= Math.pow(perStack.fireRate ?? 1, effect.stacks);
+      modifiers.damage *= Math.pow(perStack.damage ?? 1, effect.stacks);
+      modifiers.speed *= Math.pow(perStack.speed ?? 1, effect.stacks);
+      modifiers.pierce += (perStack.pierce ?? 0) * effect.stacks;
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * Damage per second from every running effect
+   */
+  public getDamagePerSecond(): number {
+    let total = 0;
+    for (const effect of this.effects.values()) {
+      total += (STATUS_EFFECT_DEFINITIONS[effect.type].damagePerSecond ?? 0) * effect.stacks;
+    }
+    return total;
+  }
+
+  /**
+   * Effects that shots fired under the running effects pass on to what they hit
+   */
+  public getInflicted(): StatusEffectType[] {
+    const inflicted: StatusEffectType[] = [];
+    for (const effect of this.effects.values()) {
+      const type = STATUS_EFFECT_DEFINITIONS[effect.type].inflicts;
+      if (type) inflicted.push(type);
+    }
+    return inflicted;
+  }
+
+  /**
+   * Count the timers down
+   * @param dt Delta time in seconds
+   * @returns Effects started since the last update, and effects that ran out
+   */
+  public update(dt: number): { started: ActiveStatusEffect[]; expired: StatusEffectType[] } {
+    const started = this.started;
+    const expired: StatusEffectType[] = [];
+    this.started = [];
+
+    for (const effect of [...this.effects.values()]) {
+      effect.timeLeft -= dt;
+      if (effect.timeLeft <= 0) {
+        this.effects.delete(effect.type);
+        expired.push(effect.type);
+      }
+    }
+
+    return { started, expired };
+  }
+
+  /**
+   * Drop every effect without announcing it (respawns and pooled reuse)
+   */
+  public clear(): void {
+    this.effects.clear();
+    this.started = [];
+  }
+
+  public serialize(): ActiveStatusEffect[] {
+    return this.getActive().map(effect => ({ ...effect }));
+  }
+
+  public restore(effects: ActiveStatusEffect[] = []): void {
+    this.clear();
+    for (const effect of effects) {
+      this.effects.set(effect.type, { ...effect });
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Groups whose clocks can be scaled independently
+ */
+export type TimeGroup = 'player' | 'enemies' | 'asteroids' | 'projectiles' | 'vfx';
+
+export type TimeScaleTarget = TimeGroup | 'global';
+
+type ScaleLayer = Partial<Record<TimeScaleTarget, number>>;
+
+export interface TimeScaleSnapshot {
+  layers: Record<string, ScaleLayer>;
+  hitStopRemaining: number;
+}
+
+/**
+ * Time-scale service for slow motion, per-faction speed effects and hit-stop
+ * Scales are layered by source (e.g. 'timeWarp', 'slowmo') and multiply
+ * together, so effects stack and can be removed without undoing each other.
+ * Hit-stop freezes every gameplay group; VFX keep playing through it.
+ */
+export class TimeScaleSystem {
+  private layers: Map<string, ScaleLayer> = new Map();
+  private hitStopRemaining: number = 0;
+
+  /**
+   * Set the scale one source applies to a group (or to everything)
+   * @param target Group to scale, or 'global'
+   * @param scale Multiplier (1 = normal speed)
+   * @param source Effect that owns this scale (default 'base')
+   */
+  public setScale(target: TimeScaleTarget, scale: number, source: string = 'base'): void {
+    const layer = this.layers.get(source) ?? {};
+    layer[target] = Math.max(0, scale);
+    this.layers.set(source, layer);
+  }
+
+  /**
+   * Remove every scale applied by a source
+   * @param source Effect to remove
+   */
+  public clearSource(source: string): void {
+    this.layers.delete(source);
+  }
+
+  /**
+   * Whether a source currently applies any scale
+   * @param source Effect to look for
+   */
+  public hasSource(source: string): boolean {
+    return this.layers.has(source);
+  }
+
+  /**
+   * Freeze gameplay briefly (big kills, heavy hits)
+   * Overlapping hit-stops don't add up; the longest one wins.
+   * @param seconds Freeze length in unscaled simulation seconds
+   */
+  public hitStop(seconds: number): void {
+    this.hitStopRemaining = Math.max(this.hitStopRemaining, seconds);
+  }
+
+  public isHitStopped(): boolean {
+    return this.hitStopRemaining > 0;
+  }
+
+  /**
+   * Count down hit-stop (call once per tick with the unscaled step)
+   * @param dt Unscaled delta time in seconds
+   */
+  public update(dt: number): void {
+    if (this.hitStopRemaining > 0) {
+      this.hitStopRemaining = Math.max(0, this.hitStopRemaining - dt);
+    }
+  }
+
+  /**
+   * Combined scale for a group, or the global scale when no group is given
+   * @param group Optional time group
+   */
+  public getScale(group?: TimeGroup): number {
+    if (this.hitStopRemaining > 0 && group !== 'vfx') return 0;
+
+    let scale = 1;
+    for (const layer of this.layers.values()) {
+      scale *= layer.global ?? 1;
+      if (group) {
+        scale *= layer[group] ?? 1;
+      }
+    }
+    return scale;
+  }
+
+  /**
+   * Scale a delta time for a group
+   * @param dt Unscaled delta time in seconds
+   * @param group Optional time group (global scale only if omitted)
+   */
+  public scale(dt: number, group?: TimeGroup): number {
+    return dt * this.getScale(group);
+  }
+
+  /**
+   * Drop every scale and any running hit-stop (new run)
+   */
+  public reset(): void {
+    this.layers.clear();
+    this.hitStopRemaining = 0;
+  }
+
+  /**
+   * Capture active scales for save games
+   */
+  public serialize(): TimeScaleSnapshot {
+    const layers: Record<string, ScaleLayer> = {};
+    this.layers.forEach((layer, source) => {
+      layers[source] = { ...layer };
+    });
+    return { layers, hitStopRemaining: this.hitStopRemaining };
+  }
+
+  /**
+   * Replace all scales with a snapshot taken by serialize()
+   * @param snapshot Saved time-scale state
+   */
+  public restore(snapshot: TimeScaleSnapshot): void {
+    this.layers = new Map(Object.entries(snapshot.layers).map(([source, layer]) => [source, { ...layer }]));
+    this.hitStopRemaining = snapshot.hitStopRemaining;
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): any {
+    return {
+      hitStopRemaining: this.hitStopRemaining,
+      layers: Object.fromEntries(this.layers),
+      scales: {
+        global: this.getScale(),
+        player: this.getScale('player'),
+        enemies: this.getScale('enemies'),
+        asteroids: this.getScale('asteroids'),
+        projectiles: this.getScale('projectiles'),
+        vfx: this.getScale('vfx')
+      }
+    };
+  }
+}
@@ -60,6 +60,8 @@ export class VFXManager {
     small_explosion: { intensity: 2, duration: 0.2, frequency: 30 },
     medium_explosion: { intensity: 4, duration: 0.4, frequency: 25 },
     large_explosion: { intensity: 8, duration: 0.8, frequency: 20 },
+    shrapnel_burst: { intensity: 1.2, duration: 0.12, frequency: 45 },
+    volatile_blast: { intensity: 6, duration: 0.6, frequency: 22 },
     ship_hit: { intensity: 3, duration: 0.3, frequency: 35 },
     enemy_hit: { intensity: 1.5, duration: 0.15, frequency: 40 },
     pickup_collect: { intensity: 0.5, duration: 0.1, frequency: 50 }
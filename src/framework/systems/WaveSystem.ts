@@ -1,9 +1,16 @@
 import { EntityManager } from './EntityManager';
-import { AsteroidSize } from '../entities/Asteroid';
-import { WORLD, ASTEROIDS } from '../constants/gameConstants';
+import { Asteroid, AsteroidSize } from '../entities/Asteroid';
+import type { Beacon } from '../entities/Beacon';
+import '../entities/Beacon'; // Registers the 'beacons' entity kind
+import { EnemyType } from '../entities/Enemy';
+import { WORLD, ASTEROIDS, BEACON } from '../constants/gameConstants';
+import { getEnemyTypesForWave } from '../data/enemyDefinitions';
 import { AudioManager } from './AudioManager';
 import { ParticleSystem } from './ParticleSystem';
 import { VFXManager } from './VFXManager';
+import { RandomStream } from './RandomSystem';
+import { GameEventBus } from './GameEventBus';
+import { TimerHandle } from './Scheduler';
 import * as THREE from 'three';
 
 export interface WaveConfig {
@@ -22,10 +29,20 @@ export interface WaveState {
   waveComplete: boolean;
   asteroidCount: number;
   enemyCount: number;
+  pendingEnemies: number; // Enemies whose beacon hasn't gone down yet
+  totalCount: number;   // Asteroids plus enemies the wave started with
   waveStartTime: number;
   perfectWave: boolean; // No damage taken this wave
 }
 
+/**
+ * Wave state as saved: the pending enemy spawns are timers, so the time
+ * until the next one is carried alongside
+ */
+export interface WaveSnapshot extends WaveState {
+  nextEnemyIn?: number; // Seconds until the next pending beacon (absent when none are pending)
+}
+
 /**
  * Wave management system for progressive difficulty
  * Handles wave composition, spawning, and state transitions
@@ -33,6 +50,17 @@ export interface WaveState {
 export class WaveSystem {
   private entityManager: EntityManager;
   private waveState: WaveState;
+  private rng: RandomStream;
+  private events: GameEventBus;
+  
+  // Pending delayed actions, cancelled on reset
+  private timers: TimerHandle[] = [];
+  
+  // Composition of the wave in progress (debug only; not saved)
+  private waveConfig: WaveConfig | null = null;
+  
+  // Scheduler time the next pending beacon goes down at (null when none are pending)
+  private nextEnemyAt: number | null = null;
   
   // Wave progression constants
   private static readonly BASE_ASTEROIDS = 3;
@@ -46,12 +74,6 @@ export class WaveSystem {
   private particleSystem?: ParticleSystem;
   private vfxManager?: VFXManager;
   
-  // Callbacks
-  private onWaveStart?: (wave: number) => void;
-  private onWaveComplete?: (wave: number, perfect: boolean) => void;
-  private onWaveChange?: (waveState: WaveState) => void;
-  private onOpenHangar?: () => void;
-  
   constructor(
     entityManager: EntityManager,
     audioManager?: AudioManager,
@@ -59,6 +81,8 @@ export class WaveSystem {
     vfxManager?: VFXManager
   ) {
     this.entityManager = entityManager;
+    this.rng = entityManager.getRandom().stream('waves');
+    this.events = entityManager.getEvents();
     this.audioManager = audioManager;
     this.particleSystem = particleSystem;
     this.vfxManager = vfxManager;
@@ -69,37 +93,46 @@ export class WaveSystem {
       waveComplete: false,
       asteroidCount: 0,
       enemyCount: 0,
+      pendingEnemies: 0,
+      totalCount: 0,
       waveStartTime: 0,
       perfectWave: true
     };
+    
+    // Any hull damage spoils a perfect wave
+    this.events.on('shipDamaged', () => this.markDamage());
   }
   
   /**
-   * Register wave start callback
+   * Subscribe to wave starts (shorthand for the 'waveStarted' event)
+   * @returns Function that removes the subscription
    */
-  public onWaveStartCallback(callback: (wave: number) => void): void {
-    this.onWaveStart = callback;
+  public onWaveStartCallback(callback: (wave: number) => void): () => void {
+    return this.events.on('waveStarted', ({ wave }) => callback(wave));
   }
   
   /**
-   * Register wave complete callback
+   * Subscribe to wave completions (shorthand for the 'waveCompleted' event)
+   * @returns Function that removes the subscription
    */
-  public onWaveCompleteCallback(callback: (wave: number, perfect: boolean) => void): void {
-    this.onWaveComplete = callback;
+  public onWaveCompleteCallback(callback: (wave: number, perfect: boolean) => void): () => void {
+    return this.events.on('waveCompleted', ({ wave, perfect }) => callback(wave, perfect));
   }
   
   /**
-   * Register wave state change callback
+   * Subscribe to wave state changes (shorthand for the 'waveStateChanged' event)
+   * @returns Function that removes the subscription
    */
-  public onWaveStateChange(callback: (waveState: WaveState) => void): void {
-    this.onWaveChange = callback;
+  public onWaveStateChange(callback: (waveState: WaveState) => void): () => void {
+    return this.events.on('waveStateChanged', callback);
   }
   
   /**
-   * Register hangar open callback
+   * Subscribe to hangar openings (shorthand for the 'hangarOpened' event)
+   * @returns Function that removes the subscription
    */
-  public onOpenHangarCallback(callback: () => void): void {
-    this.onOpenHangar = callback;
+  public onOpenHangarCallback(callback: () => void): () => void {
+    return this.events.on('hangarOpened', () => callback());
   }
   
   /**
@@ -109,6 +142,7 @@ export class WaveSystem {
     if (this.waveState.waveActive) return;
     
     const waveConfig = this.generateWaveConfig(this.waveState.currentWave);
+    this.waveConfig = waveConfig;
     console.log('[WaveSystem] Starting wave', this.waveState.currentWave, 'with config:', waveConfig);
     
     // Wave start effects
@@ -130,21 +164,22 @@ export class WaveSystem {
           Math.sin(angle) * radius,
           0
         );
-        setTimeout(() => {
+        this.after(i * 0.2, () => {
           this.particleSystem?.emit('sparkle', sparklePos);
-        }, i * 200);
+        });
       }
     }
     
     this.spawnWave(waveConfig);
     
+    this.waveState.totalCount = waveConfig.asteroidCount + waveConfig.enemyCount;
     this.waveState.waveActive = true;
     this.waveState.waveComplete = false;
     this.waveState.waveStartTime = performance.now() / 1000;
     this.waveState.perfectWave = true;
     
-    this.onWaveStart?.(this.waveState.currentWave);
-    this.onWaveChange?.(this.waveState);
+    this.events.emit('waveStarted', { wave: this.waveState.currentWave });
+    this.events.emit('waveStateChanged', this.waveState);
   }
   
   /**
@@ -154,19 +189,24 @@ export class WaveSystem {
   public update(_dt: number): void {
     if (!this.waveState.waveActive) return;
     
-    // Count remaining entities
+    this.arriveAtBeacons();
+    
+    // Count remaining entities (enemies still on their way or yet to be
+    // announced count too)
     const asteroids = this.entityManager.getActiveEntities('asteroids');
     const enemies = this.entityManager.getActiveEntities('enemies') || [];
+    const beacons = this.entityManager.entities.beacons.filter(beacon => beacon.active);
+    const bosses = this.entityManager.entities.bosses ?? [];
     
     this.waveState.asteroidCount = asteroids.length;
-    this.waveState.enemyCount = enemies.length;
+    this.waveState.enemyCount = enemies.length + beacons.length + this.waveState.pendingEnemies;
     
-    // Check if wave is complete
-    if (asteroids.length === 0 && enemies.length === 0) {
+    // Check if wave is complete (a boss has to go down too)
+    if (asteroids.length === 0 && this.waveState.enemyCount === 0 && bosses.length === 0) {
       this.completeWave();
     }
     
-    this.onWaveChange?.(this.waveState);
+    this.events.emit('waveStateChanged', this.waveState);
   }
   
   /**
@@ -178,6 +218,10 @@ export class WaveSystem {
     this.waveState.waveActive = false;
     this.waveState.waveComplete = true;
     
+    // Nothing left over from this wave may turn up in the hangar or the next one
+    this.cancelTimers();
+    this.waveState.pendingEnemies = 0;
+    
     // Wave complete effects
     this.audioManager?.playSound('ui.wave_complete');
     
@@ -193,16 +237,16 @@ export class WaveSystem {
         
         // Multiple fireworks bursts
         for (let i = 0; i < 8; i++) {
-          setTimeout(() => {
+          this.after(i * 0.3, () => {
             const angle = (i / 8) * Math.PI * 2;
-            const radius = 150 + Math.random() * 100;
+            const radius = this.entityManager.getRandom().stream('vfx').range(150, 250);
             const burstPos = new THREE.Vector3(
               Math.cos(angle) * radius,
               Math.sin(angle) * radius,
               0
             );
             this.particleSystem?.emit('fireworks', burstPos);
-          }, i * 300);
+          });
         }
       }
     } else {
@@ -217,8 +261,8 @@ export class WaveSystem {
       }
     }
     
-    this.onWaveComplete?.(this.waveState.currentWave, this.waveState.perfectWave);
-    this.onWaveChange?.(this.waveState);
+    this.events.emit('waveCompleted', { wave: this.waveState.currentWave, perfect: this.waveState.perfectWave });
+    this.events.emit('waveStateChanged', this.waveState);
   }
   
   /**
@@ -234,7 +278,7 @@ export class WaveSystem {
     if (this.particleSystem) {
       // Create expanding ring of particles
       for (let i = 0; i < 32; i++) {
-        setTimeout(() => {
+        this.after(i * 0.05, () => {
           const angle = (i / 32) * Math.PI * 2;
           const radius = 50;
           const particlePos = new THREE.Vector3(
@@ -243,19 +287,19 @@ export class WaveSystem {
             0
           );
           this.particleSystem?.emit('sparkle', particlePos);
-        }, i * 50);
+        });
       }
     }
     
     // Check if this is an even wave (hangar cadence)
     if (this.waveState.currentWave % 2 === 0) {
       // Even wave: open hangar overlay
-      this.onOpenHangar?.();
+      this.events.emit('hangarOpened', { wave: this.waveState.currentWave });
     } else {
       // Odd wave: auto-start after brief delay
-      setTimeout(() => {
+      this.after(2, () => {
         this.startWave();
-      }, 2000);
+      });
     }
   }
   
@@ -275,13 +319,13 @@ export class WaveSystem {
     // Early waves: mostly large asteroids
     if (waveNumber <= 2) {
       for (let i = 0; i < asteroidCount; i++) {
-        asteroidSizes.push(Math.random() < 0.8 ? 'large' : 'medium');
+        asteroidSizes.push(this.rng.chance(0.8) ? 'large' : 'medium');
       }
     }
     // Mid waves: mix of sizes
     else if (waveNumber <= 5) {
       for (let i = 0; i < asteroidCount; i++) {
-        const rand = Math.random();
+        const rand = this.rng.next();
         if (rand < 0.5) asteroidSizes.push('large');
         else if (rand < 0.8) asteroidSizes.push('medium');
         else asteroidSizes.push('small');
@@ -290,7 +334,7 @@ export class WaveSystem {
     // Later waves: more variety and challenge
     else {
       for (let i = 0; i < asteroidCount; i++) {
-        const rand = Math.random();
+        const rand = this.rng.next();
         if (rand < 0.3) asteroidSizes.push('large');
         else if (rand < 0.7) asteroidSizes.push('medium');
         else asteroidSizes.push('small');
@@ -302,8 +346,7 @@ export class WaveSystem {
       ? Math.min(Math.floor((waveNumber - WaveSystem.ENEMY_START_WAVE) / 2) + 1, WaveSystem.MAX_ENEMIES)
       : 0;
     
-    // Speed multiplier increases gradually
-    const speedMultiplier = 1.0 + (waveNumber - 1) * 0.1;
+    const speedMultiplier = WaveSystem.speedMultiplierForWave(waveNumber);
     
     // Pickup chance increases with wave number
     const pickupChance = Math.min(0.1 + (waveNumber - 1) * 0.02, 0.4);
@@ -319,6 +362,14 @@ export class WaveSystem {
     };
   }
   
+  /**
+   * Speed multiplier for asteroids and enemies in a wave (increases gradually)
+   * @param waveNumber Wave number
+   */
+  private static speedMultiplierForWave(waveNumber: number): number {
+    return 1.0 + (waveNumber - 1) * 0.1;
+  }
+  
   /**
    * Spawn entities for the wave
    * @param config Wave configuration
@@ -335,44 +386,139 @@ export class WaveSystem {
       const toCenter = new THREE.Vector3(-position.x, -position.y, 0).normalize();
       const tangent  = new THREE.Vector3(-toCenter.y, toCenter.x, 0);
       const base = ASTEROIDS.baseSpeed * config.speedMultiplier;
-      const speed = base * (0.8 + Math.random() * 0.4);
-      const tangentAmt = (Math.random() - 0.5) * 0.5 * base;
+      const speed = base * this.rng.range(0.8, 1.2);
+      const tangentAmt = this.rng.range(-0.25, 0.25) * base;
       const velocity = new THREE.Vector3(
         toCenter.x * speed + tangent.x * tangentAmt,
         toCenter.y * speed + tangent.y * tangentAmt,
         0
       );
       
-      this.entityManager.spawnAsteroid(size, position.x, position.y, velocity.x, velocity.y);
+      const asteroid = this.entityManager.spawn('asteroids', position.x, position.y, size);
+      asteroid.velocity.copy(velocity);
+      asteroid.setHealthScale(Asteroid.healthScaleForWave(config.waveNumber));
       console.log('[WaveSystem] Spawned asteroid', i + 1, 'of', config.asteroidSizes.length, '- size:', size, 'at:', position);
     }
     
     // Schedule enemy spawning if needed
+    this.waveState.pendingEnemies = config.enemyCount;
     if (config.enemyCount > 0) {
-      setTimeout(() => {
-        this.spawnEnemies(config.enemyCount, config.speedMultiplier);
-      }, config.enemyDelay * 1000);
+      this.scheduleNextEnemy(config.enemyDelay);
     }
   }
   
   /**
-   * Spawn enemies for the wave
-   * @param count Number of enemies to spawn
-   * @param _speedMultiplier Speed multiplier for this wave (unused)
+   * Queue the next pending enemy's beacon
+   * @param seconds Delay in game seconds
    */
-  private spawnEnemies(count: number, _speedMultiplier: number): void {
-    for (let i = 0; i < count; i++) {
-      // Spawn enemy with delay between each
-      setTimeout(() => {
-        const position = this.getSpawnPosition();
-        
-        // TODO: Implement enemy spawning when Enemy entity is created
-        // this.entityManager.spawnEnemy(position.x, position.y, velocityX, velocityY);
-        console.log(`Would spawn enemy at (${position.x.toFixed(1)}, ${position.y.toFixed(1)})`);
-      }, i * 1000); // 1 second between enemy spawns
+  private scheduleNextEnemy(seconds: number): void {
+    this.nextEnemyAt = this.entityManager.getScheduler().getTime() + seconds;
+    this.after(seconds, () => this.spawnNextEnemy());
+  }
+  
+  /**
+   * Announce the next pending enemy, picking from the types this wave has
+   * unlocked; it arrives once its beacon runs out. The rest follow one per second.
+   */
+  private spawnNextEnemy(): void {
+    this.nextEnemyAt = null;
+    
+    const wave = this.waveState.currentWave;
+    const types = getEnemyTypesForWave(wave);
+    if (types.length === 0 || this.waveState.pendingEnemies <= 0) {
+      this.waveState.pendingEnemies = 0;
+      return;
+    }
+    
+    this.placeBeacon(this.rng.pick(types), WaveSystem.speedMultiplierForWave(wave));
+    this.waveState.pendingEnemies--;
+    
+    if (this.waveState.pendingEnemies > 0) {
+      this.scheduleNextEnemy(1);
+    }
+  }
+  
+  /**
+   * Put down a warning beacon where an enemy will arrive
+   * @param type Enemy type that will arrive
+   * @param speedMultiplier Speed multiplier for this wave
+   * @returns The placed beacon
+   */
+  public placeBeacon(type: EnemyType, speedMultiplier: number = 1): Beacon {
+    const position = this.getBeaconPosition();
+    const beacon = this.entityManager.spawn('beacons', position.x, position.y);
+    beacon.arm(type, speedMultiplier);
+    
+    this.audioManager?.playSound('combat.spawn_warning');
+    return beacon;
+  }
+  
+  /**
+   * Swap beacons whose countdown is over for their enemy
+   */
+  private arriveAtBeacons(): void {
+    for (const beacon of this.entityManager.entities.beacons) {
+      if (!beacon.active || !beacon.isReady()) continue;
+      
+      const { x, y } = beacon.position;
+      beacon.despawn();
+      const enemy = this.entityManager.spawn('enemies', x, y, beacon.enemyType);
+      enemy.velocity.multiplyScalar(beacon.getSpeedMultiplier());
+      this.particleSystem?.emit('sparks', new THREE.Vector3(x, y, 0));
     }
   }
   
+  /**
+   * Pick a beacon spot inside the world, well clear of the player
+   * Tries a few random points and falls back to the one farthest from any ship.
+   * @returns Beacon position
+   */
+  private getBeaconPosition(): { x: number; y: number } {
+    const ships = this.entityManager.entities.ships.filter(ship => ship.active);
+    const margin = 20;
+    const halfW = WORLD.width / 2 - margin;
+    const halfH = WORLD.height / 2 - margin;
+    
+    let best = { x: 0, y: 0 };
+    let bestDistance = -1;
+    
+    for (let attempt = 0; attempt < BEACON.spawnAttempts; attempt++) {
+      const x = this.rng.range(-halfW, halfW);
+      const y = this.rng.range(-halfH, halfH);
+      const distance = ships.length > 0
+        ? Math.min(...ships.map(ship => Math.hypot(ship.position.x - x, ship.position.y - y)))
+        : Infinity;
+      
+      if (distance >= BEACON.minPlayerDistance) return { x, y };
+      
+      if (distance > bestDistance) {
+        best = { x, y };
+        bestDistance = distance;
+      }
+    }
+    
+    return best;
+  }
+  
+  /**
+   * Run an action after a delay in game time
+   * @param seconds Delay in game seconds
+   * @param callback Action to run
+   */
+  private after(seconds: number, callback: () => void): void {
+    this.timers = this.timers.filter(timer => timer.isActive());
+    this.timers.push(this.entityManager.getScheduler().after(seconds, callback));
+  }
+  
+  /**
+   * Cancel every pending delayed action of this system
+   */
+  private cancelTimers(): void {
+    this.timers.forEach(timer => timer.cancel());
+    this.timers = [];
+    this.nextEnemyAt = null;
+  }
+  
   /**
    * Get spawn position at world edge
    * @returns spawn position outside world bounds
@@ -381,12 +527,12 @@ export class WaveSystem {
     const margin = 20;
     const halfW = WORLD.width / 2;
     const halfH = WORLD.height / 2;
-    const side = Math.floor(Math.random() * 4); // 0:L,1:R,2:T,3:B
+    const side = this.rng.int(4); // 0:L,1:R,2:T,3:B
     switch (side) {
-      case 0: return { x: -halfW - margin, y: (Math.random() * 2 - 1) * halfH };
-      case 1: return { x:  halfW + margin, y: (Math.random() * 2 - 1) * halfH };
-      case 2: return { x: (Math.random() * 2 - 1) * halfW, y:  halfH + margin };
-      default:return { x: (Math.random() * 2 - 1) * halfW, y: -halfH - margin };
+      case 0: return { x: -halfW - margin, y: this.rng.range(-1, 1) * halfH };
+      case 1: return { x:  halfW + margin, y: this.rng.range(-1, 1) * halfH };
+      case 2: return { x: this.rng.range(-1, 1) * halfW, y:  halfH + margin };
+      default:return { x: this.rng.range(-1, 1) * halfW, y: -halfH - margin };
     }
   }
   
@@ -401,17 +547,58 @@ export class WaveSystem {
    * Reset wave system for new game
    */
   public reset(): void {
+    this.cancelTimers();
+    this.waveConfig = null;
+    
     this.waveState = {
       currentWave: 1,
       waveActive: false,
       waveComplete: false,
       asteroidCount: 0,
       enemyCount: 0,
+      pendingEnemies: 0,
+      totalCount: 0,
       waveStartTime: 0,
       perfectWave: true
     };
     
-    this.onWaveChange?.(this.waveState);
+    this.events.emit('waveStateChanged', this.waveState);
+  }
+  
+  /**
+   * Capture wave progress for save games, including enemies still to come
+   */
+  public serialize(): WaveSnapshot {
+    const snapshot: WaveSnapshot = { ...this.waveState };
+    if (this.nextEnemyAt !== null) {
+      snapshot.nextEnemyIn = Math.max(0, this.nextEnemyAt - this.entityManager.getScheduler().getTime());
+    }
+    return snapshot;
+  }
+  
+  /**
+   * Continue from a saved wave state, re-scheduling the enemies still to come
+   * @param snapshot Wave state taken with serialize()
+   */
+  public restore(snapshot: WaveSnapshot): void {
+    this.cancelTimers();
+    this.waveConfig = null;
+    
+    const { nextEnemyIn, ...waveState } = snapshot;
+    this.waveState = {
+      ...waveState,
+      // Saves from before these were kept
+      pendingEnemies: waveState.pendingEnemies ?? 0,
+      totalCount: waveState.totalCount ?? waveState.asteroidCount + waveState.enemyCount
+    };
+    
+    if (this.waveState.waveActive && this.waveState.pendingEnemies > 0) {
+      this.scheduleNextEnemy(nextEnemyIn ?? 0);
+    } else {
+      this.waveState.pendingEnemies = 0;
+    }
+    
+    this.events.emit('waveStateChanged', this.waveState);
   }
   
   /**
@@ -444,13 +631,13 @@ export class WaveSystem {
   
   /**
    * Get wave progress (0-1)
+   * Read-only: works from the total captured at wave start, never the RNG
    */
   public getWaveProgress(): number {
     if (!this.waveState.waveActive) return 0;
     
     const totalEntities = this.waveState.asteroidCount + this.waveState.enemyCount;
-    const waveConfig = this.generateWaveConfig(this.waveState.currentWave);
-    const initialTotal = waveConfig.asteroidCount + waveConfig.enemyCount;
+    const initialTotal = this.waveState.totalCount;
     
     if (initialTotal === 0) return 1;
     
@@ -479,7 +666,7 @@ export class WaveSystem {
   public getDebugInfo(): any {
     return {
       waveState: this.waveState,
-      waveConfig: this.generateWaveConfig(this.waveState.currentWave),
+      waveConfig: this.waveConfig,
       progress: this.getWaveProgress(),
       systems: {
         hasAudio: !!this.audioManager,
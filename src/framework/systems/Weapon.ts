@@ -0,0 +1,285 @@
+import type { GameState } from '../hooks/useGameState';
+import { NO_MODIFIERS, StatModifiers } from '../data/statusEffectDefinitions';
+import { WEAPON_DEFINITIONS, WeaponDefinition, WeaponType } from '../data/weaponDefinitions';
+import { WEAPON, PierceType, SpreadType } from '../constants/gameConstants';
+
+/**
+ * The run mods that shape the player's gun
+ */
+export type WeaponMods = Pick<GameState['mods'], 'fireRateMul' | 'spread' | 'pierce' | 'ricochet' | 'shrapnel'>;
+
+/**
+ * One projectile of a volley, relative to the ship
+ */
+export interface ShotSpec {
+  angle: number;    // Absolute firing angle (radians, 0 = +Y)
+  offset: number;   // Sideways distance from the ship's nose (positive = right)
+  pierce: number;
+  ricochet: number;
+  damage: number;
+  charge: number;   // Charge cannon: 0-1 share of a full charge (0 for everything else)
+  explosive: boolean; // Shrapnel round
+}
+
+export const DEFAULT_WEAPON_MODS: Readonly<WeaponMods> = {
+  fireRateMul: 1,
+  spread: false,
+  pierce: false,
+  ricochet: 0,
+  shrapnel: false
+};
+
+/**
+ * The player's weapon slot (one per ship)
+ * Holds the equipped archetype and its trigger, builds each volley from the
+ * run mods and the ship's status effects, and keeps the cooldown and charge
+ * on simulation time so replays and saves stay exact. WeaponSystem turns
+ * the volleys into projectiles.
+ */
+export class Weapon {
+  private type: WeaponType = 'blaster';
+  private mods: WeaponMods = { ...DEFAULT_WEAPON_MODS };
+  private cooldown: number = 0;
+  private triggerHeld: boolean = false;
+  private chargeTime: number = 0;
+
+  /**
+   * Equip a different archetype (any charge held is lost)
+   * @param type Weapon to put in the slot
+   */
+  public setType(type: WeaponType): void {
+    if (type === this.type) return;
+    this.type = type;
+    this.chargeTime = 0;
+  }
+
+  public getType(): WeaponType {
+    return this.type;
+  }
+
+  public getDefinition(): WeaponDefinition {
+    return WEAPON_DEFINITIONS[this.type];
+  }
+
+  /**
+   * Hold or let go of the trigger (set every tick from input)
+   */
+  public setTrigger(held: boolean): void {
+    this.triggerHeld = held;
+  }
+
+  public isTriggerHeld(): boolean {
+    return this.triggerHeld;
+  }
+
+  /**
+   * Change the mods the next volley is built from
+   * @param mods Run mods (extra fields are ignored)
+   */
+  public setMods(mods: WeaponMods): void {
+    this.mods = {
+      fireRateMul: mods.fireRateMul,
+      spread: mods.spread,
+      pierce: mods.pierce,
+      ricochet: mods.ricochet,
+      shrapnel: mods.shrapnel ?? false
+    };
+  }
+
+  public getMods(): WeaponMods {
+    return { ...this.mods };
+  }
+
+  /**
+   * Tick the cooldown, and the charge while a charge cannon's trigger is held
+   * @param dt Delta time in seconds
+   */
+  public update(dt: number): void {
+    if (this.cooldown > 0) {
+      this.cooldown -= dt;
+    }
+
+    const charge = this.getDefinition().charge;
+    if (charge && this.triggerHeld && this.canFire()) {
+      this.chargeTime = Math.min(this.chargeTime + dt, charge.maxTime);
+    }
+  }
+
+  public canFire(): boolean {
+    return this.cooldown <= 0;
+  }
+
+  /**
+   * Seconds between volleys
+   * @param fireRate Fire rate multiplier from status effects
+   */
+  public getFireInterval(fireRate: number = 1): number {
+    const shrapnel = this.hasShrapnel() ? WEAPON.shrapnelFireRate : 1;
+    return this.getDefinition().fireInterval / (this.mods.fireRateMul * shrapnel * fireRate);
+  }
+
+  /**
+   * Whether volleys are shrapnel rounds (only archetypes that take the
+   * pierce mods fire plain rounds)
+   */
+  public hasShrapnel(): boolean {
+    return this.getDefinition().pierce && this.mods.shrapnel === true;
+  }
+
+  /**
+   * How far the charge cannon is charged
+   * @returns 0-1 share of a full charge (0 for other weapons)
+   */
+  public getChargeLevel(): number {
+    const charge = this.getDefinition().charge;
+    return charge ? this.chargeTime / charge.maxTime : 0;
+  }
+
+  /**
+   * Let go of a charge cannon's charge
+   * @param aim Direction the ship is facing (radians)
+   * @param modifiers Status effect modifiers on the ship
+   * @returns The shot, or null if it wasn't charged long enough
+   */
+  public releaseCharge(aim: number, modifiers: StatModifiers = NO_MODIFIERS): ShotSpec | null {
+    const { damage: baseDamage, charge } = this.getDefinition();
+    const held = this.chargeTime;
+    this.chargeTime = 0;
+
+    if (!charge || held < charge.minTime) return null;
+
+    const level = held / charge.maxTime;
+    const damage = baseDamage + (charge.maxDamage - baseDamage) * level;
+    this.cooldown = this.getFireInterval(modifiers.fireRate);
+
+    return {
+      angle: aim,
+      offset: 0,
+      pierce: 0,
+      ricochet: 0,
+      damage: damage * modifiers.damage,
+      charge: level,
+      explosive: false
+    };
+  }
+
+  /**
+   * Fire a volley if the gun is off cooldown
+   * @param aim Direction the ship is facing (radians)
+   * @param modifiers Status effect modifiers on the ship
+   * @returns Shots to spawn (empty while cooling down)
+   */
+  public fire(aim: number, modifiers: StatModifiers = NO_MODIFIERS): ShotSpec[] {
+    if (!this.canFire()) return [];
+
+    this.cooldown = this.getFireInterval(modifiers.fireRate);
+    return this.buildVolley(aim, modifiers);
+  }
+
+  /**
+   * Work out what a volley would fire, without touching the cooldown
+   * @param aim Direction the ship is facing (radians)
+   * @param modifiers Status effect modifiers on the ship
+   */
+  public buildVolley(aim: number, modifiers: StatModifiers = NO_MODIFIERS): ShotSpec[] {
+    const definition = this.getDefinition();
+
+    // Archetypes that can't use a mod fire as if it weren't there
+    const spread = definition.spread ? this.mods.spread : false;
+    const pierce = definition.pierce ? this.mods.pierce : false;
+    const ricochet = definition.pierce ? this.mods.ricochet : 0;
+
+    const damage = definition.damage * Weapon.spreadDamage(spread) * Weapon.pierceDamage(pierce) * modifiers.damage;
+    const shot = {
+      pierce: definition.pierce ? Weapon.pierceCount(pierce) + modifiers.pierce : 0,
+      ricochet: Math.min(Math.max(0, ricochet), WEAPON.maxRicochet),
+      damage,
+      charge: 0,
+      explosive: this.hasShrapnel()
+    };
+
+    // Twin Cannons fire parallel barrels; the other spreads fan out from the nose
+    if (spread === 'twin') {
+      const half = WEAPON.twinSpacing / 2;
+      return [-half, half].map(offset => ({ ...shot, angle: aim, offset }));
+    }
+
+    return Weapon.spreadAngles(spread).map(angle => ({ ...shot, angle: aim + angle, offset: 0 }));
+  }
+
+  /**
+   * Bullets per volley for a spread mod
+   */
+  public static barrelCount(spread: SpreadType): number {
+    return spread === 'twin' ? 2 : Weapon.spreadAngles(spread).length;
+  }
+
+  /**
+   * Extra targets each bullet passes through for a pierce mod
+   */
+  public static pierceCount(pierce: PierceType): number {
+    switch (pierce) {
+      case 'ultra': return WEAPON.pierceHits.ultra;
+      case 'super': return WEAPON.pierceHits.super;
+      case true: return WEAPON.pierceHits.normal;
+      default: return 0;
+    }
+  }
+
+  private static spreadAngles(spread: SpreadType): readonly number[] {
+    if (spread === 'wide') return WEAPON.wideAngles;
+    if (spread === true) return WEAPON.tripleAngles;
+    return [0];
+  }
+
+  private static spreadDamage(spread: SpreadType): number {
+    switch (spread) {
+      case 'wide': return WEAPON.spreadDamage.wide;
+      case true: return WEAPON.spreadDamage.triple;
+      case 'twin': return WEAPON.spreadDamage.twin;
+      default: return 1;
+    }
+  }
+
+  private static pierceDamage(pierce: PierceType): number {
+    switch (pierce) {
+      case 'ultra': return WEAPON.pierceDamage.ultra;
+      case 'super': return WEAPON.pierceDamage.super;
+      case true: return WEAPON.pierceDamage.normal;
+      default: return 1;
+    }
+  }
+
+  public getCooldown(): number {
+    return this.cooldown;
+  }
+
+  /**
+   * Restore the cooldown from a save
+   */
+  public setCooldown(cooldown: number): void {
+    this.cooldown = cooldown;
+  }
+
+  public getChargeTime(): number {
+    return this.chargeTime;
+  }
+
+  /**
+   * Restore a held charge from a save
+   */
+  public setChargeTime(chargeTime: number): void {
+    this.chargeTime = chargeTime;
+  }
+
+  /**
+   * Back to a plain single-shot blaster, ready to fire
+   */
+  public reset(): void {
+    this.type = 'blaster';
+    this.mods = { ...DEFAULT_WEAPON_MODS };
+    this.cooldown = 0;
+    this.triggerHeld = false;
+    this.chargeTime = 0;
+  }
+}
@@ -0,0 +1,505 @@
+import * as THREE from 'three';
+import { EntityManager } from './EntityManager';
+import { CollisionSystem } from './CollisionSystem';
+import { PhysicsSystem } from './PhysicsSystem';
+import { BossSystem } from './BossSystem';
+import { AudioManager } from './AudioManager';
+import { ParticleSystem } from './ParticleSystem';
+import { VFXManager } from './VFXManager';
+import { DebrisSystem } from './DebrisSystem';
+import { BaseEntity } from '../entities/BaseEntity';
+import { Ship } from '../entities/Ship';
+import { Asteroid } from '../entities/Asteroid';
+import { Enemy } from '../entities/Enemy';
+import { Boss } from '../entities/Boss';
+import type { LaserBeam } from '../entities/LaserBeam';
+import type { Missile } from '../entities/Missile';
+import type { Mine } from '../entities/Mine';
+import type { ChargeShot } from '../entities/ChargeShot';
+import '../entities/LaserBeam';  // Registers the 'beams' entity kind
+import '../entities/Missile';    // Registers the 'missiles' entity kind
+import '../entities/Mine';       // Registers the 'mines' entity kind
+import '../entities/ChargeShot'; // Registers the 'chargeShots' entity kind
+import { WEAPON_DEFINITIONS, WeaponType } from '../data/weaponDefinitions';
+import type { StatusEffectType } from '../data/statusEffectDefinitions';
+import { WEAPON } from '../constants/gameConstants';
+
+/**
+ * Fires whatever is in each ship's weapon slot and resolves the hits of the
+ * archetypes that don't use plain bullets
+ * update() runs before movement and turns held triggers into shots (blaster
+ * volleys, missiles, mines, released charges, the laser beam). checkHits()
+ * runs after the collision grid is rebuilt: it steers missiles, sets off
+ * mines, ploughs charge shots through targets and raycasts the laser.
+ */
+export class WeaponSystem {
+  private entityManager: EntityManager;
+  private collisionSystem: CollisionSystem;
+  private bossSystem: BossSystem;
+
+  // Audio and VFX systems (optional)
+  private audioManager?: AudioManager;
+  private particleSystem?: ParticleSystem;
+  private vfxManager?: VFXManager;
+  private debrisSystem?: DebrisSystem;
+
+  // Sound played when each archetype fires
+  private static readonly FIRE_SOUNDS: Record<WeaponType, string> = {
+    blaster: 'ship.shoot',
+    laser: 'weapon.laser',
+    missile: 'weapon.missile',
+    mine: 'weapon.mine',
+    charge: 'weapon.charge'
+  };
+
+  // Extra search distance for contacts, covering the largest target radius
+  private static readonly CONTACT_REACH = 20;
+
+  constructor(
+    entityManager: EntityManager,
+    collisionSystem: CollisionSystem,
+    bossSystem: BossSystem,
+    audioManager?: AudioManager,
+    particleSystem?: ParticleSystem,
+    vfxManager?: VFXManager,
+    debrisSystem?: DebrisSystem
+  ) {
+    this.entityManager = entityManager;
+    this.collisionSystem = collisionSystem;
+    this.bossSystem = bossSystem;
+    this.audioManager = audioManager;
+    this.particleSystem = particleSystem;
+    this.vfxManager = vfxManager;
+    this.debrisSystem = debrisSystem;
+  }
+
+  /**
+   * Fire every ship's equipped weapon (call before movement)
+   * @param _dt Delta time in seconds (unused; cooldowns tick with the ship)
+   */
+  public update(_dt: number): void {
+    const ships = this.entityManager.getActiveEntities('ships') as Ship[];
+
+    for (const ship of ships) {
+      if (!ship.active) continue;
+
+      switch (ship.weapon.getType()) {
+        case 'blaster': this.fireBlaster(ship); break;
+        case 'missile': this.fireMissiles(ship); break;
+        case 'mine': this.dropMines(ship); break;
+        case 'charge': this.releaseCharge(ship); break;
+        case 'laser': break; // Beams are kept in syncBeams below
+      }
+    }
+
+    this.syncBeams(ships);
+  }
+
+  /**
+   * Resolve missile, mine, charge shot and laser hits (call after the
+   * collision grid is rebuilt)
+   * @param dt Delta time in seconds
+   */
+  public checkHits(dt: number): void {
+    this.updateMissiles();
+    this.updateMines();
+    this.updateChargeShots();
+    this.updateBeams(this.entityManager.getTimeScale().scale(dt, 'player'));
+  }
+
+  private fireBlaster(ship: Ship): void {
+    if (!ship.weapon.isTriggerHeld()) return;
+
+    const bullets = ship.shoot();
+    if (bullets.length === 0) return;
+
+    for (const bullet of bullets) {
+      this.entityManager.addExistingEntity(bullet, 'bullets');
+      bullet.spawn();
+    }
+    this.announce(ship, 'blaster', bullets.length);
+  }
+
+  private fireMissiles(ship: Ship): void {
+    if (!ship.weapon.isTriggerHeld()) return;
+
+    const shots = ship.weapon.fire(ship.rotation, ship.effects.getModifiers());
+    for (const shot of shots) {
+      const { x, y } = ship.getMuzzlePosition(shot.offset);
+      const missile = this.entityManager.spawn('missiles', x, y);
+      missile.launch(shot.angle, shot.damage, ship);
+    }
+
+    if (shots.length > 0) {
+      this.announce(ship, 'missile', shots.length);
+    }
+  }
+
+  private dropMines(ship: Ship): void {
+    if (!ship.weapon.isTriggerHeld()) return;
+
+    const { dropDistance, maxActive } = WEAPON_DEFINITIONS.mine.mine!;
+    const shots = ship.weapon.fire(ship.rotation, ship.effects.getModifiers());
+    for (const shot of shots) {
+      const { x, y } = ship.getMuzzlePosition(shot.offset, -dropDistance);
+      const mine = this.entityManager.spawn('mines', x, y);
+      mine.drop(ship.velocity.x * WEAPON.inheritVelocity, ship.velocity.y * WEAPON.inheritVelocity, shot.damage);
+    }
+
+    if (shots.length === 0) return;
+    this.announce(ship, 'mine', shots.length);
+
+    // Too many out: the oldest goes off
+    const mines = (this.entityManager.getActiveEntities('mines') as Mine[])
+      .filter(mine => mine.active)
+      .sort((a, b) => b.age - a.age);
+    while (mines.length > maxActive) {
+      this.detonateMine(mines.shift()!);
+    }
+  }
+
+  private releaseCharge(ship: Ship): void {
+    // Charge builds in the weapon while held; letting go fires it
+    if (ship.weapon.isTriggerHeld() || ship.weapon.getChargeTime() <= 0) return;
+
+    const shot = ship.weapon.releaseCharge(ship.rotation, ship.effects.getModifiers());
+    if (!shot) return;
+
+    const { x, y } = ship.getMuzzlePosition(shot.offset);
+    const orb = this.entityManager.spawn('chargeShots', x, y);
+    orb.launch(
+      shot.angle,
+      shot.damage,
+      shot.charge,
+      ship,
+      ship.velocity.x * WEAPON.inheritVelocity,
+      ship.velocity.y * WEAPON.inheritVelocity
+    );
+
+    this.particleSystem?.emit('charge_burst', orb.position.clone());
+    this.vfxManager?.shakeScreen('small_explosion');
+    this.announce(ship, 'charge', 1);
+  }
+
+  /**
+   * One beam per ship holding a laser's trigger; beams restored from a save
+   * are adopted, any left over are switched off
+   */
+  private syncBeams(ships: Ship[]): void {
+    const beams = (this.entityManager.getActiveEntities('beams') as LaserBeam[]).filter(beam => beam.active);
+
+    for (const ship of ships) {
+      if (!ship.active || ship.weapon.getType() !== 'laser' || !ship.weapon.isTriggerHeld()) continue;
+
+      const beam = beams.find(candidate => candidate.owner === ship) ?? beams.find(candidate => !candidate.owner);
+      if (beam) {
+        beam.owner = ship;
+        continue;
+      }
+
+      const { x, y } = ship.getMuzzlePosition();
+      const started = this.entityManager.spawn('beams', x, y);
+      started.owner = ship;
+      beams.push(started);
+      this.announce(ship, 'laser', 1);
+    }
+
+    for (const beam of beams) {
+      const owner = beam.owner as Ship | null;
+      const firing = owner?.active && owner.weapon.getType() === 'laser' && owner.weapon.isTriggerHeld();
+      if (!firing) {
+        beam.despawn();
+      }
+    }
+  }
+
+  /**
+   * Steer missiles at the nearest target ahead and blow them up on contact
+   */
+  private updateMissiles(): void {
+    const missiles = this.entityManager.getActiveEntities('missiles') as Missile[];
+
+    for (const missile of missiles) {
+      if (!missile.active) continue;
+      if (!missile.target?.active) {
+        missile.target = this.acquireTarget(missile);
+      }
+      if (missile.takeTrailPuff()) {
+        this.particleSystem?.emit('missile_trail', missile.position.clone());
+      }
+
+      const boss = this.bossSystem.getBoss();
+      const target = boss && PhysicsSystem.areColliding(missile, boss)
+        ? boss
+        : this.findContacts(missile)[0];
+      if (!target) continue;
+
+      const hitPosition = missile.position.clone();
+      const owner = missile.owner;
+      missile.despawn();
+
+      this.damageTarget(target, missile.damage, 'missile', hitPosition, missile, WeaponSystem.getInflicted(owner));
+      this.particleSystem?.emit('asteroid_explosion_small', hitPosition);
+    }
+  }
+
+  /**
+   * Nearest asteroid, enemy or boss within the missile's seek range and cone
+   */
+  private acquireTarget(missile: Missile): BaseEntity | null {
+    const { seekRange, seekAngle } = WEAPON_DEFINITIONS.missile.missile!;
+    const { x, y } = missile.position;
+
+    const candidates = this.collisionSystem.getEntitiesInRadius(x, y, seekRange).filter(WeaponSystem.isTarget);
+    const boss = this.bossSystem.getBoss();
+    if (boss && Math.hypot(boss.position.x - x, boss.position.y - y) <= seekRange) {
+      candidates.push(boss);
+    }
+
+    let best: BaseEntity | null = null;
+    let bestDistance = Infinity;
+
+    for (const candidate of candidates) {
+      if (!candidate.active) continue;
+
+      const dx = candidate.position.x - x;
+      const dy = candidate.position.y - y;
+      let off = Math.atan2(dx, dy) - missile.rotation;
+      while (off > Math.PI) off -= Math.PI * 2;
+      while (off < -Math.PI) off += Math.PI * 2;
+      if (Math.abs(off) > seekAngle) continue;
+
+      const distance = Math.hypot(dx, dy);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Set off armed mines that something drifted into, and any that ran out of time
+   */
+  private updateMines(): void {
+    const { triggerRadius } = WEAPON_DEFINITIONS.mine.mine!;
+    const mines = this.entityManager.getActiveEntities('mines') as Mine[];
+
+    for (const mine of mines) {
+      if (!mine.active) continue; // Caught in an earlier mine's blast
+
+      if (mine.isExpired() || (mine.isArmed() && this.isAnythingWithin(mine.position, triggerRadius))) {
+        this.detonateMine(mine);
+      }
+    }
+  }
+
+  private isAnythingWithin(position: THREE.Vector3, radius: number): boolean {
+    const boss = this.bossSystem.getBoss();
+    if (boss && WeaponSystem.edgeDistance(position, boss) <= radius) return true;
+
+    return this.collisionSystem
+      .getEntitiesInRadius(position.x, position.y, radius + WeaponSystem.CONTACT_REACH)
+      .some(entity => entity.active && WeaponSystem.isTarget(entity) && WeaponSystem.edgeDistance(position, entity) <= radius);
+  }
+
+  /**
+   * Blow a mine: everything within the blast radius takes its full damage
+   * (the ship that dropped it is never hurt)
+   */
+  private detonateMine(mine: Mine): void {
+    const { blastRadius } = WEAPON_DEFINITIONS.mine.mine!;
+    const position = mine.position.clone();
+    mine.despawn();
+
+    const ship = this.entityManager.getActiveEntities('ships')[0] as Ship | undefined;
+    const inflicts = WeaponSystem.getInflicted(ship ?? null);
+
+    const caught = this.collisionSystem
+      .getEntitiesInRadius(position.x, position.y, blastRadius + WeaponSystem.CONTACT_REACH)
+      .filter(entity => WeaponSystem.isTarget(entity) && WeaponSystem.edgeDistance(position, entity) <= blastRadius);
+
+    for (const entity of caught) {
+      if (!entity.active) continue;
+      this.damageTarget(entity, mine.damage, 'mine', entity.position.clone(), mine, inflicts);
+    }
+
+    const boss = this.bossSystem.getBoss();
+    if (boss && WeaponSystem.edgeDistance(position, boss) <= blastRadius) {
+      this.damageTarget(boss, mine.damage, 'mine', position, mine, inflicts);
+    }
+
+    this.particleSystem?.emit('mine_blast', position);
+    this.vfxManager?.shakeScreen('medium_explosion');
+    this.audioManager?.playSound('combat.explosion_medium');
+  }
+
+  /**
+   * Charge shots pass through everything, hitting each target once
+   */
+  private updateChargeShots(): void {
+    const orbs = this.entityManager.getActiveEntities('chargeShots') as ChargeShot[];
+
+    for (const orb of orbs) {
+      if (!orb.active) continue;
+
+      const inflicts = WeaponSystem.getInflicted(orb.owner);
+      const targets = this.findContacts(orb);
+      const boss = this.bossSystem.getBoss();
+      if (boss && PhysicsSystem.areColliding(orb, boss)) {
+        targets.push(boss);
+      }
+
+      for (const target of targets) {
+        if (!target.active || orb.hits.has(target)) continue;
+        orb.hits.add(target);
+
+        this.particleSystem?.emit('charge_burst', orb.position.clone());
+        this.damageTarget(target, orb.damage, 'charge', orb.position.clone(), orb, inflicts);
+      }
+    }
+  }
+
+  /**
+   * Aim each beam from its ship's nose to the first thing in its path and
+   * burn that in pulses
+   * @param dt Delta time on the player's clock
+   */
+  private updateBeams(dt: number): void {
+    const { range, pulseInterval } = WEAPON_DEFINITIONS.laser.laser!;
+    const beams = this.entityManager.getActiveEntities('beams') as LaserBeam[];
+
+    for (const beam of beams) {
+      const ship = beam.owner as Ship | null;
+      if (!beam.active || !ship?.active) continue;
+
+      const origin = ship.getMuzzlePosition();
+      const angle = ship.rotation;
+      let hit = this.collisionSystem.raycast(origin.x, origin.y, angle, range, WeaponSystem.isTarget);
+
+      // The boss isn't on the collision grid
+      const boss = this.bossSystem.getBoss();
+      if (boss) {
+        const distance = CollisionSystem.rayCircleDistance(
+          origin.x, origin.y, Math.sin(angle), Math.cos(angle), range,
+          boss.position.x, boss.position.y, boss.radius
+        );
+        if (distance !== null && (!hit || distance < hit.distance)) {
+          hit = {
+            entity: boss,
+            distance,
+            point: new THREE.Vector3(origin.x + Math.sin(angle) * distance, origin.y + Math.cos(angle) * distance, 0)
+          };
+        }
+      }
+
+      beam.aim(origin.x, origin.y, angle, hit ? hit.distance : range);
+
+      if (!beam.tickPulse(dt) || !hit) continue;
+
+      const modifiers = ship.effects.getModifiers();
+      const damage = WEAPON_DEFINITIONS.laser.damage * pulseInterval * modifiers.damage;
+
+      this.particleSystem?.emit('laser_burn', hit.point);
+      this.audioManager?.playSound('weapon.laser', 0.5);
+      this.damageTarget(hit.entity, damage, 'laser', hit.point, beam, ship.effects.getInflicted());
+    }
+  }
+
+  /**
+   * Asteroids and enemies the entity is touching
+   */
+  private findContacts(entity: BaseEntity): BaseEntity[] {
+    const { x, y } = entity.position;
+    return this.collisionSystem
+      .getEntitiesInRadius(x, y, entity.radius + WeaponSystem.CONTACT_REACH)
+      .filter(other => other.active && WeaponSystem.isTarget(other) && PhysicsSystem.areColliding(entity, other));
+  }
+
+  /**
+   * Deal weapon damage to an asteroid, enemy or boss
+   * @returns True if the target was destroyed
+   */
+  private damageTarget(
+    target: BaseEntity,
+    damage: number,
+    cause: WeaponType,
+    hitPosition: THREE.Vector3,
+    source: BaseEntity,
+    inflicts: readonly StatusEffectType[]
+  ): boolean {
+    if (target instanceof Boss) {
+      return this.bossSystem.damageBoss(target, hitPosition.x, hitPosition.y, damage, source);
+    }
+
+    if (target instanceof Enemy) {
+      return CollisionSystem.damageEnemy(
+        target,
+        damage,
+        inflicts,
+        cause,
+        this.entityManager,
+        this.audioManager,
+        this.particleSystem,
+        this.vfxManager,
+        this.debrisSystem
+      );
+    }
+
+    if (target instanceof Asteroid) {
+      return CollisionSystem.damageAsteroid(
+        target,
+        damage,
+        hitPosition,
+        cause,
+        this.entityManager,
+        this.audioManager,
+        this.particleSystem,
+        this.vfxManager,
+        this.debrisSystem
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Publish a shot with its sound and muzzle flash
+   */
+  private announce(ship: Ship, weapon: WeaponType, count: number): void {
+    this.audioManager?.playSound(WeaponSystem.FIRE_SOUNDS[weapon]);
+    if (weapon !== 'mine') {
+      this.particleSystem?.emit('muzzle_flash', ship.position.clone());
+    }
+    this.entityManager.getEvents().emit('weaponFired', { ship, weapon, count });
+  }
+
+  private static isTarget(entity: BaseEntity): boolean {
+    return entity instanceof Asteroid || entity instanceof Enemy;
+  }
+
+  /**
+   * Distance from a point to the edge of an entity (0 inside it)
+   */
+  private static edgeDistance(position: THREE.Vector3, entity: BaseEntity): number {
+    const distance = Math.hypot(entity.position.x - position.x, entity.position.y - position.y);
+    return Math.max(0, distance - entity.radius);
+  }
+
+  private static getInflicted(owner: BaseEntity | null): readonly StatusEffectType[] {
+    return owner instanceof Ship ? owner.effects.getInflicted() : [];
+  }
+
+  /**
+   * Get debug information
+   */
+  public getDebugInfo(): any {
+    return {
+      beams: this.entityManager.getActiveEntities('beams').length,
+      missiles: this.entityManager.getActiveEntities('missiles').length,
+      mines: this.entityManager.getActiveEntities('mines').length,
+      chargeShots: this.entityManager.getActiveEntities('chargeShots').length
+    };
+  }
+}
@@ -1,6 +1,32 @@
 // Systems exports
 export { EntityManager } from './EntityManager';
+export { EntityView } from './EntityView';
+export { EntityRegistry } from './EntityRegistry';
+export { GameEventBus } from './GameEventBus';
 export { PhysicsSystem } from './PhysicsSystem';
 export { CollisionSystem } from './CollisionSystem';
-export type { EntityCollections } from './EntityManager';
-export type { CollisionEvent } from './CollisionSystem';
\ No newline at end of file
+export { Explosion } from './Explosion';
+export { LivesSystem } from './LivesSystem';
+export { DroneSystem } from './DroneSystem';
+export { BossSystem } from './BossSystem';
+export { StatusEffectSystem } from './StatusEffectSystem';
+export { StatusEffects } from './StatusEffects';
+export { Weapon } from './Weapon';
+export { WeaponSystem } from './WeaponSystem';
+export { RandomSystem, RandomStream } from './RandomSystem';
+export { ReplaySystem, ReplayRecorder, ReplayPlayer } from './ReplaySystem';
+export { SaveSystem } from './SaveSystem';
+export { Scheduler } from './Scheduler';
+export { TimeScaleSystem } from './TimeScaleSystem';
+export type { EntityCollections, EntityManagerSnapshot } from './EntityManager';
+export type { EntityKind, EntityOf, EntityTypeDefinition } from './EntityRegistry';
+export type { CollisionEvent } from './CollisionSystem';
+export type { CollisionContact } from './PhysicsSystem';
+export type { ExplosionOptions } from './Explosion';
+export type { ActiveStatusEffect } from './StatusEffects';
+export type { WeaponMods, ShotSpec } from './Weapon';
+export type { GameEventMap, GameEventType, GameEventHandler } from './GameEventBus';
+export type { InputFrame, ReplayData, HangarAction } from './ReplaySystem';
+export type { SavedRun } from './SaveSystem';
+export type { TimerHandle, RepeatOptions } from './Scheduler';
+export type { TimeGroup, TimeScaleTarget, TimeScaleSnapshot } from './TimeScaleSystem';
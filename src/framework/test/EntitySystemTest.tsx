@@ -1,8 +1,9 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { useGameState } from '../hooks/useGameState';
 import { useThreeScene } from '../hooks/useThreeScene';
 import { EntityManager } from '../systems/EntityManager';
+import { CollisionSystem } from '../systems/CollisionSystem';
 import { useGameLoop } from '../game/GameLoop';
+import { SystemPipeline } from '../game/SystemPipeline';
 import { Ship } from '../entities/Ship';
 
 /**
@@ -16,9 +17,10 @@ import { Ship } from '../entities/Ship';
  * - Basic game loop
  */
 export const EntitySystemTest: React.FC = () => {
-  const gameStateHook = useGameState();
   const threeScene = useThreeScene();
   const [entityManager, setEntityManager] = useState<EntityManager | null>(null);
+  const [collisionSystem, setCollisionSystem] = useState<CollisionSystem | null>(null);
+  const [pipeline] = useState(() => new SystemPipeline());
   const [ship, setShip] = useState<Ship | null>(null);
   
   // Input state
@@ -47,24 +49,31 @@ export const EntitySystemTest: React.FC = () => {
       const em = new EntityManager(threeScene.sceneRefs.current.scene);
       console.log('[EntitySystemTest] EntityManager created:', em);
       setEntityManager(em);
+      setCollisionSystem(new CollisionSystem(em));
     }
   }, [threeScene.sceneRefs, threeScene.mountRef, entityManager]);
 
   // Initialize game loop
-  const gameLoopHook = useGameLoop(
-    entityManager!,
-    gameStateHook.state,
-    {
-      onUpdate: (dt: number) => {
-        if (!ship || !entityManager) return;
+  const gameLoopHook = useGameLoop(pipeline);
+
+  // Register the test scene's systems
+  useEffect(() => {
+    if (!entityManager || !collisionSystem) return;
+
+    const unregister = [
+      pipeline.register('input', 'input', (dt) => {
+        if (!ship) return;
 
         // Update ship controls
         updateShipControls(ship, dt);
         
         // Handle shooting
         handleShooting(ship, entityManager);
-      },
-      onRender: () => {
+      }),
+      pipeline.register('entities', 'physics', (dt) => entityManager.update(dt)),
+      pipeline.register('collision', 'collision', (dt) => collisionSystem.update(dt)),
+      pipeline.register('entityView', 'render', (_dt, alpha) => entityManager.render(alpha)),
+      pipeline.register('scene', 'render', () => {
         const sceneRefs = threeScene.sceneRefs.current;
         if (sceneRefs) {
           // Update camera to follow ship
@@ -75,9 +84,11 @@ export const EntitySystemTest: React.FC = () => {
           
           sceneRefs.renderer.render(sceneRefs.scene, sceneRefs.camera);
         }
-      }
-    }
-  );
+      }, { order: 1 })
+    ];
+
+    return () => unregister.forEach(remove => remove());
+  }, [pipeline, entityManager, collisionSystem, ship, threeScene.sceneRefs]);
 
   // Setup input handling
   useEffect(() => {
@@ -119,7 +130,7 @@ export const EntitySystemTest: React.FC = () => {
   const handleSpawnShip = () => {
     if (entityManager) {
       console.log('[EntitySystemTest] Spawning ship...');
-      const newShip = entityManager.spawnShip(0, 0);
+      const newShip = entityManager.spawn('ships', 0, 0);
       console.log('[EntitySystemTest] Ship spawned:', newShip);
       setShip(newShip);
       
@@ -139,10 +150,8 @@ export const EntitySystemTest: React.FC = () => {
       const y = Math.sin(angle) * distance;
       
       console.log('[EntitySystemTest] Spawning asteroid at:', x, y);
-      const asteroid = entityManager.spawnAsteroid('large', x, y, 
-        (Math.random() - 0.5) * 20, 
-        (Math.random() - 0.5) * 20
-      );
+      const asteroid = entityManager.spawn('asteroids', x, y, 'large');
+      asteroid.velocity.set((Math.random() - 0.5) * 20, (Math.random() - 0.5) * 20, 0);
       console.log('[EntitySystemTest] Asteroid spawned:', asteroid);
     } else {
       console.warn('[EntitySystemTest] Cannot spawn asteroid - entityManager not ready');
@@ -195,16 +204,12 @@ export const EntitySystemTest: React.FC = () => {
       // Use ship's built-in rate limiting
       if (ship.canShoot()) {
         console.log('[EntitySystemTest] Firing bullet at rotation:', ship.rotation);
-        const bullet = entityManager.spawnBullet(
-          ship.position.x,
-          ship.position.y,
-          ship.rotation, // Use ship's actual rotation
-          ship.velocity.x * 0.1,
-          ship.velocity.y * 0.1
-        );
+        const bullet = entityManager.spawn('bullets', ship.position.x, ship.position.y);
+        bullet.launch(ship.rotation); // Use ship's actual rotation
+        bullet.velocity.addScaledVector(ship.velocity, 0.1);
         console.log('[EntitySystemTest] Bullet spawned:', bullet);
         
-        // Update ship's shot time
+        // Update ship's shot time (its own volley is discarded)
         ship.shoot(); // This updates the internal cooldown
       }
     }
@@ -212,7 +217,7 @@ export const EntitySystemTest: React.FC = () => {
 
   const debugInfo = entityManager?.getDebugInfo();
   const perfMetrics = gameLoopHook.getPerformanceMetrics();
-  const collisionInfo = gameLoopHook.getCollisionSystem?.()?.getDebugInfo();
+  const collisionInfo = collisionSystem?.getDebugInfo();
 
   return (
     <div style={{ 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GameStats } from '../systems/GameStateManager';
 
 export interface GameOverProps {
@@ -6,6 +6,9 @@ export interface GameOverProps {
   isNewHighScore: boolean;
   onRestart: () => void;
   onMainMenu: () => void;
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
+  onImportReplay?: (json: string) => boolean;
   className?: string;
 }
 
@@ -18,11 +21,16 @@ export const GameOver: React.FC<GameOverProps> = ({
   isNewHighScore,
   onRestart,
   onMainMenu,
+  onWatchReplay,
+  onExportReplay,
+  onImportReplay,
   className = ''
 }) => {
   const [playerName, setPlayerName] = useState('');
   const [nameSubmitted, setNameSubmitted] = useState(false);
   const [showStats, setShowStats] = useState(false);
+  const [importError, setImportError] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Show stats after brief delay for dramatic effect
   useEffect(() => {
@@ -88,6 +96,15 @@ export const GameOver: React.FC<GameOverProps> = ({
     }
   };
   
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImportReplay) return;
+    
+    const text = await file.text();
+    setImportError(!onImportReplay(text));
+  };
+  
   return (
     <div className={`fixed inset-0 bg-black bg-opacity-95 flex items-center justify-center text-white ${className}`}>
       <div className="max-w-4xl w-full p-8 space-y-8">
@@ -97,6 +114,12 @@ export const GameOver: React.FC<GameOverProps> = ({
             GAME OVER
           </h1>
           
+          {stats.deathReason && (
+            <div className="text-2xl text-red-300 font-mono">
+              {stats.deathReason}
+            </div>
+          )}
+          
           {/* Performance Grade */}
           <div className={`text-6xl font-bold font-mono ${performance.color}`}>
             {performance.grade}
@@ -170,6 +193,11 @@ export const GameOver: React.FC<GameOverProps> = ({
                   <span className="text-green-400 text-xl font-bold">{stats.wave}</span>
                 </div>
                 
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-300">Ships Lost:</span>
+                  <span className="text-red-400 text-xl font-bold">{stats.shipsLost}</span>
+                </div>
+                
                 <div className="flex justify-between items-center">
                   <span className="text-gray-300">Time Survived:</span>
                   <span className="text-blue-400 text-xl font-bold">{formatTime(stats.timeAlive)}</span>
@@ -247,6 +275,53 @@ export const GameOver: React.FC<GameOverProps> = ({
           </button>
         </div>
         
+        {/* Replay Controls */}
+        {(onWatchReplay || onExportReplay || onImportReplay) && (
+          <div className="flex justify-center space-x-4">
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="px-6 py-2 bg-pink-700 hover:bg-pink-600 text-white font-bold rounded-lg transition-all duration-200 font-mono uppercase tracking-wider"
+              >
+                Watch Replay
+              </button>
+            )}
+            
+            {onExportReplay && (
+              <button
+                onClick={onExportReplay}
+                className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded-lg transition-all duration-200 font-mono uppercase tracking-wider"
+              >
+                Export Replay
+              </button>
+            )}
+            
+            {onImportReplay && (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded-lg transition-all duration-200 font-mono uppercase tracking-wider"
+                >
+                  Import Replay
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleReplayFile}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+        )}
+        
+        {importError && (
+          <div className="text-center text-red-400 font-mono">
+            Invalid replay file
+          </div>
+        )}
+        
         {/* Tips for improvement */}
         {stats.accuracy < 0.5 && (
           <div className="text-center bg-blue-900 bg-opacity-50 p-4 rounded-lg border border-blue-400">
@@ -2,6 +2,10 @@ import React from 'react';
 import { GameStats } from '../systems/GameStateManager';
 import { EntityManager } from '../systems/EntityManager';
 import { Minimap } from '../components/hud/Minimap';
+import { BeaconIndicators } from '../components/hud/BeaconIndicators';
+import { StatusEffectDisplay } from '../components/hud/StatusEffectDisplay';
+import type { BossStatus } from '../entities/Boss';
+import { HULL } from '../constants/gameConstants';
 
 export interface HUDProps {
   stats: GameStats;
@@ -13,6 +17,8 @@ export interface HUDProps {
   entityManager?: EntityManager;
   minimapOpacity?: number;
   viewport?: { cx: number; cy: number; camW: number; camH: number };
+  boss?: BossStatus | null;  // Active boss, for the boss health bar
+  bossBanner?: string | null; // Boss intro banner text
 }
 
 /**
@@ -28,7 +34,9 @@ export const HUD: React.FC<HUDProps> = ({
   className = '',
   entityManager,
   minimapOpacity = 1.0,
-  viewport
+  viewport,
+  boss = null,
+  bossBanner = null
 }) => {
   const formatScore = (score: number): string => {
     return score.toLocaleString();
@@ -119,6 +127,27 @@ export const HUD: React.FC<HUDProps> = ({
             <div className="text-lg text-green-400">{formatPercentage(stats.accuracy)}</div>
           </div>
           
+          <div>
+            <div className="text-sm text-gray-300">HULL</div>
+            <div className="w-24 h-2 mt-2 bg-gray-700 rounded">
+              <div
+                className={`h-2 rounded ${stats.hull > HULL.max * 0.3 ? 'bg-cyan-400' : 'bg-red-500'}`}
+                style={{ width: `${Math.max(0, Math.min(1, stats.hull / HULL.max)) * 100}%` }}
+              />
+            </div>
+          </div>
+          
+          {stats.shields > 0 && (
+            <div>
+              <div className="text-sm text-gray-300">SHIELDS</div>
+              <div className="flex space-x-1 mt-1">
+                {Array.from({ length: stats.shields }, (_, i) => (
+                  <div key={i} className="w-3 h-3 rounded-full border-2 border-sky-300 bg-sky-500 bg-opacity-50" />
+                ))}
+              </div>
+            </div>
+          )}
+          
           <div>
             <div className="text-sm text-gray-300">LIVES</div>
             <div className="flex space-x-1 mt-1">
@@ -140,6 +169,44 @@ export const HUD: React.FC<HUDProps> = ({
         </div>
       </div>
       
+      {/* Off-screen enemy spawn warnings */}
+      {entityManager && viewport && (
+        <BeaconIndicators entityManager={entityManager} viewport={viewport} />
+      )}
+      
+      {/* Boss Health Bar - under the top bar */}
+      {boss && (
+        <div className="absolute top-24 left-1/2 transform -translate-x-1/2 w-96 bg-black bg-opacity-70 text-white px-4 py-2 rounded-lg font-mono">
+          <div className="flex justify-between text-sm">
+            <span className="text-red-400 font-bold">{boss.name.toUpperCase()}</span>
+            <span className="text-gray-300">PHASE {boss.phase}/3</span>
+          </div>
+          <div className="w-full h-3 mt-1 bg-gray-700 rounded overflow-hidden">
+            <div
+              className="h-full bg-red-500 transition-all duration-200"
+              style={{ width: `${Math.max(0, Math.min(1, boss.health / boss.maxHealth)) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+      
+      {/* Boss Intro Banner */}
+      {bossBanner && (
+        <div className="absolute inset-x-0 top-1/3 flex justify-center">
+          <div className="bg-red-900 bg-opacity-70 border-y-2 border-red-500 px-12 py-4 text-center font-mono pulse-glow">
+            <div className="text-sm tracking-widest text-red-300">WARNING</div>
+            <div className="text-4xl font-bold text-white">{bossBanner.toUpperCase()}</div>
+          </div>
+        </div>
+      )}
+      
+      {/* Active power-ups - above the statistics */}
+      {entityManager && (
+        <div className="absolute bottom-36 left-4">
+          <StatusEffectDisplay entityManager={entityManager} />
+        </div>
+      )}
+      
       {/* Bottom Left - Statistics */}
       <div className="absolute bottom-4 left-4 bg-black bg-opacity-70 text-white p-3 rounded-lg font-mono text-sm">
         <div className="space-y-1">
@@ -193,7 +260,7 @@ export const HUD: React.FC<HUDProps> = ({
               score: stats.score,
               wave: stats.wave,
               lives: stats.lives,
-              shipsLost: 0,
+              shipsLost: stats.shipsLost,
               gameOver: false,
               paused: false,
               pausedForUpgrade: false,
@@ -6,6 +6,7 @@ export interface MainMenuProps {
   settings: GameSettings;
   systemsReady?: boolean;
   onStartGame: () => void;
+  onContinue?: () => void;
   onShowHighScores: () => void;
   onShowSettings: () => void;
   onSettingsChange: (settings: Partial<GameSettings>) => void;
@@ -21,6 +22,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({
   settings,
   systemsReady = true,
   onStartGame,
+  onContinue,
   onShowHighScores,
   onShowSettings,
   onSettingsChange,
@@ -99,6 +101,15 @@ export const MainMenu: React.FC<MainMenuProps> = ({
         
         {/* Main Menu Buttons */}
         <div className="space-y-4">
+          {onContinue && systemsReady && (
+            <button
+              onClick={onContinue}
+              className="w-64 px-8 py-4 bg-green-600 hover:bg-green-500 text-white font-bold text-xl rounded-lg transform transition-all duration-200 hover:scale-105 hover:shadow-lg hover:shadow-green-500/50 font-mono uppercase tracking-wider"
+            >
+              Continue
+            </button>
+          )}
+          
           <button
             onClick={systemsReady ? onStartGame : undefined}
             disabled={!systemsReady}
@@ -7,6 +7,7 @@ export interface PauseMenuProps {
   onResume: () => void;
   onRestart: () => void;
   onMainMenu: () => void;
+  onSaveAndQuit?: () => void;
   onSettingsChange: (settings: Partial<GameSettings>) => void;
   className?: string;
 }
@@ -21,6 +22,7 @@ export const PauseMenu: React.FC<PauseMenuProps> = ({
   onResume,
   onRestart,
   onMainMenu,
+  onSaveAndQuit,
   onSettingsChange,
   className = ''
 }) => {
@@ -115,6 +117,15 @@ export const PauseMenu: React.FC<PauseMenuProps> = ({
               {confirmRestart ? 'Confirm Restart' : 'Restart Game'}
             </button>
             
+            {onSaveAndQuit && (
+              <button
+                onClick={onSaveAndQuit}
+                className="w-full px-6 py-3 bg-cyan-700 hover:bg-cyan-600 text-white font-bold rounded-lg transform transition-all duration-200 hover:scale-105 font-mono uppercase tracking-wider"
+              >
+                Save &amp; Quit
+              </button>
+            )}
+            
             <button
               onClick={handleQuit}
               className={`w-full px-6 py-3 font-bold rounded-lg transform transition-all duration-200 hover:scale-105 font-mono uppercase tracking-wider ${
@@ -1,6 +1,8 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { GameStateHook } from '../framework/hooks/useGameState';
 import { ThreeSceneHook } from '../framework/hooks/useThreeScene';
+import { useGameLoop } from '../framework/game/GameLoop';
+import { SystemPipeline } from '../framework/game/SystemPipeline';
 
 interface GameSceneProps {
   gameState: GameStateHook;
@@ -8,57 +10,58 @@ interface GameSceneProps {
 }
 
 const GameScene: React.FC<GameSceneProps> = ({ gameState, threeScene }) => {
-  const frameId = useRef<number>();
-  const lastTime = useRef(performance.now() / 1000);
+  // Systems read the latest hook values through refs; the loop itself lives as long as the scene
+  const gameStateRef = useRef(gameState);
+  const threeSceneRef = useRef(threeScene);
+  gameStateRef.current = gameState;
+  threeSceneRef.current = threeScene;
+  
+  const [pipeline] = useState(() => new SystemPipeline());
+  const { start, stop } = useGameLoop(pipeline, {
+    shouldUpdate: () => {
+      const { started, paused, gameOver } = gameStateRef.current.state;
+      return started && !paused && !gameOver;
+    }
+  });
   
   // Main game loop
   useEffect(() => {
-    const gameLoop = () => {
-      const now = performance.now() / 1000;
-      const deltaTime = Math.min(now - lastTime.current, 0.033); // Clamp to 30fps minimum
-      lastTime.current = now;
-      
-      // Update Three.js scene effects (warp, camera shake, etc.)
-      threeScene.update(deltaTime, {
-        paused: gameState.state.paused,
-        gameOver: gameState.state.gameOver
-      });
-      
-      // Game logic updates would go here
-      if (gameState.state.started && !gameState.state.paused && !gameState.state.gameOver) {
+    const unregister = [
+      pipeline.register('timers', 'scoring', (dt) => {
+        const gameState = gameStateRef.current;
+        
         // Update invulnerability timer
         if (gameState.state.invuln > 0) {
-          gameState.decrementInvuln(deltaTime);
+          gameState.decrementInvuln(dt);
         }
         
         // Update combo timer
         if (gameState.state.comboTimer > 0) {
-          gameState.decrementComboTimer(deltaTime);
+          gameState.decrementComboTimer(dt);
         }
+      }),
+      pipeline.register('scene', 'render', (frameDt) => {
+        const threeScene = threeSceneRef.current;
+        const { paused, gameOver } = gameStateRef.current.state;
         
-        // TODO: Update entities (bullets, asteroids, enemies, etc.)
-        // TODO: Check collisions
-        // TODO: Update pickups
-        // TODO: Check wave completion
-      }
-      
-      // Render frame
-      if (threeScene.sceneRefs.current) {
-        const { composer } = threeScene.sceneRefs.current;
-        composer.render();
-      }
-      
-      frameId.current = requestAnimationFrame(gameLoop);
-    };
+        // Update Three.js scene effects (warp, camera shake, etc.)
+        threeScene.update(Math.min(frameDt, 0.033), { paused, gameOver }); // Clamp to 30fps minimum
+        
+        // Render frame
+        if (threeScene.sceneRefs.current) {
+          const { composer } = threeScene.sceneRefs.current;
+          composer.render();
+        }
+      })
+    ];
     
-    frameId.current = requestAnimationFrame(gameLoop);
+    start();
     
     return () => {
-      if (frameId.current) {
-        cancelAnimationFrame(frameId.current);
-      }
+      stop();
+      unregister.forEach(remove => remove());
     };
-  }, [gameState, threeScene]);
+  }, [pipeline]);
   
   // Keyboard controls
   useEffect(() => {